@@ -0,0 +1,122 @@
+/**
+ * Agent Interface
+ *
+ * An agent bundles everything the orchestrator needs to expose a tool to the model:
+ * the function declaration, argument validation, execution and result formatting.
+ * Agents are registered in an AgentRegistry (see ./registry.ts).
+ */
+
+import { FunctionDeclaration } from '@google/generative-ai';
+import { ClarificationOption, ResultTable, SourceRef } from '../types';
+import type { Logger } from '../logging';
+
+/**
+ * Per-call hooks passed to Agent.invoke()
+ */
+export interface AgentCallContext {
+  /** Report time (ms) spent waiting in an outbound rate-limit queue */
+  onQueued?: (queuedMs: number) => void;
+  /** Preferred content language of the conversation or request (e.g. "it") */
+  language?: string;
+  /** Report input rejected by the agent's own checks (e.g. the SPARQL gate), with a short reason code */
+  onRejected?: (reason: string) => void;
+  /** Logger bound to the request ID and the agent name */
+  logger?: Logger;
+}
+
+/**
+ * Returned by Agent.clarify() when the user must choose between ambiguous results
+ */
+export interface AgentClarification {
+  question: string;
+  /**
+   * Each option carries the text sent to the model if the user picks it, and the sources
+   * (and table) recorded for the call then: candidates the user rejects are never cited
+   */
+  options: Array<ClarificationOption & { result: string; sources?: SourceRef[]; table?: ResultTable }>;
+}
+
+export interface Agent<TArgs = Record<string, any>, TData = unknown> {
+  /** Function name exposed to the model (must match declaration.name) */
+  readonly name: string;
+
+  /** Function declaration sent to the model */
+  readonly declaration: FunctionDeclaration;
+
+  /** Response cache namespace (TTL is looked up by this name). Omit to disable caching. */
+  readonly cacheNamespace?: string;
+
+  /** Validate and normalize raw model arguments, throwing on invalid input (context supplies defaults) */
+  validateArgs(args: Record<string, any>, context: AgentCallContext): TArgs;
+
+  /** Normalized cache key for validated arguments */
+  cacheKey?(args: TArgs): string;
+
+  /** Execute the call against the upstream service */
+  invoke(args: TArgs, context: AgentCallContext): Promise<TData>;
+
+  /** Format raw data as text for the model */
+  formatResult(data: TData): string;
+
+  /** Structured version of raw data for clients (recorded in agentCalls, not sent to the model) */
+  toTable?(data: TData): ResultTable | undefined;
+
+  /** Pages and attributions behind the data, numbered by the orchestrator so the model can cite them */
+  sources?(data: TData): SourceRef[];
+
+  /** Ask the user to choose when the result is ambiguous; return null to continue */
+  clarify?(args: TArgs, data: TData): AgentClarification | null;
+}
+
+/**
+ * Read a required, non-empty string argument
+ */
+export function requireString(args: Record<string, any>, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`Invalid argument "${name}": expected a non-empty string`);
+  }
+  return value;
+}
+
+/**
+ * Read a required numeric argument, optionally bounded to [min, max]
+ */
+export function requireNumber(args: Record<string, any>, name: string, min?: number, max?: number): number {
+  const value = typeof args[name] === 'string' ? Number(args[name]) : args[name];
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error(`Invalid argument "${name}": expected a number`);
+  }
+  if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    throw new Error(`Invalid argument "${name}": expected a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Read an optional boolean argument
+ */
+export function optionalBoolean(args: Record<string, any>, name: string, defaultValue = false): boolean {
+  const value = args[name];
+  if (value === undefined || value === null) {
+    return defaultValue;
+  }
+  if (typeof value !== 'boolean') {
+    throw new Error(`Invalid argument "${name}": expected a boolean`);
+  }
+  return value;
+}
+
+/**
+ * Read an optional language code argument (e.g. "en", "pt-br"), lowercased
+ */
+export function optionalLanguage(args: Record<string, any>, name: string, defaultValue = 'en'): string {
+  if (args[name] === undefined || args[name] === null) {
+    return defaultValue;
+  }
+  const value = requireString(args, name).trim().toLowerCase();
+  if (!/^[a-z]{2,3}(-[a-z0-9]+)*$/.test(value)) {
+    throw new Error(`Invalid argument "${name}": "${value}" is not a language code`);
+  }
+  return value;
+}
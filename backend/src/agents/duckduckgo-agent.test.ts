@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DuckDuckGoAgent, DuckDuckGoInstantAnswer } from './duckduckgo-agent';
+
+const agent = new DuckDuckGoAgent('https://api.duckduckgo.com');
+
+function answer(fields: Partial<DuckDuckGoInstantAnswer>): DuckDuckGoInstantAnswer {
+  return {
+    Heading: '',
+    AbstractText: '',
+    AbstractSource: '',
+    AbstractURL: '',
+    Answer: '',
+    AnswerType: '',
+    Definition: '',
+    DefinitionSource: '',
+    DefinitionURL: '',
+    RelatedTopics: [],
+    ...fields,
+  };
+}
+
+test('requires a query', () => {
+  assert.deepEqual(agent.validateArgs({ query: 'quantum computing' }), { query: 'quantum computing' });
+  assert.throws(() => agent.validateArgs({ query: '  ' }), /"query": expected a non-empty string/);
+  assert.throws(() => agent.validateArgs({}), /"query": expected a non-empty string/);
+});
+
+test('caches equivalent queries under one key', () => {
+  assert.equal(agent.cacheKey({ query: ' Quantum   Computing ' }), agent.cacheKey({ query: 'quantum computing' }));
+});
+
+test('formats the abstract and definition with their sources and DuckDuckGo attribution', () => {
+  const output = agent.formatResult(
+    answer({
+      Heading: 'Quantum computing',
+      AbstractText: 'A quantum computer exploits quantum mechanics.',
+      AbstractSource: 'Wikipedia',
+      AbstractURL: 'https://en.wikipedia.org/wiki/Quantum_computing',
+      Definition: 'computing with qubits',
+      DefinitionURL: 'https://example.org/qubit',
+    })
+  );
+
+  assert.equal(
+    output,
+    '**Quantum computing**\n\n' +
+      'A quantum computer exploits quantum mechanics.\n\n' +
+      '🔗 Source: Wikipedia - https://en.wikipedia.org/wiki/Quantum_computing\n\n' +
+      'Definition: computing with qubits\n\n' +
+      '🔗 Definition source: Unknown - https://example.org/qubit\n\n' +
+      'Results from the DuckDuckGo Instant Answer API (https://duckduckgo.com)'
+  );
+});
+
+test('lists at most five related topics, from topic groups too', () => {
+  const topic = (n: number) => ({ Text: `Topic ${n}`, FirstURL: `https://duckduckgo.com/Topic_${n}` });
+  const group = { Name: 'Group', Topics: [topic(2), topic(3), { Name: 'Empty' }] };
+  const output = agent.formatResult(
+    answer({ Answer: '42', RelatedTopics: [topic(1), group, topic(4), topic(5), topic(6)] })
+  );
+
+  assert.match(output, /^Answer: 42\n\nRelated:\n- Topic 1 \(https:\/\/duckduckgo\.com\/Topic_1\)\n- Topic 2 /);
+  assert.match(output, /- Topic 5 \(https:\/\/duckduckgo\.com\/Topic_5\)\n\nResults from the DuckDuckGo/);
+  assert.doesNotMatch(output, /Topic 6|Empty/);
+});
+
+test('says when there is no instant answer', () => {
+  assert.equal(agent.formatResult(answer({})), 'No instant answer found.');
+});
@@ -0,0 +1,177 @@
+import axios from 'axios';
+import { FunctionDeclaration, SchemaType } from '@google/generative-ai';
+import { config } from '../config';
+import { SourceRef } from '../types';
+import { Logger, logger } from '../logging';
+import { Agent, AgentCallContext, requireString } from './agent';
+
+interface DuckDuckGoTopic {
+  Text?: string;
+  FirstURL?: string;
+  /** Present on topic groups, e.g. disambiguation categories */
+  Name?: string;
+  Topics?: DuckDuckGoTopic[];
+}
+
+export interface DuckDuckGoInstantAnswer {
+  Heading: string;
+  AbstractText: string;
+  AbstractSource: string;
+  AbstractURL: string;
+  Answer: string;
+  AnswerType: string;
+  Definition: string;
+  DefinitionSource: string;
+  DefinitionURL: string;
+  RelatedTopics: DuckDuckGoTopic[];
+}
+
+interface DuckDuckGoArgs {
+  query: string;
+}
+
+/**
+ * DuckDuckGo Agent
+ * Last-resort fallback using the DuckDuckGo Instant Answer API (no web results,
+ * only abstracts, definitions and direct answers)
+ */
+export class DuckDuckGoAgent implements Agent<DuckDuckGoArgs, DuckDuckGoInstantAnswer> {
+  readonly name = 'search_duckduckgo';
+  readonly cacheNamespace = 'duckduckgo';
+
+  readonly declaration: FunctionDeclaration = {
+    name: 'search_duckduckgo',
+    description:
+      'Look up a quick definition or instant answer with the DuckDuckGo Instant Answer API. ' +
+      'LAST RESORT: use only when Wikidata and Wikipedia have no answer. ' +
+      'Returns an abstract, definition or direct answer with its original source; always cite DuckDuckGo and that source.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        query: {
+          type: SchemaType.STRING,
+          description: 'Search query, ideally a concept or entity name (e.g., "quantum computing")',
+        },
+      },
+      required: ['query'],
+    },
+  };
+
+  constructor(private readonly baseUrl: string = config.duckduckgo.baseUrl) {}
+
+  validateArgs(args: Record<string, any>): DuckDuckGoArgs {
+    return { query: requireString(args, 'query') };
+  }
+
+  cacheKey(args: DuckDuckGoArgs): string {
+    return args.query.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  invoke(args: DuckDuckGoArgs, context: AgentCallContext = {}): Promise<DuckDuckGoInstantAnswer> {
+    return this.search(args.query, context.logger);
+  }
+
+  formatResult(data: DuckDuckGoInstantAnswer): string {
+    return this.formatAnswer(data);
+  }
+
+  /**
+   * Original pages behind the abstract and definition
+   */
+  sources(data: DuckDuckGoInstantAnswer): SourceRef[] {
+    const refs: SourceRef[] = [];
+    if (data.AbstractURL) {
+      refs.push({
+        type: 'duckduckgo',
+        title: `${data.Heading || 'Abstract'} - ${data.AbstractSource || 'Unknown'}`,
+        url: data.AbstractURL,
+        attribution: 'via DuckDuckGo Instant Answer API',
+      });
+    }
+    if (data.DefinitionURL) {
+      refs.push({
+        type: 'duckduckgo',
+        title: `Definition - ${data.DefinitionSource || 'Unknown'}`,
+        url: data.DefinitionURL,
+        attribution: 'via DuckDuckGo Instant Answer API',
+      });
+    }
+    return refs;
+  }
+
+  /**
+   * Query the Instant Answer API
+   */
+  async search(query: string, log: Logger = logger): Promise<DuckDuckGoInstantAnswer> {
+    log.debug('DuckDuckGo instant answer', { query });
+
+    try {
+      const response = await axios.get<DuckDuckGoInstantAnswer>(`${this.baseUrl.replace(/\/$/, '')}/`, {
+        params: {
+          q: query,
+          format: 'json',
+          no_html: 1,
+          skip_disambig: 1,
+          t: 'wikidai',
+        },
+        headers: {
+          'User-Agent': 'WikidAI-PoC/0.1 (Educational Project)',
+        },
+        timeout: 8000,
+      });
+
+      log.debug('DuckDuckGo answer retrieved', { title: response.data.Heading });
+      return response.data;
+    } catch (error: any) {
+      log.warn('DuckDuckGo request failed', { error });
+      throw new Error(`DuckDuckGo request failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Format the instant answer with attribution
+   */
+  formatAnswer(data: DuckDuckGoInstantAnswer): string {
+    const sections: string[] = [];
+
+    if (data.Heading) {
+      sections.push(`**${data.Heading}**`);
+    }
+
+    if (data.Answer) {
+      sections.push(`Answer: ${data.Answer}`);
+    }
+
+    if (data.AbstractText) {
+      sections.push(data.AbstractText);
+      if (data.AbstractURL) {
+        sections.push(`🔗 Source: ${data.AbstractSource || 'Unknown'} - ${data.AbstractURL}`);
+      }
+    }
+
+    if (data.Definition) {
+      sections.push(`Definition: ${data.Definition}`);
+      if (data.DefinitionURL) {
+        sections.push(`🔗 Definition source: ${data.DefinitionSource || 'Unknown'} - ${data.DefinitionURL}`);
+      }
+    }
+
+    const related = flattenTopics(data.RelatedTopics || []).slice(0, 5);
+    if (related.length > 0) {
+      sections.push(
+        'Related:\n' + related.map((topic) => `- ${topic.Text} (${topic.FirstURL})`).join('\n')
+      );
+    }
+
+    if (sections.length === 0) {
+      return 'No instant answer found.';
+    }
+
+    sections.push('Results from the DuckDuckGo Instant Answer API (https://duckduckgo.com)');
+    return sections.join('\n\n');
+  }
+}
+
+function flattenTopics(topics: DuckDuckGoTopic[]): DuckDuckGoTopic[] {
+  return topics.flatMap((topic) => (topic.Topics ? flattenTopics(topic.Topics) : topic.Text ? [topic] : []));
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { EntityClaim, EntityDataAgent, WikidataEntity } from './entity-data-agent';
+
+function claim(n: number, values: number): EntityClaim {
+  return {
+    property: `P${n}`,
+    propertyLabel: `property ${n}`,
+    statements: Array.from({ length: values }, (_, i) => ({
+      value: { text: `value ${i}` },
+      rank: 'normal' as const,
+      qualifiers: [],
+      references: [],
+    })),
+  };
+}
+
+function entity(claims: EntityClaim[]): WikidataEntity {
+  return { id: 'Q1', type: 'item', language: 'en', label: 'Test', aliases: [], sitelinks: [], claims };
+}
+
+test('formats every claim of a small entity', () => {
+  const output = new EntityDataAgent().formatEntity(entity([claim(1, 2)]));
+
+  assert.match(output, /- property 1 \(P1\):\n {2}• value 0\n {2}• value 1$/);
+  assert.doesNotMatch(output, /more/);
+});
+
+test('caps the properties and values of a large entity and says what was left out', () => {
+  const claims = Array.from({ length: 60 }, (_, i) => claim(i + 1, i === 0 ? 25 : 1));
+  const output = new EntityDataAgent().formatEntity(entity(claims));
+
+  assert.match(output, /^Claims \(60 properties\):$/m);
+  assert.match(output, /• value 9\n {2}\(\+15 more values\)\n/);
+  assert.doesNotMatch(output, /value 10\b/);
+  assert.match(output, /\(P50\)/);
+  assert.doesNotMatch(output, /\(P51\)/);
+  assert.match(output, /\(\+10 more properties, request them with "properties": P51, P52, .*, P60\)$/);
+});
@@ -0,0 +1,425 @@
+import axios from 'axios';
+import { FunctionDeclaration, SchemaType } from '@google/generative-ai';
+import { config } from '../config';
+import { SourceRef } from '../types';
+import { wikidataEntitySource } from '../citations';
+import { Logger, logger } from '../logging';
+import { Agent, AgentCallContext, optionalLanguage, requireString } from './agent';
+
+const USER_AGENT = 'WikidAI-PoC/0.1 (Educational Project)';
+/** wbgetentities accepts at most 50 IDs per request */
+const LABEL_BATCH_SIZE = 50;
+/** Upper bound on label lookups for very large entities (IDs beyond it keep their bare ID) */
+const MAX_RESOLVED_IDS = 500;
+/** Output caps for very large entities (the model is told what was left out and can ask for "properties") */
+const MAX_FORMATTED_PROPERTIES = 50;
+const MAX_VALUES_PER_PROPERTY = 10;
+const MAX_REFERENCES_PER_STATEMENT = 2;
+
+interface RawSnak {
+  snaktype: 'value' | 'somevalue' | 'novalue';
+  property: string;
+  datatype?: string;
+  datavalue?: { type: string; value: any };
+}
+
+interface RawStatement {
+  mainsnak: RawSnak;
+  rank: 'preferred' | 'normal' | 'deprecated';
+  qualifiers?: Record<string, RawSnak[]>;
+  'qualifiers-order'?: string[];
+  references?: Array<{ snaks: Record<string, RawSnak[]>; 'snaks-order'?: string[] }>;
+}
+
+interface RawEntity {
+  id: string;
+  type: string;
+  labels?: Record<string, { value: string }>;
+  descriptions?: Record<string, { value: string }>;
+  aliases?: Record<string, Array<{ value: string }>>;
+  sitelinks?: Record<string, { site: string; title: string; url?: string }>;
+  claims?: Record<string, RawStatement[]>;
+}
+
+/**
+ * A snak value rendered as text, with the entity ID when it points to an item or property
+ */
+export interface EntityValue {
+  text: string;
+  id?: string;
+}
+
+/**
+ * Property/values pair used for qualifiers and reference snaks
+ */
+export interface EntitySnakGroup {
+  property: string;
+  propertyLabel: string;
+  values: EntityValue[];
+}
+
+export interface EntityStatement {
+  value: EntityValue;
+  rank: 'preferred' | 'normal' | 'deprecated';
+  qualifiers: EntitySnakGroup[];
+  /** One entry per reference, each a list of snak groups (stated in, reference URL...) */
+  references: EntitySnakGroup[][];
+}
+
+export interface EntityClaim {
+  property: string;
+  propertyLabel: string;
+  statements: EntityStatement[];
+}
+
+export interface WikidataEntity {
+  id: string;
+  type: string;
+  language: string;
+  label?: string;
+  description?: string;
+  aliases: string[];
+  sitelinks: Array<{ site: string; title: string; url?: string }>;
+  claims: EntityClaim[];
+}
+
+interface EntityDataArgs {
+  id: string;
+  language: string;
+  /** Only these properties (all when empty) */
+  properties: string[];
+}
+
+/**
+ * Entity Data Agent
+ * Fetches a whole Wikidata entity (Special:EntityData) with claims, qualifiers
+ * and references resolved to labels
+ */
+export class EntityDataAgent implements Agent<EntityDataArgs, WikidataEntity> {
+  readonly name = 'get_wikidata_entity';
+  readonly cacheNamespace = 'wikidata_entity';
+
+  readonly declaration: FunctionDeclaration = {
+    name: 'get_wikidata_entity',
+    description:
+      'Fetch a complete Wikidata entity by ID (Q### item or P### property): labels, description, aliases, ' +
+      'sitelinks and all claims with qualifiers (start/end dates, etc.) and references, resolved to labels. ' +
+      'Use this to inspect an entity (e.g., "all identifiers of X", "awards of Y with dates") or to discover ' +
+      'which properties it uses before composing complex SPARQL. Pass "properties" to keep large entities short.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        id: {
+          type: SchemaType.STRING,
+          description: 'Entity ID (e.g., "Q42" for Douglas Adams, "P569" for date of birth)',
+        },
+        language: {
+          type: SchemaType.STRING,
+          description: 'Language code for labels (default: "en")',
+        },
+        properties: {
+          type: SchemaType.ARRAY,
+          items: { type: SchemaType.STRING },
+          description: 'Optional list of property IDs to return (e.g., ["P166", "P69"]); omit for all claims',
+        },
+      },
+      required: ['id'],
+    },
+  };
+
+  constructor(
+    private readonly entityDataUrl: string = config.wikidata.entityDataUrl,
+    private readonly apiUrl: string = config.wikidata.apiUrl
+  ) {}
+
+  validateArgs(args: Record<string, any>): EntityDataArgs {
+    const id = requireString(args, 'id').trim().toUpperCase();
+    if (!/^[QP]\d+$/.test(id)) {
+      throw new Error(`Invalid argument "id": "${id}" is not a Wikidata item or property ID`);
+    }
+
+    let properties: string[] = [];
+    if (args.properties !== undefined && args.properties !== null) {
+      if (!Array.isArray(args.properties)) {
+        throw new Error('Invalid argument "properties": expected a list of property IDs');
+      }
+      properties = args.properties.map((property: unknown) => String(property).trim().toUpperCase());
+      const invalid = properties.find((property) => !/^P\d+$/.test(property));
+      if (invalid) {
+        throw new Error(`Invalid argument "properties": "${invalid}" is not a property ID`);
+      }
+    }
+
+    return { id, language: optionalLanguage(args, 'language'), properties };
+  }
+
+  cacheKey(args: EntityDataArgs): string {
+    return `${args.id}|${args.language}|${[...args.properties].sort().join(',')}`;
+  }
+
+  invoke(args: EntityDataArgs, context: AgentCallContext = {}): Promise<WikidataEntity> {
+    return this.fetchEntity(args.id, args.language, args.properties, context.logger);
+  }
+
+  formatResult(data: WikidataEntity): string {
+    return this.formatEntity(data);
+  }
+
+  sources(data: WikidataEntity): SourceRef[] {
+    return [wikidataEntitySource(data.id, data.label)];
+  }
+
+  /**
+   * Fetch Special:EntityData and resolve the IDs it references to labels
+   */
+  async fetchEntity(
+    id: string,
+    language = 'en',
+    properties: string[] = [],
+    log: Logger = logger
+  ): Promise<WikidataEntity> {
+    log.debug('Fetching Wikidata entity', { entity: id, language });
+
+    let raw: RawEntity;
+    try {
+      const response = await axios.get<{ entities: Record<string, RawEntity> }>(
+        `${this.entityDataUrl}/${encodeURIComponent(id)}.json`,
+        {
+          headers: { 'User-Agent': USER_AGENT },
+          timeout: 10000,
+        }
+      );
+
+      // Redirected IDs come back under the target ID
+      raw = response.data.entities[id] ?? Object.values(response.data.entities)[0];
+      if (!raw) {
+        throw new Error(`Entity ${id} not found`);
+      }
+    } catch (error: any) {
+      const message = error.response?.status === 404 ? `Entity ${id} not found` : error.message;
+      log.warn('Wikidata entity fetch failed', { entity: id, error: message });
+      throw new Error(`Wikidata entity fetch failed: ${message}`);
+    }
+
+    const claims = Object.entries(raw.claims || {}).filter(
+      ([property]) => properties.length === 0 || properties.includes(property)
+    );
+
+    const labels = await this.resolveLabels(this.collectIds(claims), language, log);
+    const label = (id: string) => labels.get(id) ?? id;
+
+    const toValue = (snak: RawSnak): EntityValue => this.formatSnak(snak, label);
+    const toGroups = (snaks: Record<string, RawSnak[]>, order?: string[]): EntitySnakGroup[] =>
+      (order || Object.keys(snaks)).map((property) => ({
+        property,
+        propertyLabel: label(property),
+        values: (snaks[property] || []).map(toValue),
+      }));
+
+    const entity: WikidataEntity = {
+      id: raw.id,
+      type: raw.type,
+      language,
+      label: pickLanguage(raw.labels, language)?.value,
+      description: pickLanguage(raw.descriptions, language)?.value,
+      aliases: (pickLanguage(raw.aliases, language) || []).map((alias) => alias.value),
+      sitelinks: Object.values(raw.sitelinks || {}).map(({ site, title, url }) => ({ site, title, url })),
+      claims: claims.map(([property, statements]) => ({
+        property,
+        propertyLabel: label(property),
+        statements: statements.map((statement) => ({
+          value: toValue(statement.mainsnak),
+          rank: statement.rank,
+          qualifiers: toGroups(statement.qualifiers || {}, statement['qualifiers-order']),
+          references: (statement.references || []).map((reference) =>
+            toGroups(reference.snaks, reference['snaks-order'])
+          ),
+        })),
+      })),
+    };
+
+    log.debug('Wikidata entity fetched', { entity: entity.id, properties: entity.claims.length, labels: labels.size });
+    return entity;
+  }
+
+  /**
+   * Properties and entity values used by claims, qualifiers, references and quantity units
+   */
+  private collectIds(claims: Array<[string, RawStatement[]]>): string[] {
+    const ids = new Set<string>();
+    const addSnak = (snak: RawSnak) => {
+      ids.add(snak.property);
+      const value = snak.datavalue?.value;
+      if (snak.datavalue?.type === 'wikibase-entityid' && value?.id) {
+        ids.add(value.id);
+      }
+      if (snak.datavalue?.type === 'quantity' && typeof value?.unit === 'string' && value.unit !== '1') {
+        ids.add(value.unit.split('/').pop());
+      }
+    };
+
+    for (const [property, statements] of claims) {
+      ids.add(property);
+      for (const statement of statements) {
+        addSnak(statement.mainsnak);
+        Object.values(statement.qualifiers || {}).flat().forEach(addSnak);
+        (statement.references || []).forEach((reference) => Object.values(reference.snaks).flat().forEach(addSnak));
+      }
+    }
+
+    return [...ids];
+  }
+
+  /**
+   * Labels for entity IDs via wbgetentities (with language fallback), in batches of 50
+   */
+  private async resolveLabels(ids: string[], language: string, log: Logger): Promise<Map<string, string>> {
+    const labels = new Map<string, string>();
+    if (ids.length > MAX_RESOLVED_IDS) {
+      log.warn('Too many labels, resolving only the first ones', { resolved: MAX_RESOLVED_IDS, total: ids.length });
+    }
+
+    const batches: string[][] = [];
+    for (let i = 0; i < Math.min(ids.length, MAX_RESOLVED_IDS); i += LABEL_BATCH_SIZE) {
+      batches.push(ids.slice(i, Math.min(i + LABEL_BATCH_SIZE, MAX_RESOLVED_IDS)));
+    }
+
+    // One batch at a time, not to burst the Wikidata API
+    for (const batch of batches) {
+      try {
+        const response = await axios.get<{ entities?: Record<string, { labels?: Record<string, { value: string }> }> }>(
+          this.apiUrl,
+          {
+            params: {
+              action: 'wbgetentities',
+              ids: batch.join('|'),
+              props: 'labels',
+              languages: language,
+              languagefallback: 1,
+              format: 'json',
+            },
+            headers: { 'User-Agent': USER_AGENT },
+            timeout: 10000,
+          }
+        );
+
+        for (const [id, entity] of Object.entries(response.data.entities || {})) {
+          const label = pickLanguage(entity.labels, language)?.value;
+          if (label) labels.set(id, label);
+        }
+      } catch (error: any) {
+        // Unresolved IDs are shown as bare IDs rather than failing the whole call
+        log.warn('Wikidata label lookup failed', { error });
+      }
+    }
+
+    return labels;
+  }
+
+  /**
+   * Render a snak according to its datavalue type
+   */
+  private formatSnak(snak: RawSnak, label: (id: string) => string): EntityValue {
+    if (snak.snaktype === 'somevalue') return { text: 'unknown value' };
+    if (snak.snaktype === 'novalue') return { text: 'no value' };
+
+    const { type, value } = snak.datavalue || { type: 'unknown', value: undefined };
+    switch (type) {
+      case 'wikibase-entityid':
+        return { text: label(value.id), id: value.id };
+      case 'string':
+        return { text: value };
+      case 'monolingualtext':
+        return { text: `${value.text} (${value.language})` };
+      case 'time':
+        return { text: formatTime(value.time, value.precision) };
+      case 'quantity': {
+        const amount = String(value.amount).replace(/^\+/, '');
+        const unit = value.unit && value.unit !== '1' ? label(value.unit.split('/').pop()) : '';
+        return { text: unit ? `${amount} ${unit}` : amount };
+      }
+      case 'globecoordinate':
+        return { text: `lat: ${value.latitude}, lon: ${value.longitude}` };
+      default:
+        return { text: typeof value === 'string' ? value : JSON.stringify(value) };
+    }
+  }
+
+  /**
+   * Format the entity for the model
+   */
+  formatEntity(entity: WikidataEntity): string {
+    let output = `${entity.id} - ${entity.label || '(no label)'}`;
+    if (entity.description) {
+      output += `: ${entity.description}`;
+    }
+    output += '\n';
+
+    if (entity.aliases.length > 0) {
+      output += `Also known as: ${entity.aliases.join(', ')}\n`;
+    }
+
+    if (entity.sitelinks.length > 0) {
+      const shown = entity.sitelinks.slice(0, 10).map((link) => `${link.site}: ${link.title}`);
+      const more = entity.sitelinks.length > 10 ? ` (+${entity.sitelinks.length - 10} more)` : '';
+      output += `Sitelinks (${entity.sitelinks.length}): ${shown.join('; ')}${more}\n`;
+    }
+
+    const groups = (snaks: EntitySnakGroup[]) =>
+      snaks.map((group) => `${group.propertyLabel} (${group.property}): ${group.values.map(valueText).join(', ')}`);
+
+    output += `\nClaims (${entity.claims.length} properties):\n`;
+    for (const claim of entity.claims.slice(0, MAX_FORMATTED_PROPERTIES)) {
+      output += `- ${claim.propertyLabel} (${claim.property}):\n`;
+      for (const statement of claim.statements.slice(0, MAX_VALUES_PER_PROPERTY)) {
+        const rank = statement.rank === 'normal' ? '' : ` [${statement.rank}]`;
+        output += `  • ${valueText(statement.value)}${rank}\n`;
+        groups(statement.qualifiers).forEach((line) => (output += `      ${line}\n`));
+        statement.references
+          .slice(0, MAX_REFERENCES_PER_STATEMENT)
+          .forEach((reference) => (output += `      source: ${groups(reference).join('; ')}\n`));
+        if (statement.references.length > MAX_REFERENCES_PER_STATEMENT) {
+          output += `      (+${statement.references.length - MAX_REFERENCES_PER_STATEMENT} more sources)\n`;
+        }
+      }
+      if (claim.statements.length > MAX_VALUES_PER_PROPERTY) {
+        output += `  (+${claim.statements.length - MAX_VALUES_PER_PROPERTY} more values)\n`;
+      }
+    }
+    if (entity.claims.length > MAX_FORMATTED_PROPERTIES) {
+      const omitted = entity.claims.slice(MAX_FORMATTED_PROPERTIES).map((claim) => claim.property);
+      output += `(+${omitted.length} more properties, request them with "properties": ${omitted.join(', ')})\n`;
+    }
+
+    return output.trim();
+  }
+}
+
+function valueText(value: EntityValue): string {
+  return value.id && value.id !== value.text ? `${value.text} (${value.id})` : value.text;
+}
+
+/**
+ * Value in the requested language, then English, then any language
+ */
+function pickLanguage<T>(values: Record<string, T> | undefined, language: string): T | undefined {
+  if (!values) return undefined;
+  return values[language] ?? values.en ?? Object.values(values)[0];
+}
+
+/**
+ * Wikibase time ("+1952-03-11T00:00:00Z") at its precision (11 = day, 10 = month, 9 = year, lower = coarser)
+ */
+function formatTime(time: string, precision: number): string {
+  const match = /^([+-])(\d+)-(\d{2})-(\d{2})/.exec(time);
+  if (!match) return time;
+
+  const [, sign, year, month, day] = match;
+  const y = `${sign === '-' ? '-' : ''}${year.replace(/^0+(?=\d{4})/, '')}`;
+  if (precision >= 11) return `${y}-${month}-${day}`;
+  if (precision === 10) return `${y}-${month}`;
+  if (precision === 9) return y;
+
+  const unit = { 8: 'decade', 7: 'century', 6: 'millennium' }[precision as 6 | 7 | 8];
+  return unit ? `${y} (${unit})` : y;
+}
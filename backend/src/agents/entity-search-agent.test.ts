@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { EntitySearchAgent, EntitySearchMatch } from './entity-search-agent';
+
+const agent = new EntitySearchAgent('https://www.wikidata.org/w/api.php');
+
+function match(id: string, label?: string, description?: string): EntitySearchMatch {
+  return {
+    id,
+    label,
+    description,
+    concepturi: `http://www.wikidata.org/entity/${id}`,
+    match: { type: 'label', language: 'en', text: label ?? id },
+  };
+}
+
+describe('arguments', () => {
+  test('defaults to items in English, seven matches', () => {
+    assert.deepEqual(agent.validateArgs({ term: ' Paris ' }), {
+      term: 'Paris',
+      language: 'en',
+      type: 'item',
+      limit: 7,
+    });
+  });
+
+  test('accepts properties, a language and a limit given as text', () => {
+    assert.deepEqual(agent.validateArgs({ term: 'population', type: 'property', language: 'IT', limit: '3' }), {
+      term: 'population',
+      language: 'it',
+      type: 'property',
+      limit: 3,
+    });
+  });
+
+  test('refuses an unknown type, an out-of-range limit and an empty term', () => {
+    assert.throws(() => agent.validateArgs({ term: 'Paris', type: 'lexeme' }), /"type": expected "item" or "property"/);
+    assert.throws(() => agent.validateArgs({ term: 'Paris', limit: 0 }), /"limit": expected a number between 1 and 20/);
+    assert.throws(() => agent.validateArgs({ term: '' }), /"term": expected a non-empty string/);
+  });
+});
+
+describe('formatting', () => {
+  test('lists each match with its description and how it matched', () => {
+    const output = agent.formatResult({
+      term: 'Paris',
+      language: 'en',
+      matches: [match('Q90', 'Paris', 'capital of France'), match('Q167646')],
+    });
+
+    assert.equal(
+      output,
+      'Found 2 Wikidata entities for "Paris" (en):\n\n' +
+        '1. Q90 - Paris: capital of France [matched label "Paris"@en]\n' +
+        '   http://www.wikidata.org/entity/Q90\n' +
+        '2. Q167646 - (no label) [matched label "Q167646"@en]\n' +
+        '   http://www.wikidata.org/entity/Q167646'
+    );
+  });
+
+  test('says when nothing matched', () => {
+    assert.equal(
+      agent.formatResult({ term: 'Qwxzv', language: 'it', matches: [] }),
+      'No Wikidata entities found for "Qwxzv" (it).'
+    );
+  });
+});
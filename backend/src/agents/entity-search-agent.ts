@@ -0,0 +1,175 @@
+import axios from 'axios';
+import { FunctionDeclaration, SchemaType } from '@google/generative-ai';
+import { config } from '../config';
+import { SourceRef } from '../types';
+import { wikidataEntitySource } from '../citations';
+import { Logger, logger } from '../logging';
+import { Agent, AgentCallContext, optionalLanguage, requireNumber, requireString } from './agent';
+
+export interface EntitySearchMatch {
+  id: string;
+  label?: string;
+  description?: string;
+  concepturi: string;
+  match: {
+    type: string;
+    language: string;
+    text: string;
+  };
+}
+
+interface EntitySearchResponse {
+  search: EntitySearchMatch[];
+  error?: {
+    code: string;
+    info: string;
+  };
+}
+
+interface EntitySearchArgs {
+  term: string;
+  language: string;
+  type: 'item' | 'property';
+  limit: number;
+}
+
+export interface EntitySearchResult {
+  term: string;
+  language: string;
+  matches: EntitySearchMatch[];
+}
+
+/**
+ * Entity Search Agent
+ * Resolves labels to Wikidata IDs with the wbsearchentities API, so the model
+ * can look up QIDs/PIDs instead of guessing them in SPARQL
+ */
+export class EntitySearchAgent implements Agent<EntitySearchArgs, EntitySearchResult> {
+  readonly name = 'search_entities';
+  readonly cacheNamespace = 'wikidata_search';
+
+  readonly declaration: FunctionDeclaration = {
+    name: 'search_entities',
+    description:
+      'Search Wikidata entities by label or alias and get their IDs (Q### items or P### properties). ' +
+      'Use this BEFORE writing SPARQL whenever you need the ID of a named entity, instead of guessing wd:Q### codes. ' +
+      'Returns id, label, description and how the term matched; use the description to pick the right entity.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        term: {
+          type: SchemaType.STRING,
+          description: 'Label or alias to search for (e.g., "Paris", "Albert Einstein", "population")',
+        },
+        language: {
+          type: SchemaType.STRING,
+          description: 'Language code of the term and returned labels (default: "en", e.g. "it")',
+        },
+        type: {
+          type: SchemaType.STRING,
+          description: 'Entity type: "item" (default) or "property"',
+        },
+        limit: {
+          type: SchemaType.INTEGER,
+          description: 'Maximum number of matches (1-20, default: 7)',
+        },
+      },
+      required: ['term'],
+    },
+  };
+
+  constructor(private readonly apiUrl: string = config.wikidata.apiUrl) {}
+
+  validateArgs(args: Record<string, any>): EntitySearchArgs {
+    const type = args.type === undefined ? 'item' : requireString(args, 'type');
+    if (type !== 'item' && type !== 'property') {
+      throw new Error('Invalid argument "type": expected "item" or "property"');
+    }
+
+    return {
+      term: requireString(args, 'term').trim(),
+      language: optionalLanguage(args, 'language'),
+      type,
+      limit: args.limit === undefined ? 7 : Math.round(requireNumber(args, 'limit', 1, 20)),
+    };
+  }
+
+  cacheKey(args: EntitySearchArgs): string {
+    return `${args.language}|${args.type}|${args.limit}|${args.term.toLowerCase()}`;
+  }
+
+  invoke(args: EntitySearchArgs, context: AgentCallContext = {}): Promise<EntitySearchResult> {
+    return this.search(args.term, args.language, args.type, args.limit, context.logger);
+  }
+
+  formatResult(data: EntitySearchResult): string {
+    return this.formatMatches(data);
+  }
+
+  sources(data: EntitySearchResult): SourceRef[] {
+    return data.matches.map((match) => wikidataEntitySource(match.id, match.label));
+  }
+
+  /**
+   * Call wbsearchentities
+   */
+  async search(
+    term: string,
+    language = 'en',
+    type: 'item' | 'property' = 'item',
+    limit = 7,
+    log: Logger = logger
+  ): Promise<EntitySearchResult> {
+    log.debug('Searching Wikidata entities', { term, language, type });
+
+    try {
+      const response = await axios.get<EntitySearchResponse>(this.apiUrl, {
+        params: {
+          action: 'wbsearchentities',
+          search: term,
+          language,
+          uselang: language,
+          type,
+          limit,
+          format: 'json',
+        },
+        headers: {
+          'User-Agent': 'WikidAI-PoC/0.1 (Educational Project)',
+        },
+        timeout: 8000,
+      });
+
+      if (response.data.error) {
+        throw new Error(response.data.error.info);
+      }
+
+      log.debug('Wikidata entities found', { matches: response.data.search.length });
+      return { term, language, matches: response.data.search };
+    } catch (error: any) {
+      log.warn('Wikidata entity search failed', { error });
+      throw new Error(`Wikidata entity search failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Format matches for the model
+   */
+  formatMatches(data: EntitySearchResult): string {
+    if (data.matches.length === 0) {
+      return `No Wikidata entities found for "${data.term}" (${data.language}).`;
+    }
+
+    let output = `Found ${data.matches.length} Wikidata entities for "${data.term}" (${data.language}):\n\n`;
+
+    data.matches.forEach((match, idx) => {
+      output += `${idx + 1}. ${match.id} - ${match.label || '(no label)'}`;
+      if (match.description) {
+        output += `: ${match.description}`;
+      }
+      output += ` [matched ${match.match.type} "${match.match.text}"@${match.match.language}]`;
+      output += `\n   ${match.concepturi}\n`;
+    });
+
+    return output.trim();
+  }
+}
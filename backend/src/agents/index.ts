@@ -0,0 +1,76 @@
+/**
+ * Agents
+ *
+ * Built-in agents plus loading of external agent modules.
+ */
+
+import path from 'path';
+import { config } from '../config';
+import { logger } from '../logging';
+import { Agent } from './agent';
+import { AgentRegistry } from './registry';
+import { WikidataAgent } from './wikidata-agent';
+import { EntitySearchAgent } from './entity-search-agent';
+import { EntityDataAgent } from './entity-data-agent';
+import { WikipediaAgent } from './wikipedia-agent';
+import { WikipediaSearchAgent } from './wikipedia-search-agent';
+import { WikipediaSectionAgent } from './wikipedia-section-agent';
+import { NominatimAgent } from './nominatim-agent';
+import { OpenMeteoAgent } from './openmeteo-agent';
+import { DuckDuckGoAgent } from './duckduckgo-agent';
+
+export type { Agent, AgentCallContext, AgentClarification } from './agent';
+export { requireString, requireNumber, optionalBoolean, optionalLanguage } from './agent';
+export { AgentRegistry };
+
+/**
+ * Load agents from an external module.
+ * The module's default export (or `agents` export) may be an Agent, an array of
+ * Agents, or a factory function returning either.
+ */
+export function loadAgentModule(modulePath: string): Agent<any, any>[] {
+  const resolved = modulePath.startsWith('.') ? path.resolve(process.cwd(), modulePath) : modulePath;
+  const mod = require(resolved);
+  let exported = mod.default ?? mod.agents ?? mod;
+
+  if (typeof exported === 'function') {
+    exported = exported();
+  }
+
+  const agents = Array.isArray(exported) ? exported : [exported];
+  for (const agent of agents) {
+    if (!agent || typeof agent.name !== 'string' || typeof agent.invoke !== 'function') {
+      throw new Error(`Agent module "${modulePath}" does not export valid agents`);
+    }
+  }
+
+  return agents;
+}
+
+/**
+ * Create the registry with built-in agents, external modules (AGENT_MODULES)
+ * and the ENABLED_AGENTS / DISABLED_AGENTS filters applied
+ */
+export function createAgentRegistry(): AgentRegistry {
+  const registry = new AgentRegistry()
+    .register(new EntitySearchAgent())
+    .register(new WikidataAgent())
+    .register(new EntityDataAgent())
+    .register(new WikipediaAgent())
+    .register(new WikipediaSearchAgent())
+    .register(new WikipediaSectionAgent())
+    .register(new NominatimAgent())
+    .register(new OpenMeteoAgent())
+    .register(new DuckDuckGoAgent());
+
+  for (const modulePath of config.agents.modules) {
+    loadAgentModule(modulePath).forEach((agent) => {
+      registry.register(agent);
+      logger.info('Loaded agent module', { agent: agent.name, module: modulePath });
+    });
+  }
+
+  registry.enableOnly(config.agents.enabled).disable(config.agents.disabled);
+
+  return registry;
+}
@@ -3,37 +3,146 @@
  * Converts addresses/place names to geographic coordinates using OpenStreetMap Nominatim
  */
 
+import { FunctionDeclaration, SchemaType } from '@google/generative-ai';
+import { config } from '../config';
+import { createRateLimitedQueue } from '../rate-limit';
+import { normalizePlaceQuery } from '../cache';
+import { OSM_ATTRIBUTION } from '../citations';
+import { SourceRef } from '../types';
+import { Logger, logger } from '../logging';
+import { Agent, AgentCallContext, AgentClarification, requireString } from './agent';
+
+/**
+ * Process-wide queue shared by every NominatimAgent instance, so parallel
+ * function calls never exceed the OSM usage policy (1 request/second)
+ */
+const nominatimQueue = createRateLimitedQueue(
+  'Nominatim',
+  config.nominatim.rateLimitMax,
+  config.nominatim.rateLimitDurationMs
+);
+
 interface NominatimResult {
   lat: string;
   lon: string;
   display_name: string;
   place_id: number;
+  osm_type?: string;
+  osm_id?: number;
 }
 
-export class NominatimAgent {
+interface GeocodeArgs {
+  query: string;
+}
+
+export class NominatimAgent implements Agent<GeocodeArgs, NominatimResult[]> {
   private readonly baseUrl = 'https://nominatim.openstreetmap.org';
   private readonly userAgent = 'WikidAI/1.0 (Educational PoC)';
 
+  readonly name = 'geocode_location';
+  readonly cacheNamespace = 'nominatim';
+
+  readonly declaration: FunctionDeclaration = {
+    name: 'geocode_location',
+    description:
+      'Convert a location name or address into geographic coordinates (latitude, longitude). ' +
+      'Use this when you need coordinates for a place, city, address, or landmark. ' +
+      'Uses OpenStreetMap Nominatim geocoding service.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        query: {
+          type: SchemaType.STRING,
+          description:
+            'Location name, address, or place to geocode (e.g., "Rome, Italy", "Eiffel Tower", "10 Downing Street")',
+        },
+      },
+      required: ['query'],
+    },
+  };
+
+  validateArgs(args: Record<string, any>): GeocodeArgs {
+    return { query: requireString(args, 'query') };
+  }
+
+  cacheKey(args: GeocodeArgs): string {
+    return normalizePlaceQuery(args.query);
+  }
+
+  invoke(args: GeocodeArgs, context: AgentCallContext): Promise<NominatimResult[]> {
+    return this.geocode(args.query, context.onQueued, context.logger);
+  }
+
+  formatResult(data: NominatimResult[]): string {
+    return this.formatResults(data);
+  }
+
+  /**
+   * OpenStreetMap object of each match (attribution required by the ODbL)
+   */
+  sources(data: NominatimResult[]): SourceRef[] {
+    return data.map((r) => ({
+      type: 'openstreetmap',
+      title: `${r.display_name} - OpenStreetMap`,
+      url:
+        r.osm_type && r.osm_id
+          ? `https://www.openstreetmap.org/${r.osm_type}/${r.osm_id}`
+          : `https://www.openstreetmap.org/?mlat=${r.lat}&mlon=${r.lon}`,
+      attribution: OSM_ATTRIBUTION,
+    }));
+  }
+
+  /**
+   * Several matches: the user must pick one (never auto-select the first result)
+   */
+  clarify(args: GeocodeArgs, data: NominatimResult[]): AgentClarification | null {
+    if (data.length <= 1) {
+      return null;
+    }
+
+    return {
+      question: `I found multiple locations for "${args.query}". Which one did you mean?`,
+      options: data.map((r) => ({
+        id: String(r.place_id),
+        label: r.display_name,
+        latitude: parseFloat(r.lat),
+        longitude: parseFloat(r.lon),
+        result:
+          `Location: ${r.display_name}\nCoordinates: lat: ${r.lat}, lon: ${r.lon}\n` +
+          `(Chosen by the user among ${data.length} matches for "${args.query}")`,
+        sources: this.sources([r]),
+      })),
+    };
+  }
+
   /**
    * Search for location and get coordinates
+   * @param onQueued - Optional callback receiving the time (ms) spent waiting in the rate-limit queue
    */
-  async geocode(query: string): Promise<NominatimResult[]> {
+  async geocode(
+    query: string,
+    onQueued?: (queuedMs: number) => void,
+    log: Logger = logger
+  ): Promise<NominatimResult[]> {
     const url = `${this.baseUrl}/search?q=${encodeURIComponent(query)}&format=json&limit=5`;
 
-    console.log(`🌍 Nominatim geocoding: "${query}"`);
+    log.debug('Nominatim geocoding', { query, queue: nominatimQueue.size });
 
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': this.userAgent,
-      },
-    });
+    const { value: response, queuedMs } = await nominatimQueue.schedule(() =>
+      fetch(url, {
+        headers: {
+          'User-Agent': this.userAgent,
+        },
+      })
+    );
+    onQueued?.(queuedMs);
 
     if (!response.ok) {
       throw new Error(`Nominatim API error: ${response.statusText}`);
     }
 
     const results = await response.json() as NominatimResult[];
-    console.log(`✅ Found ${results.length} location(s)`);
+    log.debug('Nominatim locations found', { matches: results.length });
 
     return results;
   }
@@ -3,6 +3,19 @@
  * Retrieves weather forecasts using coordinates
  */
 
+import { FunctionDeclaration, SchemaType } from '@google/generative-ai';
+import { roundCoordinate } from '../cache';
+import { OPEN_METEO_ATTRIBUTION } from '../citations';
+import { SourceRef } from '../types';
+import { Logger, logger } from '../logging';
+import { Agent, AgentCallContext, optionalBoolean, requireNumber } from './agent';
+
+interface WeatherArgs {
+  latitude: number;
+  longitude: number;
+  include_forecast: boolean;
+}
+
 interface WeatherData {
   latitude: number;
   longitude: number;
@@ -20,20 +33,85 @@ interface WeatherData {
   };
 }
 
-export class OpenMeteoAgent {
+export class OpenMeteoAgent implements Agent<WeatherArgs, WeatherData> {
   private readonly baseUrl = 'https://api.open-meteo.com/v1';
 
+  readonly name = 'get_weather';
+  readonly cacheNamespace = 'openmeteo';
+
+  readonly declaration: FunctionDeclaration = {
+    name: 'get_weather',
+    description:
+      'Get current weather and forecast for geographic coordinates. ' +
+      'Use this after geocoding a location to provide weather information. ' +
+      'Uses Open-Meteo weather API.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        latitude: {
+          type: SchemaType.NUMBER,
+          description: 'Latitude coordinate (-90 to 90)',
+        },
+        longitude: {
+          type: SchemaType.NUMBER,
+          description: 'Longitude coordinate (-180 to 180)',
+        },
+        include_forecast: {
+          type: SchemaType.BOOLEAN,
+          description: 'Include 3-day forecast (default: false)',
+        },
+      },
+      required: ['latitude', 'longitude'],
+    },
+  };
+
+  validateArgs(args: Record<string, any>): WeatherArgs {
+    return {
+      latitude: requireNumber(args, 'latitude', -90, 90),
+      longitude: requireNumber(args, 'longitude', -180, 180),
+      include_forecast: optionalBoolean(args, 'include_forecast'),
+    };
+  }
+
+  cacheKey(args: WeatherArgs): string {
+    return `${roundCoordinate(args.latitude)},${roundCoordinate(args.longitude)},${args.include_forecast}`;
+  }
+
+  invoke(args: WeatherArgs, context: AgentCallContext = {}): Promise<WeatherData> {
+    return this.getWeather(args.latitude, args.longitude, args.include_forecast, context.logger);
+  }
+
+  formatResult(data: WeatherData): string {
+    return this.formatWeather(data);
+  }
+
+  sources(data: WeatherData): SourceRef[] {
+    return [
+      {
+        type: 'open_meteo',
+        title: `Open-Meteo forecast (lat: ${data.latitude}, lon: ${data.longitude})`,
+        url: `https://open-meteo.com/en/docs#latitude=${data.latitude}&longitude=${data.longitude}`,
+        attribution: OPEN_METEO_ATTRIBUTION,
+      },
+    ];
+  }
+
   /**
    * Get current weather for coordinates
    */
-  async getWeather(latitude: number, longitude: number, includeForecast = false): Promise<WeatherData> {
+  async getWeather(
+    latitude: number,
+    longitude: number,
+    includeForecast = false,
+    log: Logger = logger
+  ): Promise<WeatherData> {
     let url = `${this.baseUrl}/forecast?latitude=${latitude}&longitude=${longitude}&current_weather=true`;
 
     if (includeForecast) {
       url += '&daily=temperature_2m_max,temperature_2m_min,precipitation_sum&timezone=auto';
     }
 
-    console.log(`☁️ OpenMeteo weather: lat=${latitude}, lon=${longitude}`);
+    log.debug('Open-Meteo weather', { latitude, longitude, includeForecast });
 
     const response = await fetch(url);
 
@@ -42,7 +120,7 @@ export class OpenMeteoAgent {
     }
 
     const data = await response.json() as WeatherData;
-    console.log(`✅ Weather data retrieved`);
+    log.debug('Open-Meteo weather retrieved');
 
     return data;
   }
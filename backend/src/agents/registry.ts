@@ -0,0 +1,82 @@
+/**
+ * Agent Registry
+ *
+ * Holds the agents available to the orchestrator. Agents can be registered by
+ * built-in code or loaded from external modules, and enabled/disabled by name.
+ */
+
+import { FunctionDeclaration } from '@google/generative-ai';
+import { Agent } from './agent';
+
+export class AgentRegistry {
+  private agents = new Map<string, Agent<any, any>>();
+
+  /**
+   * Register an agent (replaces any agent with the same name)
+   */
+  register(agent: Agent<any, any>): this {
+    if (agent.name !== agent.declaration.name) {
+      throw new Error(`Agent name "${agent.name}" does not match its declaration "${agent.declaration.name}"`);
+    }
+    this.agents.set(agent.name, agent);
+    return this;
+  }
+
+  /**
+   * Remove an agent by name
+   */
+  unregister(name: string): boolean {
+    return this.agents.delete(name);
+  }
+
+  /**
+   * Get an agent by function name
+   */
+  get(name: string): Agent<any, any> | undefined {
+    return this.agents.get(name);
+  }
+
+  /**
+   * Check whether an agent is registered
+   */
+  has(name: string): boolean {
+    return this.agents.has(name);
+  }
+
+  /**
+   * List registered agents in registration order
+   */
+  list(): Agent<any, any>[] {
+    return Array.from(this.agents.values());
+  }
+
+  /**
+   * Function declarations for every registered agent
+   */
+  getFunctionDeclarations(): FunctionDeclaration[] {
+    return this.list().map((agent) => agent.declaration);
+  }
+
+  /**
+   * Keep only the named agents (an empty list keeps all)
+   */
+  enableOnly(names: string[]): this {
+    if (names.length === 0) {
+      return this;
+    }
+    for (const name of Array.from(this.agents.keys())) {
+      if (!names.includes(name)) {
+        this.agents.delete(name);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Remove the named agents
+   */
+  disable(names: string[]): this {
+    names.forEach((name) => this.agents.delete(name));
+    return this;
+  }
+}
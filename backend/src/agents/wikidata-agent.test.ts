@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { SparqlGate } from '../sparql';
+import { WikidataQueryResult } from '../types';
+import { WikidataAgent } from './wikidata-agent';
+
+const agent = new WikidataAgent();
+
+/**
+ * A result of `rows` rows for a query executed with `limit`
+ */
+function result(rows: number, limit?: number): WikidataQueryResult {
+  return {
+    head: { vars: ['item'] },
+    results: {
+      bindings: Array.from({ length: rows }, (_, i) => ({
+        item: { type: 'uri', value: `http://www.wikidata.org/entity/Q${i + 1}` },
+      })),
+    },
+    limit,
+  };
+}
+
+test('marks a result that filled the LIMIT as truncated', () => {
+  const table = agent.toTable(result(100, 100));
+
+  assert.equal(table.rowCount, 100);
+  assert.equal(table.truncated, true);
+  assert.match(agent.formatResult(result(100, 100)), /^Found 100 result\(s\) \(the query's LIMIT 100 was reached/);
+});
+
+test('does not mark a result below the LIMIT as truncated', () => {
+  assert.equal(agent.toTable(result(3, 100)).truncated, false);
+  assert.match(agent.formatResult(result(3, 100)), /^Found 3 result\(s\):/);
+});
+
+test('the gate reports the LIMIT the query runs with', () => {
+  const gate = new SparqlGate({ allowedServices: [], defaultLimit: 100, maxLimit: 1000 });
+
+  assert.deepEqual(
+    [
+      'SELECT ?item WHERE { ?item wdt:P31 wd:Q5 }',
+      'SELECT ?item WHERE { ?item wdt:P31 wd:Q5 } LIMIT 5000',
+      'SELECT ?item WHERE { ?item wdt:P31 wd:Q5 } LIMIT 20',
+    ].map((query) => {
+      const check = gate.check(query);
+      return check.valid ? check.limit : check.error;
+    }),
+    [100, 1000, 20]
+  );
+});
@@ -1,63 +1,138 @@
 import axios from 'axios';
-import { Parser } from 'sparqljs';
-import { WikidataQueryResult } from '../types';
+import { FunctionDeclaration, SchemaType } from '@google/generative-ai';
+import { ResultCell, ResultTable, SourceRef, WikidataQueryResult } from '../types';
+import { normalizeSparql } from '../cache';
+import { SparqlGate, createSparqlGate } from '../sparql';
+import { wikidataEntitySource } from '../citations';
+import { logger } from '../logging';
+import { Agent, AgentCallContext, requireString } from './agent';
 
 const WIKIDATA_ENDPOINT = 'https://query.wikidata.org/sparql';
-const parser = new Parser();
+const ENTITY_URI = /^http:\/\/www\.wikidata\.org\/entity\/([QP]\d+)$/;
+/** Entity sources taken from one result set */
+const MAX_ENTITY_SOURCES = 20;
+
+interface WikidataArgs {
+  sparql_query: string;
+}
 
 /**
- * SPARQL Query Validator - "The SPARQL Gauntlet"
+ * Wikidata Agent
+ * Executes validated SPARQL queries against Wikidata
  */
-class SPARQLValidator {
-  private static DANGEROUS_KEYWORDS = ['DELETE', 'INSERT', 'DROP', 'CREATE', 'CLEAR', 'LOAD'];
+export class WikidataAgent implements Agent<WikidataArgs, WikidataQueryResult> {
+  readonly name = 'query_wikidata';
+  readonly cacheNamespace = 'wikidata';
+
+  readonly declaration: FunctionDeclaration = {
+    name: 'query_wikidata',
+    description:
+      'Execute a SPARQL query on Wikidata to retrieve structured knowledge graph data. ' +
+      'Use this for factual queries about entities, relationships, and properties. ' +
+      'IMPORTANT: When searching by entity name (rdfs:label), ALWAYS add type constraints (wdt:P31) to disambiguate. ' +
+      'Example: For "Paris", add ?city wdt:P31 wd:Q515 to ensure you get the city, not the person. ' +
+      'Verify entity IDs are correct for the context before using hardcoded wd:Q### codes.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        sparql_query: {
+          type: SchemaType.STRING,
+          description:
+            'A complete SPARQL query string. Must be syntactically valid SPARQL 1.1. ' +
+            'Use prefixes like wd: for entities and wdt: for properties. ' +
+            'Always include SERVICE wikibase:label for human-readable labels. ' +
+            'CRITICAL: When using entity IDs (wd:Q###), ensure they match the intended entity. ' +
+            'When searching by label, add wdt:P31 (instance of) filters to avoid ambiguity.',
+        },
+      },
+      required: ['sparql_query'],
+    },
+  };
 
-  static validate(queryString: string): { valid: boolean; error?: string } {
-    try {
-      // Step 1: Syntax validation with sparqljs
-      parser.parse(queryString);
-
-      // Step 2: Security sanitization - check for dangerous keywords
-      const upperQuery = queryString.toUpperCase();
-      for (const keyword of this.DANGEROUS_KEYWORDS) {
-        if (upperQuery.includes(keyword)) {
-          return {
-            valid: false,
-            error: `Dangerous SPARQL keyword detected: ${keyword}. Only read-only queries are allowed.`,
-          };
-        }
-      }
+  constructor(private readonly gate: SparqlGate = createSparqlGate()) {}
 
-      return { valid: true };
-    } catch (error: any) {
-      return {
-        valid: false,
-        error: `SPARQL syntax error: ${error.message}`,
-      };
+  validateArgs(args: Record<string, any>): WikidataArgs {
+    return { sparql_query: requireString(args, 'sparql_query') };
+  }
+
+  cacheKey(args: WikidataArgs): string {
+    return normalizeSparql(args.sparql_query);
+  }
+
+  invoke(args: WikidataArgs, context: AgentCallContext = {}): Promise<WikidataQueryResult> {
+    return this.execute(args.sparql_query, context);
+  }
+
+  formatResult(data: WikidataQueryResult): string {
+    return this.formatResults(data);
+  }
+
+  toTable(data: WikidataQueryResult): ResultTable {
+    const columns = data.head.vars;
+    const rows = data.results.bindings.map((binding) =>
+      columns.map((column): ResultCell | null => {
+        const term = binding[column];
+        if (!term) return null;
+
+        return {
+          type: term.type as ResultCell['type'],
+          value: term.value,
+          ...(term.datatype && { datatype: term.datatype }),
+          ...(term['xml:lang'] && { lang: term['xml:lang'] }),
+        };
+      })
+    );
+
+    return { columns, rows, rowCount: rows.length, truncated: isTruncated(data) };
+  }
+
+  /**
+   * The query (openable on query.wikidata.org) and the entities in its results
+   */
+  sources(data: WikidataQueryResult): SourceRef[] {
+    const refs: SourceRef[] = [];
+    if (data.sparql) {
+      refs.push({
+        type: 'wikidata_query',
+        title: 'SPARQL query - Wikidata Query Service',
+        url: `https://query.wikidata.org/#${encodeURIComponent(data.sparql)}`,
+        attribution: 'Wikidata, CC0',
+      });
+    }
+
+    const seen = new Set<string>();
+    for (const binding of data.results.bindings) {
+      for (const [name, term] of Object.entries(binding)) {
+        const id = term.type === 'uri' ? ENTITY_URI.exec(term.value)?.[1] : undefined;
+        if (!id || seen.has(id) || seen.size >= MAX_ENTITY_SOURCES) continue;
+
+        seen.add(id);
+        refs.push(wikidataEntitySource(id, binding[`${name}Label`]?.value));
+      }
     }
+
+    return refs;
   }
-}
 
-/**
- * Wikidata Agent
- * Executes validated SPARQL queries against Wikidata
- */
-export class WikidataAgent {
-  async execute(sparqlQuery: string): Promise<WikidataQueryResult> {
-    console.log('🔍 [Wikidata] Executing SPARQL query...');
-    console.log('Query:', sparqlQuery.substring(0, 200) + (sparqlQuery.length > 200 ? '...' : ''));
+  async execute(sparqlQuery: string, context: AgentCallContext = {}): Promise<WikidataQueryResult> {
+    const log = context.logger ?? logger;
+    log.debug('Executing SPARQL query', { sparql: sparqlQuery });
 
-    // Validation
-    const validation = SPARQLValidator.validate(sparqlQuery);
+    // Validation and rewriting
+    const validation = this.gate.check(sparqlQuery);
     if (!validation.valid) {
+      log.warn('SPARQL query rejected', { reason: validation.reason, error: validation.error });
+      context.onRejected?.(validation.reason);
       throw new Error(`SPARQL validation failed: ${validation.error}`);
     }
 
-    console.log('✅ [Wikidata] Query validated successfully');
+    const { rewrites } = validation;
+    rewrites.forEach((rewrite) => log.info('SPARQL query rewritten', { rewrite: rewrite.message }));
 
     try {
       const response = await axios.get<WikidataQueryResult>(WIKIDATA_ENDPOINT, {
         params: {
-          query: sparqlQuery,
+          query: validation.query,
           format: 'json',
         },
         headers: {
@@ -66,10 +141,11 @@ export class WikidataAgent {
         timeout: 10000,
       });
 
-      console.log(`✅ [Wikidata] Query executed. Results: ${response.data.results.bindings.length} rows`);
-      return response.data;
+      log.debug('SPARQL query executed', { rows: response.data.results.bindings.length });
+      const result: WikidataQueryResult = { ...response.data, sparql: validation.query, limit: validation.limit };
+      return rewrites.length > 0 ? { ...result, rewrites } : result;
     } catch (error: any) {
-      console.error('❌ [Wikidata] Query execution failed:', error.message);
+      log.warn('SPARQL query failed', { error });
       throw new Error(`Wikidata query failed: ${error.message}`);
     }
   }
@@ -78,14 +154,17 @@ export class WikidataAgent {
    * Format Wikidata results for human-readable output
    */
   formatResults(results: WikidataQueryResult): string {
+    const notes = (results.rewrites || []).map((rewrite) => `Note: ${rewrite.message}`).join('\n');
+
     if (!results.results.bindings.length) {
-      return 'No results found.';
+      return notes ? `No results found.\n${notes}` : 'No results found.';
     }
 
     const bindings = results.results.bindings;
     const vars = results.head.vars;
 
-    let output = `Found ${bindings.length} result(s):\n\n`;
+    const truncation = isTruncated(results) ? ` (the query's LIMIT ${results.limit} was reached, there may be more)` : '';
+    let output = `Found ${bindings.length} result(s)${truncation}:\n\n`;
 
     bindings.slice(0, 10).forEach((binding, idx) => {
       output += `${idx + 1}. `;
@@ -102,6 +181,17 @@ export class WikidataAgent {
       output += `\n... and ${bindings.length - 10} more results`;
     }
 
+    if (notes) {
+      output += `\n\n${notes}`;
+    }
+
     return output.trim();
   }
 }
+
+/**
+ * The result filled the query's LIMIT, so it may be cut short
+ */
+function isTruncated(data: WikidataQueryResult): boolean {
+  return data.limit !== undefined && data.results.bindings.length >= data.limit;
+}
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, test } from 'node:test';
+import { ejectCassette, useCassette } from '../cassettes';
+import { WikipediaAgent } from './wikipedia-agent';
+
+/** Responses in fixtures/cassettes/wikipedia-summary.json: "Ada Lovelace" is missing from it.wikipedia.org */
+const agent = new WikipediaAgent({
+  apiUrl: 'https://{lang}.wikipedia.org/api/rest_v1',
+  defaultLanguage: 'it',
+  fallbackLanguages: ['en', 'de'],
+});
+
+beforeEach(() => useCassette('wikipedia-summary', 'replay'));
+afterEach(() => ejectCassette());
+
+test('reads the summary from the requested edition', async () => {
+  const summary = await agent.execute('Roma', 'it');
+
+  assert.equal(summary.edition, 'it');
+  assert.equal(summary.requestedLanguage, undefined);
+  assert.match(agent.formatResult(summary), /^\*\*Roma\*\* \(it\.wikipedia\.org\)\n\nRoma è la capitale d'Italia/);
+});
+
+test('falls back to the next edition and says so', async () => {
+  const summary = await agent.execute('Ada Lovelace', 'it');
+
+  assert.equal(summary.edition, 'en');
+  assert.equal(summary.requestedLanguage, 'it');
+  assert.match(
+    agent.formatResult(summary),
+    /Note: no "it" Wikipedia article found; this summary is from the "en" edition\./
+  );
+  assert.match(agent.formatResult(summary), /Read more: https:\/\/en\.wikipedia\.org\/wiki\/Ada_Lovelace$/);
+});
+
+test('names every edition tried when the article exists in none', async () => {
+  await assert.rejects(
+    agent.execute('Nonexistent article', 'it'),
+    /Wikipedia article not found for: "Nonexistent article" \(tried: it, en, de\)/
+  );
+});
+
+test('asks the conversation language first, then the configured default', () => {
+  assert.equal(agent.validateArgs({ term: 'Roma' }, { language: 'fr' }).language, 'fr');
+  assert.equal(agent.validateArgs({ term: 'Roma' }).language, 'it');
+  assert.equal(agent.validateArgs({ term: 'Roma', language: 'EN' }, { language: 'fr' }).language, 'en');
+  assert.throws(() => agent.validateArgs({ term: 'Roma', language: 'english' }), /is not a language code/);
+});
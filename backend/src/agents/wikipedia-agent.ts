@@ -1,22 +1,118 @@
 import axios from 'axios';
-import { WikipediaSummary } from '../types';
+import { FunctionDeclaration, SchemaType } from '@google/generative-ai';
+import { SourceRef, WikipediaSummary } from '../types';
+import { config } from '../config';
+import { Logger, logger } from '../logging';
+import { normalizeWikipediaTitle } from '../cache';
+import { wikipediaSource } from '../citations';
+import { Agent, AgentCallContext, optionalLanguage, requireString } from './agent';
 
-const WIKIPEDIA_API = 'https://en.wikipedia.org/api/rest_v1';
+interface WikipediaArgs {
+  term: string;
+  language: string;
+}
+
+export interface WikipediaAgentOptions {
+  /** REST API base URL with a {lang} placeholder */
+  apiUrl: string;
+  defaultLanguage: string;
+  /** Editions tried in order when the article is missing */
+  fallbackLanguages: string[];
+}
 
 /**
  * Wikipedia Agent
- * Retrieves article summaries from Wikipedia
+ * Retrieves article summaries from any Wikipedia language edition,
+ * falling back across a language chain when the article is missing
  */
-export class WikipediaAgent {
-  async execute(term: string): Promise<WikipediaSummary> {
-    console.log(`📚 [Wikipedia] Fetching summary for: "${term}"`);
+export class WikipediaAgent implements Agent<WikipediaArgs, WikipediaSummary> {
+  readonly name = 'get_wikipedia_summary';
+  readonly cacheNamespace = 'wikipedia';
+
+  readonly declaration: FunctionDeclaration = {
+    name: 'get_wikipedia_summary',
+    description:
+      'Retrieve a concise summary of a Wikipedia article. ' +
+      'Use this for encyclopedic information about people, places, concepts, events. ' +
+      'Defaults to the conversation language; when the article does not exist in that edition, ' +
+      'other editions are tried and the result says which one was used.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        term: {
+          type: SchemaType.STRING,
+          description:
+            'The Wikipedia article title or search term (e.g., "Albert_Einstein", "Solar_energy"), ' +
+            'in the language of the requested edition',
+        },
+        language: {
+          type: SchemaType.STRING,
+          description: 'Wikipedia language edition (e.g., "it", "en", "de"); defaults to the conversation language',
+        },
+      },
+      required: ['term'],
+    },
+  };
+
+  constructor(private readonly options: WikipediaAgentOptions = config.wikipedia) {}
+
+  validateArgs(args: Record<string, any>, context: AgentCallContext = {}): WikipediaArgs {
+    return {
+      term: requireString(args, 'term'),
+      language: optionalLanguage(args, 'language', context.language || this.options.defaultLanguage),
+    };
+  }
+
+  cacheKey(args: WikipediaArgs): string {
+    return `${args.language}|${normalizeWikipediaTitle(args.term)}`;
+  }
+
+  invoke(args: WikipediaArgs, context: AgentCallContext = {}): Promise<WikipediaSummary> {
+    return this.execute(args.term, args.language, context.logger);
+  }
+
+  formatResult(data: WikipediaSummary): string {
+    return this.formatSummary(data);
+  }
+
+  sources(data: WikipediaSummary): SourceRef[] {
+    const language = data.edition || this.options.defaultLanguage;
+    return [wikipediaSource(language, data.title, data.content_urls?.desktop?.page)];
+  }
+
+  /**
+   * Fetch the summary from the requested edition, then from each fallback edition
+   */
+  async execute(
+    term: string,
+    language: string = this.options.defaultLanguage,
+    log: Logger = logger
+  ): Promise<WikipediaSummary> {
+    const editions = [language, ...this.options.fallbackLanguages.filter((lang) => lang !== language)];
+
+    for (const edition of editions) {
+      const summary = await this.fetchSummary(term, edition, log);
+      if (summary) {
+        return edition === language ? { ...summary, edition } : { ...summary, edition, requestedLanguage: language };
+      }
+    }
+
+    throw new Error(`Wikipedia article not found for: "${term}" (tried: ${editions.join(', ')})`);
+  }
+
+  /**
+   * Summary from one edition, or null when the article does not exist there
+   */
+  private async fetchSummary(term: string, language: string, log: Logger): Promise<WikipediaSummary | null> {
+    log.debug('Fetching Wikipedia summary', { term, language });
 
     try {
       // Normalize term for URL (spaces to underscores)
       const normalizedTerm = term.trim().replace(/\s+/g, '_');
+      const apiUrl = this.options.apiUrl.replace('{lang}', language);
 
       const response = await axios.get<WikipediaSummary>(
-        `${WIKIPEDIA_API}/page/summary/${encodeURIComponent(normalizedTerm)}`,
+        `${apiUrl}/page/summary/${encodeURIComponent(normalizedTerm)}`,
         {
           headers: {
             'User-Agent': 'WikidAI-PoC/0.1 (Educational Project)',
@@ -25,15 +121,15 @@ export class WikipediaAgent {
         }
       );
 
-      console.log(`✅ [Wikipedia] Summary retrieved: "${response.data.title}"`);
+      log.debug('Wikipedia summary retrieved', { title: response.data.title, language });
       return response.data;
     } catch (error: any) {
       if (error.response?.status === 404) {
-        console.warn(`⚠️  [Wikipedia] Article not found: "${term}"`);
-        throw new Error(`Wikipedia article not found for: "${term}"`);
+        log.debug('Wikipedia article not found', { term, language });
+        return null;
       }
 
-      console.error('❌ [Wikipedia] Request failed:', error.message);
+      log.warn('Wikipedia request failed', { error });
       throw new Error(`Wikipedia request failed: ${error.message}`);
     }
   }
@@ -42,7 +138,11 @@ export class WikipediaAgent {
    * Format Wikipedia summary for output
    */
   formatSummary(summary: WikipediaSummary): string {
-    let output = `**${summary.title}**\n\n`;
+    const edition = summary.edition ? ` (${summary.edition}.wikipedia.org)` : '';
+    let output = `**${summary.title}**${edition}\n\n`;
+    if (summary.requestedLanguage) {
+      output += `Note: no "${summary.requestedLanguage}" Wikipedia article found; this summary is from the "${summary.edition}" edition.\n\n`;
+    }
     output += summary.extract;
 
     if (summary.content_urls?.desktop?.page) {
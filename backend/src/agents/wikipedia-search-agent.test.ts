@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, test } from 'node:test';
+import { ejectCassette, useCassette } from '../cassettes';
+import { WikipediaSearchAgent } from './wikipedia-search-agent';
+
+/** Responses in fixtures/cassettes/wikipedia-articles.json */
+const agent = new WikipediaSearchAgent('https://{lang}.wikipedia.org/w/api.php', 'en');
+
+beforeEach(() => useCassette('wikipedia-articles', 'replay'));
+afterEach(() => ejectCassette());
+
+test('lists the hits with plain-text snippets and article URLs', async () => {
+  const result = await agent.search('first computer programmer', 'en', 2);
+
+  assert.equal(
+    agent.formatResult(result),
+    'Wikipedia search (en.wikipedia.org) for "first computer programmer": 2 of 1204 results\n\n' +
+      '1. **Ada Lovelace** (9512 words)\n' +
+      '   English mathematician, the "first computer programmer"\n' +
+      '   https://en.wikipedia.org/wiki/Ada_Lovelace\n' +
+      '2. **Analytical engine** (6630 words)\n' +
+      "   Babbage's design & Lovelace's notes\n" +
+      '   https://en.wikipedia.org/wiki/Analytical_engine'
+  );
+});
+
+test('says when nothing matched', async () => {
+  const result = await agent.search('qwxzv', 'it', 5);
+
+  assert.equal(agent.formatResult(result), 'No it.wikipedia.org articles found for "qwxzv".');
+});
+
+test('reports an API error as a failed search', async () => {
+  await assert.rejects(agent.search('', 'en', 5), /Wikipedia search failed: The "srsearch" parameter must be set\./);
+});
+
+test('bounds the number of hits', () => {
+  assert.equal(agent.validateArgs({ query: 'Ada' }).limit, 5);
+  assert.equal(agent.validateArgs({ query: 'Ada', limit: '3' }).limit, 3);
+  assert.throws(() => agent.validateArgs({ query: 'Ada', limit: 50 }), /expected a number between 1 and 20/);
+  assert.throws(() => agent.validateArgs({ query: ' ' }), /"query": expected a non-empty string/);
+});
@@ -0,0 +1,172 @@
+import axios from 'axios';
+import { FunctionDeclaration, SchemaType } from '@google/generative-ai';
+import { config } from '../config';
+import { SourceRef } from '../types';
+import { wikipediaSource } from '../citations';
+import { Logger, logger } from '../logging';
+import { Agent, AgentCallContext, optionalLanguage, requireNumber, requireString } from './agent';
+
+export interface WikipediaSearchHit {
+  title: string;
+  snippet: string;
+  wordcount: number;
+  url: string;
+}
+
+export interface WikipediaSearchResult {
+  query: string;
+  language: string;
+  totalHits: number;
+  hits: WikipediaSearchHit[];
+}
+
+interface WikipediaSearchArgs {
+  query: string;
+  language: string;
+  limit: number;
+}
+
+/**
+ * Wikipedia Search Agent
+ * Full-text search over one Wikipedia edition, to find exact article titles
+ */
+export class WikipediaSearchAgent implements Agent<WikipediaSearchArgs, WikipediaSearchResult> {
+  readonly name = 'search_wikipedia';
+  readonly cacheNamespace = 'wikipedia_search';
+
+  readonly declaration: FunctionDeclaration = {
+    name: 'search_wikipedia',
+    description:
+      'Full-text search of Wikipedia articles. Returns matching article titles with text snippets. ' +
+      'Use this to find the exact title before calling get_wikipedia_summary or get_wikipedia_section, ' +
+      'or when a summary lookup fails because the title was guessed wrong.',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        query: {
+          type: SchemaType.STRING,
+          description: 'Search terms (e.g., "Napoleon Hundred Days", "battle of Waterloo aftermath")',
+        },
+        language: {
+          type: SchemaType.STRING,
+          description: 'Wikipedia language edition (e.g., "it", "en"); defaults to the conversation language',
+        },
+        limit: {
+          type: SchemaType.INTEGER,
+          description: 'Maximum number of results (1-20, default: 5)',
+        },
+      },
+      required: ['query'],
+    },
+  };
+
+  constructor(
+    private readonly actionApiUrl: string = config.wikipedia.actionApiUrl,
+    private readonly defaultLanguage: string = config.wikipedia.defaultLanguage
+  ) {}
+
+  validateArgs(args: Record<string, any>, context: AgentCallContext = {}): WikipediaSearchArgs {
+    return {
+      query: requireString(args, 'query').trim(),
+      language: optionalLanguage(args, 'language', context.language || this.defaultLanguage),
+      limit: args.limit === undefined ? 5 : Math.round(requireNumber(args, 'limit', 1, 20)),
+    };
+  }
+
+  cacheKey(args: WikipediaSearchArgs): string {
+    return `${args.language}|${args.limit}|${args.query.replace(/\s+/g, ' ').toLowerCase()}`;
+  }
+
+  invoke(args: WikipediaSearchArgs, context: AgentCallContext = {}): Promise<WikipediaSearchResult> {
+    return this.search(args.query, args.language, args.limit, context.logger);
+  }
+
+  formatResult(data: WikipediaSearchResult): string {
+    return this.formatHits(data);
+  }
+
+  sources(data: WikipediaSearchResult): SourceRef[] {
+    return data.hits.map((hit) => wikipediaSource(data.language, hit.title, hit.url));
+  }
+
+  /**
+   * Run list=search on the edition's action API
+   */
+  async search(
+    query: string,
+    language: string = this.defaultLanguage,
+    limit = 5,
+    log: Logger = logger
+  ): Promise<WikipediaSearchResult> {
+    log.debug('Searching Wikipedia', { query, language });
+
+    try {
+      const response = await axios.get(this.actionApiUrl.replace('{lang}', language), {
+        params: {
+          action: 'query',
+          list: 'search',
+          srsearch: query,
+          srlimit: limit,
+          srprop: 'snippet|wordcount',
+          format: 'json',
+          formatversion: 2,
+        },
+        headers: {
+          'User-Agent': 'WikidAI-PoC/0.1 (Educational Project)',
+        },
+        timeout: 8000,
+      });
+
+      if (response.data.error) {
+        throw new Error(response.data.error.info);
+      }
+
+      const hits: WikipediaSearchHit[] = (response.data.query?.search || []).map((hit: any) => ({
+        title: hit.title,
+        snippet: stripHtml(hit.snippet || ''),
+        wordcount: hit.wordcount,
+        url: `https://${language}.wikipedia.org/wiki/${encodeURIComponent(hit.title.replace(/ /g, '_'))}`,
+      }));
+
+      log.debug('Wikipedia articles found', { matches: hits.length });
+      return { query, language, totalHits: response.data.query?.searchinfo?.totalhits ?? hits.length, hits };
+    } catch (error: any) {
+      log.warn('Wikipedia search failed', { error });
+      throw new Error(`Wikipedia search failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Format search hits for the model
+   */
+  formatHits(data: WikipediaSearchResult): string {
+    if (data.hits.length === 0) {
+      return `No ${data.language}.wikipedia.org articles found for "${data.query}".`;
+    }
+
+    let output = `Wikipedia search (${data.language}.wikipedia.org) for "${data.query}": `;
+    output += `${data.hits.length} of ${data.totalHits} results\n\n`;
+
+    data.hits.forEach((hit, idx) => {
+      output += `${idx + 1}. **${hit.title}** (${hit.wordcount} words)\n`;
+      output += `   ${hit.snippet}\n`;
+      output += `   ${hit.url}\n`;
+    });
+
+    return output.trim();
+  }
+}
+
+/**
+ * Plain text from a search snippet (highlight spans and HTML entities)
+ */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, '')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
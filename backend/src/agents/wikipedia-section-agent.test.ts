@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { ejectCassette, useCassette } from '../cassettes';
+import { WikipediaSectionAgent } from './wikipedia-section-agent';
+
+/** Responses in fixtures/cassettes/wikipedia-articles.json */
+const agent = new WikipediaSectionAgent('https://{lang}.wikipedia.org/w/api.php', 'en');
+
+beforeEach(() => useCassette('wikipedia-articles', 'replay'));
+afterEach(() => ejectCassette());
+
+describe('sections', () => {
+  test('lists the headings when no section is asked for', async () => {
+    const result = await agent.getSection('Ada Lovelace', 'en', '');
+
+    assert.equal(
+      agent.formatResult(result),
+      'Sections of **Ada Lovelace**:\n\n1. Biography\n  2. Childhood\n  3. Adult years\n4. Legacy\n\n' +
+        'Source: https://en.wikipedia.org/wiki/Ada_Lovelace (en.wikipedia.org)'
+    );
+  });
+
+  test('reads a section by heading, subsections included', async () => {
+    const result = await agent.getSection('Ada Lovelace', 'en', 'biography');
+
+    assert.equal(result.kind, 'section');
+    assert.equal(result.heading, 'Biography');
+    assert.equal(
+      result.text,
+      'Ada was born in London.\n\n### Childhood\nShe was tutored in mathematics.\n\n### Adult years\n' +
+        'She married in 1835.'
+    );
+  });
+
+  test('reads a section by number or partial heading', async () => {
+    assert.equal((await agent.getSection('Ada Lovelace', 'en', '4')).text, 'A day is named after her.');
+    assert.equal((await agent.getSection('Ada Lovelace', 'en', 'adult')).heading, 'Adult years');
+  });
+
+  test('answers an unknown section with the table of contents', async () => {
+    const result = await agent.getSection('Ada Lovelace', 'en', 'Death');
+
+    assert.equal(result.kind, 'contents');
+    assert.match(agent.formatResult(result), /^Section "Death" not found\. Sections of \*\*Ada Lovelace\*\*:/);
+  });
+
+  test('refers a missing article to the search', async () => {
+    await assert.rejects(
+      agent.getSection('Nonexistent article', 'en', ''),
+      /not found: "Nonexistent article" \(en\); try search_wikipedia/
+    );
+  });
+});
+
+describe('infobox', () => {
+  test('reduces the fields of an Infobox template to plain text', async () => {
+    const result = await agent.getInfobox('Ada Lovelace', 'en');
+
+    assert.deepEqual(result.fields, [
+      { name: 'name', value: 'The Countess of Lovelace' },
+      { name: 'birth_date', value: '1815 12 10' },
+      { name: 'birth_place', value: 'London, England' },
+      { name: 'known_for', value: 'Mathematics, Analytical engine' },
+    ]);
+    assert.match(agent.formatResult(result), /^\*\*Ada Lovelace\*\* - infobox\n\n- name: The Countess of Lovelace\n/);
+  });
+
+  test('finds an infobox named otherwise, as {{Bio}} on it.wikipedia.org', async () => {
+    const result = await agent.getInfobox('Ada Lovelace', 'it');
+
+    assert.deepEqual(
+      result.fields?.map((field) => `${field.name}=${field.value}`),
+      ['Nome=Ada', 'Cognome=Lovelace', 'LuogoNascita=Londra', 'GiornoMeseNascita=10 dicembre']
+    );
+  });
+
+  test('says when an article has no infobox', async () => {
+    const result = await agent.getInfobox('Mathematics', 'en');
+
+    assert.equal(
+      agent.formatResult(result),
+      '**Mathematics** has no infobox.\nSource: https://en.wikipedia.org/wiki/Mathematics (en.wikipedia.org)'
+    );
+  });
+});
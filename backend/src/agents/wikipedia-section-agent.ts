@@ -0,0 +1,401 @@
+import axios from 'axios';
+import { FunctionDeclaration, SchemaType } from '@google/generative-ai';
+import { config } from '../config';
+import { normalizeWikipediaTitle } from '../cache';
+import { SourceRef } from '../types';
+import { wikipediaSource } from '../citations';
+import { Logger, logger } from '../logging';
+import { Agent, AgentCallContext, optionalLanguage, requireString } from './agent';
+
+/** Longest section text sent to the model */
+const MAX_SECTION_CHARS = 8000;
+const INFOBOX = 'infobox';
+
+interface ArticleSection {
+  heading: string;
+  level: number;
+  /** Text including subsections */
+  text: string;
+}
+
+export interface WikipediaSectionResult {
+  title: string;
+  language: string;
+  url: string;
+  kind: 'contents' | 'section' | 'infobox';
+  /** Headings of the article (for 'contents', or when the requested section was not found) */
+  headings: Array<{ number: number; heading: string; level: number }>;
+  heading?: string;
+  text?: string;
+  /** Infobox fields as plain text */
+  fields?: Array<{ name: string; value: string }>;
+  truncated?: boolean;
+}
+
+interface WikipediaSectionArgs {
+  title: string;
+  language: string;
+  /** Heading, section number, "infobox", or empty for the table of contents */
+  section: string;
+}
+
+/**
+ * Wikipedia Section Agent
+ * Reads one section of an article (or its infobox) as plain text, beyond the lead summary
+ */
+export class WikipediaSectionAgent implements Agent<WikipediaSectionArgs, WikipediaSectionResult> {
+  readonly name = 'get_wikipedia_section';
+  readonly cacheNamespace = 'wikipedia_section';
+
+  readonly declaration: FunctionDeclaration = {
+    name: 'get_wikipedia_section',
+    description:
+      'Read a specific section of a Wikipedia article, or its infobox, as plain text. ' +
+      'Call without "section" to get the article\'s table of contents, then request a section by heading or number. ' +
+      'Use section "infobox" for the key facts box. Use this when the summary is not detailed enough ' +
+      '(e.g., "what happened in the second half of Napoleon\'s reign").',
+    parameters: {
+      type: SchemaType.OBJECT,
+      properties: {
+        title: {
+          type: SchemaType.STRING,
+          description: 'Exact article title (use search_wikipedia to find it)',
+        },
+        section: {
+          type: SchemaType.STRING,
+          description: 'Section heading (e.g., "Hundred Days") or number from the table of contents, or "infobox"',
+        },
+        language: {
+          type: SchemaType.STRING,
+          description: 'Wikipedia language edition (e.g., "it", "en"); defaults to the conversation language',
+        },
+      },
+      required: ['title'],
+    },
+  };
+
+  constructor(
+    private readonly actionApiUrl: string = config.wikipedia.actionApiUrl,
+    private readonly defaultLanguage: string = config.wikipedia.defaultLanguage
+  ) {}
+
+  validateArgs(args: Record<string, any>, context: AgentCallContext = {}): WikipediaSectionArgs {
+    const section = args.section === undefined || args.section === null ? '' : String(args.section).trim();
+
+    return {
+      title: requireString(args, 'title').trim(),
+      language: optionalLanguage(args, 'language', context.language || this.defaultLanguage),
+      section,
+    };
+  }
+
+  cacheKey(args: WikipediaSectionArgs): string {
+    return `${args.language}|${normalizeWikipediaTitle(args.title)}|${args.section.toLowerCase()}`;
+  }
+
+  invoke(args: WikipediaSectionArgs, context: AgentCallContext = {}): Promise<WikipediaSectionResult> {
+    return args.section.toLowerCase() === INFOBOX
+      ? this.getInfobox(args.title, args.language, context.logger)
+      : this.getSection(args.title, args.language, args.section, context.logger);
+  }
+
+  formatResult(data: WikipediaSectionResult): string {
+    return this.formatSection(data);
+  }
+
+  sources(data: WikipediaSectionResult): SourceRef[] {
+    const section = data.kind === 'section' ? data.heading : undefined;
+    return [wikipediaSource(data.language, data.title, data.url, section)];
+  }
+
+  /**
+   * Plain-text article (TextExtracts) split at its headings
+   */
+  async getSection(
+    title: string,
+    language: string,
+    section: string,
+    log: Logger = logger
+  ): Promise<WikipediaSectionResult> {
+    log.debug('Reading Wikipedia section', { title, language, section: section || 'contents' });
+
+    const page = await this.request(language, log, {
+      action: 'query',
+      prop: 'extracts',
+      explaintext: 1,
+      exsectionformat: 'wiki',
+      titles: title,
+      redirects: 1,
+    });
+    const article = page.query?.pages?.[0];
+    if (!article || article.missing || typeof article.extract !== 'string') {
+      throw new Error(`Wikipedia article not found: "${title}" (${language}); try search_wikipedia`);
+    }
+
+    const sections = splitSections(article.extract);
+    const result: WikipediaSectionResult = {
+      title: article.title,
+      language,
+      url: articleUrl(language, article.title),
+      kind: 'contents',
+      headings: sections.slice(1).map((s, i) => ({ number: i + 1, heading: s.heading, level: s.level })),
+    };
+
+    if (!section) {
+      return result;
+    }
+
+    const found = findSection(sections, section);
+    if (!found) {
+      // Returned with the table of contents so the model can pick an existing heading
+      log.debug('Wikipedia section not found', { section });
+      return { ...result, heading: section };
+    }
+
+    const truncated = found.text.length > MAX_SECTION_CHARS;
+    log.debug('Wikipedia section retrieved', { section: found.heading, chars: found.text.length });
+    return {
+      ...result,
+      kind: 'section',
+      heading: found.heading,
+      text: truncated ? found.text.slice(0, MAX_SECTION_CHARS) : found.text,
+      truncated,
+    };
+  }
+
+  /**
+   * Infobox template of the lead section, parsed into name/value pairs
+   */
+  async getInfobox(title: string, language: string, log: Logger = logger): Promise<WikipediaSectionResult> {
+    log.debug('Reading Wikipedia infobox', { title, language });
+
+    const page = await this.request(language, log, {
+      action: 'parse',
+      page: title,
+      prop: 'wikitext',
+      section: 0,
+      redirects: 1,
+    });
+    if (!page.parse) {
+      throw new Error(`Wikipedia article not found: "${title}" (${language}); try search_wikipedia`);
+    }
+
+    const template = findInfobox(page.parse.wikitext);
+    const fields = template ? parseTemplateFields(template) : [];
+
+    log.debug('Wikipedia infobox retrieved', { fields: fields.length });
+    return {
+      title: page.parse.title,
+      language,
+      url: articleUrl(language, page.parse.title),
+      kind: 'infobox',
+      headings: [],
+      fields,
+    };
+  }
+
+  private async request(language: string, log: Logger, params: Record<string, any>): Promise<any> {
+    try {
+      const response = await axios.get(this.actionApiUrl.replace('{lang}', language), {
+        params: { ...params, format: 'json', formatversion: 2 },
+        headers: {
+          'User-Agent': 'WikidAI-PoC/0.1 (Educational Project)',
+        },
+        timeout: 10000,
+      });
+
+      // action=parse reports missing pages as an error
+      if (response.data.error && response.data.error.code !== 'missingtitle') {
+        throw new Error(response.data.error.info);
+      }
+      return response.data;
+    } catch (error: any) {
+      log.warn('Wikipedia request failed', { error });
+      throw new Error(`Wikipedia request failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Format the section, infobox or table of contents for the model
+   */
+  formatSection(data: WikipediaSectionResult): string {
+    const source = `Source: ${data.url} (${data.language}.wikipedia.org)`;
+    const contents = () =>
+      data.headings.map((h) => `${'  '.repeat(Math.max(0, h.level - 2))}${h.number}. ${h.heading}`).join('\n');
+
+    if (data.kind === 'infobox') {
+      if (!data.fields?.length) {
+        return `**${data.title}** has no infobox.\n${source}`;
+      }
+      const fields = data.fields.map((field) => `- ${field.name}: ${field.value}`).join('\n');
+      return `**${data.title}** - infobox\n\n${fields}\n\n${source}`;
+    }
+
+    if (data.kind === 'section') {
+      const truncated = data.truncated ? `\n\n[Section truncated at ${MAX_SECTION_CHARS} characters]` : '';
+      return `**${data.title}** - ${data.heading}\n\n${data.text}${truncated}\n\n${source}`;
+    }
+
+    const notFound = data.heading ? `Section "${data.heading}" not found. ` : '';
+    if (data.headings.length === 0) {
+      return `${notFound}**${data.title}** has no sections beyond the lead.\n${source}`;
+    }
+    return `${notFound}Sections of **${data.title}**:\n\n${contents()}\n\n${source}`;
+  }
+}
+
+function articleUrl(language: string, title: string): string {
+  return `https://${language}.wikipedia.org/wiki/${encodeURIComponent(title.replace(/ /g, '_'))}`;
+}
+
+/**
+ * Split a TextExtracts plain-text article ("== Heading ==" markers) into sections.
+ * Index 0 is the lead; each section's text includes its subsections.
+ */
+function splitSections(extract: string): ArticleSection[] {
+  const lines = extract.split('\n');
+  const headings: Array<{ heading: string; level: number; line: number }> = [{ heading: '(lead)', level: 1, line: -1 }];
+
+  lines.forEach((line, i) => {
+    const match = /^(={2,6})\s*(.+?)\s*\1\s*$/.exec(line);
+    if (match) {
+      headings.push({ heading: match[2], level: match[1].length, line: i });
+    }
+  });
+
+  return headings.map((h, i) => {
+    const next = headings.slice(i + 1).find((other) => other.level <= h.level);
+    const end = next ? next.line : lines.length;
+    const text = lines
+      .slice(h.line + 1, end)
+      .join('\n')
+      .replace(/^(={2,6})\s*(.+?)\s*\1\s*$/gm, (_, marks: string, heading: string) => `${'#'.repeat(marks.length)} ${heading}`)
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    return { heading: h.heading, level: h.level, text };
+  });
+}
+
+/**
+ * Section by number (as listed in the contents) or heading (exact, then partial match)
+ */
+function findSection(sections: ArticleSection[], query: string): ArticleSection | undefined {
+  if (/^\d+$/.test(query)) {
+    return sections[Number(query)];
+  }
+
+  const wanted = query.toLowerCase();
+  const body = sections.slice(1);
+  return (
+    body.find((s) => s.heading.toLowerCase() === wanted) ?? body.find((s) => s.heading.toLowerCase().includes(wanted))
+  );
+}
+
+/**
+ * Top-level templates of a wikitext fragment
+ */
+function topLevelTemplates(wikitext: string): string[] {
+  const templates: string[] = [];
+  let depth = 0;
+  let start = -1;
+
+  for (let i = 0; i < wikitext.length - 1; i++) {
+    if (wikitext.startsWith('{{', i)) {
+      if (depth === 0) start = i;
+      depth++;
+      i++;
+    } else if (wikitext.startsWith('}}', i) && depth > 0) {
+      depth--;
+      i++;
+      if (depth === 0) templates.push(wikitext.slice(start, i + 1));
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * The infobox: a template named "Infobox ..." or, on editions with other naming
+ * (e.g. it: {{Bio}}, {{Divisione amministrativa}}), the first one with several named fields
+ */
+function findInfobox(wikitext: string): string | undefined {
+  const templates = topLevelTemplates(wikitext);
+  return (
+    templates.find((t) => /^\{\{\s*infobox/i.test(t)) ??
+    templates.find((t) => (t.match(/\n\s*\|\s*[^=|\n]+=/g) || []).length >= 3)
+  );
+}
+
+/**
+ * Named parameters of a template, with wiki markup reduced to plain text
+ */
+function parseTemplateFields(template: string): Array<{ name: string; value: string }> {
+  const inner = template.slice(2, -2);
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  // Split on "|" that is not inside a nested template or link
+  for (let i = 0; i < inner.length; i++) {
+    const pair = inner.slice(i, i + 2);
+    if (pair === '{{' || pair === '[[') {
+      depth++;
+      current += pair;
+      i++;
+    } else if ((pair === '}}' || pair === ']]') && depth > 0) {
+      depth--;
+      current += pair;
+      i++;
+    } else if (inner[i] === '|' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += inner[i];
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .slice(1)
+    .map((part) => {
+      const eq = part.indexOf('=');
+      return eq === -1 ? null : { name: part.slice(0, eq).trim(), value: cleanWikitext(part.slice(eq + 1)) };
+    })
+    .filter((field): field is { name: string; value: string } => !!field && !!field.name && !!field.value);
+}
+
+/**
+ * Reduce wiki markup to readable text
+ */
+function cleanWikitext(value: string): string {
+  let text = value
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<ref[^>]*\/>/gi, '')
+    .replace(/<ref[^>]*>[\s\S]*?<\/ref>/gi, '')
+    .replace(/<br\s*\/?>/gi, ', ')
+    .replace(/<[^>]+>/g, '');
+
+  // Innermost templates first: keep their positional arguments ({{birth date|1769|8|15}} -> 1769 8 15)
+  let previous: string;
+  do {
+    previous = text;
+    text = text.replace(/\{\{([^{}]*)\}\}/g, (_, body: string) =>
+      body
+        .split('|')
+        .slice(1)
+        .filter((arg) => !arg.includes('='))
+        .join(' ')
+    );
+  } while (text !== previous);
+
+  return text
+    .replace(/\[\[(?:File|Image|Immagine):[^\]]*\]\]/gi, '')
+    .replace(/\[\[[^\]|]*\|([^\]]*)\]\]/g, '$1')
+    .replace(/\[\[([^\]]*)\]\]/g, '$1')
+    .replace(/\[https?:\/\/\S+\s+([^\]]+)\]/g, '$1')
+    .replace(/'{2,}/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[,\s]+|[,\s]+$/g, '')
+    .trim();
+}
@@ -0,0 +1,51 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { Authenticator, Principal, Role } from './authenticator';
+
+interface ApiKeyEntry {
+  /** SHA-256 of the key, so lookups compare fixed-length digests */
+  digest: Buffer;
+  principal: Principal;
+}
+
+/**
+ * Static API keys sent in the X-API-Key header
+ */
+export class ApiKeyAuthenticator implements Authenticator {
+  private readonly entries: ApiKeyEntry[];
+
+  /**
+   * @param keys - "key:principal" or "key:principal:admin" entries (API_KEYS)
+   */
+  constructor(keys: string[]) {
+    this.entries = keys.map((entry) => {
+      const [key, id, role = 'user'] = entry.split(':').map((part) => part.trim());
+      if (!key || !id || (role !== 'user' && role !== 'admin')) {
+        throw new Error('API_KEYS entries must look like key:principal or key:principal:admin');
+      }
+      return { digest: digest(key), principal: { id, role: role as Role, method: 'api_key' } };
+    });
+  }
+
+  authenticate(req: Request): Principal | undefined {
+    const key = req.header('x-api-key');
+    if (key === undefined) {
+      return undefined;
+    }
+
+    const received = digest(key);
+    // Compare against every entry so the timing does not depend on which one matches
+    const match = this.entries.reduce<ApiKeyEntry | undefined>(
+      (found, entry) => (timingSafeEqual(entry.digest, received) ? entry : found),
+      undefined
+    );
+    if (!match) {
+      throw new Error('Invalid API key');
+    }
+    return match.principal;
+  }
+}
+
+function digest(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
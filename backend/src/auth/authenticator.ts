@@ -0,0 +1,36 @@
+/**
+ * Authenticator Interface
+ *
+ * An authenticator turns one kind of credential (API key, bearer JWT...) into
+ * the principal making the request. The middleware tries them in order.
+ */
+
+import { Request } from 'express';
+
+export type Role = 'user' | 'admin';
+
+/**
+ * Caller of a request: owns the conversations it creates. Admins see all of them.
+ */
+export interface Principal {
+  id: string;
+  role: Role;
+  /** Credential the principal was identified with ('none' when authentication is off) */
+  method: 'api_key' | 'jwt' | 'none';
+}
+
+export interface Authenticator {
+  /**
+   * Principal for the request's credentials, or undefined when the request carries
+   * none of this kind. Throws when credentials are present but invalid.
+   */
+  authenticate(req: Request): Principal | undefined;
+}
+
+/**
+ * Whether a principal may read and change a conversation.
+ * Conversations without an owner (created before authentication) are left to admins.
+ */
+export function canAccess(principal: Principal, conversation: { ownerId?: string }): boolean {
+  return principal.role === 'admin' || (conversation.ownerId !== undefined && conversation.ownerId === principal.id);
+}
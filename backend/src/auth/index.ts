@@ -0,0 +1,51 @@
+/**
+ * Authentication Module
+ *
+ * API keys and bearer JWTs identify the principal of each /api request;
+ * conversations belong to the principal that created them.
+ */
+
+import { createPublicKey } from 'crypto';
+import fs from 'fs';
+import { config } from '../config';
+import { Authenticator } from './authenticator';
+import { ApiKeyAuthenticator } from './api-key-authenticator';
+import { JwtAuthenticator } from './jwt-authenticator';
+
+export { canAccess } from './authenticator';
+export type { Authenticator, Principal, Role } from './authenticator';
+export { ApiKeyAuthenticator } from './api-key-authenticator';
+export { JwtAuthenticator } from './jwt-authenticator';
+export type { JwtOptions } from './jwt-authenticator';
+export { authentication, principalOf, requireAdmin } from './middleware';
+
+/**
+ * Authenticators enabled by configuration: API keys first, then JWT
+ */
+export function createAuthenticators(): Authenticator[] {
+  const authenticators: Authenticator[] = [];
+  const { apiKeys, jwt } = config.auth;
+
+  if (apiKeys.length > 0) {
+    authenticators.push(new ApiKeyAuthenticator(apiKeys));
+  }
+
+  if (jwt.secret || jwt.publicKeyFile) {
+    authenticators.push(
+      new JwtAuthenticator({
+        secret: jwt.secret || undefined,
+        publicKey: jwt.publicKeyFile ? createPublicKey(fs.readFileSync(jwt.publicKeyFile)) : undefined,
+        issuer: jwt.issuer || undefined,
+        audience: jwt.audience || undefined,
+        requireExp: jwt.requireExp,
+        roleClaim: jwt.roleClaim,
+      })
+    );
+  }
+
+  if (config.auth.mode === 'required' && authenticators.length === 0) {
+    throw new Error('AUTH_MODE=required needs API_KEYS, JWT_SECRET or JWT_PUBLIC_KEY_FILE');
+  }
+
+  return authenticators;
+}
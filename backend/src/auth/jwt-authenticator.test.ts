@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { KeyObject, createHmac, generateKeyPairSync, sign } from 'node:crypto';
+import { describe, test } from 'node:test';
+import { Request } from 'express';
+import { JwtAuthenticator, JwtOptions } from './jwt-authenticator';
+
+const SECRET = 'a-shared-secret-for-tests';
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+/** Expiry one hour from now */
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+function segment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Token signed with an HMAC secret (HS256), or with a private key (RS256, ES256)
+ */
+function token(claims: object, alg = 'HS256', key: string | KeyObject = SECRET): string {
+  const input = `${segment({ alg, typ: 'JWT' })}.${segment(claims)}`;
+  let signature: Buffer;
+  if (alg === 'none') {
+    signature = Buffer.alloc(0);
+  } else if (typeof key === 'string') {
+    signature = createHmac('sha256', key).update(input).digest();
+  } else {
+    signature = sign('sha256', Buffer.from(input), { key, dsaEncoding: 'ieee-p1363' });
+  }
+  return `${input}.${signature.toString('base64url')}`;
+}
+
+function request(jwt: string): Request {
+  const headers: Record<string, string> = { authorization: `Bearer ${jwt}` };
+  return { header: (name: string) => headers[name.toLowerCase()] } as unknown as Request;
+}
+
+function authenticator(options: Partial<JwtOptions> = {}): JwtAuthenticator {
+  return new JwtAuthenticator({ secret: SECRET, roleClaim: 'role', ...options });
+}
+
+describe('signature', () => {
+  test('accepts a token signed with the secret', () => {
+    const principal = authenticator().authenticate(request(token({ sub: 'alice', role: 'admin', exp: inAnHour() })));
+
+    assert.deepEqual(principal, { id: 'alice', role: 'admin', method: 'jwt' });
+  });
+
+  test('refuses a token signed with another secret', () => {
+    const forged = token({ sub: 'alice', exp: inAnHour() }, 'HS256', 'another-secret');
+
+    assert.throws(() => authenticator().authenticate(request(forged)), /bad signature/);
+  });
+
+  test('refuses a token whose claims were changed after signing', () => {
+    const [header, , signature] = token({ sub: 'alice', exp: inAnHour() }).split('.');
+    const tampered = `${header}.${segment({ sub: 'mallory', exp: inAnHour() })}.${signature}`;
+
+    assert.throws(() => authenticator().authenticate(request(tampered)), /bad signature/);
+  });
+
+  test('accepts an RS256 token verified with the public key', () => {
+    const jwt = token({ sub: 'alice', exp: inAnHour() }, 'RS256', rsa.privateKey);
+
+    assert.equal(authenticator({ secret: undefined, publicKey: rsa.publicKey }).authenticate(request(jwt))?.id, 'alice');
+  });
+});
+
+describe('algorithm confusion', () => {
+  test('refuses alg "none"', () => {
+    const unsigned = token({ sub: 'alice', exp: inAnHour() }, 'none');
+
+    assert.throws(() => authenticator().authenticate(request(unsigned)), /unsupported algorithm none/);
+  });
+
+  test('refuses an HS256 token signed with the RSA public key as HMAC secret', () => {
+    const pem = rsa.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    const forged = token({ sub: 'alice', exp: inAnHour() }, 'HS256', pem);
+    const rsaOnly = authenticator({ secret: undefined, publicKey: rsa.publicKey });
+
+    assert.throws(() => rsaOnly.authenticate(request(forged)), /HS256 tokens are not accepted/);
+  });
+
+  test('refuses an ES256 token when the configured key is RSA', () => {
+    const jwt = token({ sub: 'alice', exp: inAnHour() }, 'ES256', ec.privateKey);
+    const rsaOnly = authenticator({ secret: undefined, publicKey: rsa.publicKey });
+
+    assert.throws(() => rsaOnly.authenticate(request(jwt)), /ES256 tokens are not accepted/);
+  });
+});
+
+describe('expiry', () => {
+  test('refuses an expired token', () => {
+    const expired = token({ sub: 'alice', exp: Math.floor(Date.now() / 1000) - 120 });
+
+    assert.throws(() => authenticator().authenticate(request(expired)), /expired/);
+  });
+
+  test('tolerates a few seconds of clock skew', () => {
+    const justExpired = token({ sub: 'alice', exp: Math.floor(Date.now() / 1000) - 5 });
+
+    assert.equal(authenticator().authenticate(request(justExpired))?.id, 'alice');
+  });
+
+  test('refuses a token without exp unless configured otherwise', () => {
+    const forever = token({ sub: 'alice' });
+
+    assert.throws(() => authenticator().authenticate(request(forever)), /missing exp claim/);
+    assert.equal(authenticator({ requireExp: false }).authenticate(request(forever))?.id, 'alice');
+  });
+
+  test('refuses a non-numeric exp', () => {
+    const malformed = token({ sub: 'alice', exp: 'tomorrow' });
+
+    assert.throws(() => authenticator({ requireExp: false }).authenticate(request(malformed)), /malformed exp/);
+  });
+
+  test('refuses a token that is not valid yet', () => {
+    const early = token({ sub: 'alice', nbf: inAnHour(), exp: inAnHour() + 60 });
+
+    assert.throws(() => authenticator().authenticate(request(early)), /not valid yet/);
+  });
+});
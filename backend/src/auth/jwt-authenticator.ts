@@ -0,0 +1,136 @@
+import { KeyObject, createHmac, timingSafeEqual, verify } from 'crypto';
+import { Request } from 'express';
+import { Authenticator, Principal } from './authenticator';
+
+/** Supported JWS algorithms: digest and key type */
+const ALGORITHMS: Record<string, { hash: string; key: 'secret' | 'rsa' | 'ec' }> = {
+  HS256: { hash: 'sha256', key: 'secret' },
+  HS384: { hash: 'sha384', key: 'secret' },
+  HS512: { hash: 'sha512', key: 'secret' },
+  RS256: { hash: 'sha256', key: 'rsa' },
+  RS384: { hash: 'sha384', key: 'rsa' },
+  RS512: { hash: 'sha512', key: 'rsa' },
+  ES256: { hash: 'sha256', key: 'ec' },
+  ES384: { hash: 'sha384', key: 'ec' },
+};
+
+/** Allowed clock difference with the issuer (seconds) */
+const CLOCK_SKEW_S = 30;
+
+export interface JwtOptions {
+  /** Shared secret for HS* tokens */
+  secret?: string;
+  /** Public key for RS* / ES* tokens */
+  publicKey?: KeyObject;
+  /** Required `iss` claim, when set */
+  issuer?: string;
+  /** Required `aud` claim (or one of its values), when set */
+  audience?: string;
+  /** Refuse tokens without an `exp` claim, which would never expire (default true) */
+  requireExp?: boolean;
+  /** Claim holding the role: a string or an array of strings, "admin" grants the admin role */
+  roleClaim: string;
+}
+
+/**
+ * Bearer JWTs (Authorization: Bearer <token>) signed with a local secret or key pair.
+ * The `sub` claim identifies the principal.
+ */
+export class JwtAuthenticator implements Authenticator {
+  constructor(private readonly options: JwtOptions) {
+    if (!options.secret && !options.publicKey) {
+      throw new Error('JWT authentication needs JWT_SECRET or JWT_PUBLIC_KEY_FILE');
+    }
+  }
+
+  authenticate(req: Request): Principal | undefined {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.header('authorization') ?? '');
+    if (!match) {
+      return undefined;
+    }
+
+    const claims = this.verify(match[1]);
+    if (typeof claims.sub !== 'string' || claims.sub === '') {
+      throw new Error('Invalid token: missing sub claim');
+    }
+
+    const roles = [claims[this.options.roleClaim]].flat();
+    return { id: claims.sub, role: roles.includes('admin') ? 'admin' : 'user', method: 'jwt' };
+  }
+
+  /**
+   * Check signature, algorithm, time window, issuer and audience; return the claims
+   */
+  private verify(token: string): Record<string, any> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new Error('Invalid token: malformed');
+    }
+    const [encodedHeader, encodedClaims, encodedSignature] = parts;
+    const header = decodeSegment(encodedHeader);
+    const claims = decodeSegment(encodedClaims);
+
+    // The algorithm must match the configured key: "none" and HS256-with-a-public-key are refused
+    const algorithm = ALGORITHMS[header.alg];
+    if (!algorithm) {
+      throw new Error(`Invalid token: unsupported algorithm ${header.alg}`);
+    }
+
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedClaims}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    let valid: boolean;
+
+    if (algorithm.key === 'secret') {
+      if (!this.options.secret) {
+        throw new Error(`Invalid token: ${header.alg} tokens are not accepted`);
+      }
+      const expected = createHmac(algorithm.hash, this.options.secret).update(signingInput).digest();
+      valid = expected.length === signature.length && timingSafeEqual(expected, signature);
+    } else {
+      const { publicKey } = this.options;
+      if (!publicKey || publicKey.asymmetricKeyType !== algorithm.key) {
+        throw new Error(`Invalid token: ${header.alg} tokens are not accepted`);
+      }
+      // JWS encodes ECDSA signatures as r || s, not DER
+      valid = verify(algorithm.hash, signingInput, { key: publicKey, dsaEncoding: 'ieee-p1363' }, signature);
+    }
+
+    if (!valid) {
+      throw new Error('Invalid token: bad signature');
+    }
+
+    const now = Date.now() / 1000;
+    if (claims.exp === undefined) {
+      if (this.options.requireExp !== false) {
+        throw new Error('Invalid token: missing exp claim');
+      }
+    } else if (typeof claims.exp !== 'number') {
+      throw new Error('Invalid token: malformed exp claim');
+    } else if (now > claims.exp + CLOCK_SKEW_S) {
+      throw new Error('Invalid token: expired');
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf - CLOCK_SKEW_S) {
+      throw new Error('Invalid token: not valid yet');
+    }
+    if (this.options.issuer && claims.iss !== this.options.issuer) {
+      throw new Error('Invalid token: wrong issuer');
+    }
+    if (this.options.audience && ![claims.aud].flat().includes(this.options.audience)) {
+      throw new Error('Invalid token: wrong audience');
+    }
+
+    return claims;
+  }
+}
+
+function decodeSegment(segment: string): Record<string, any> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid token: malformed');
+}
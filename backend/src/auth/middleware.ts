@@ -0,0 +1,63 @@
+import { RequestHandler, Response } from 'express';
+import { requestLogger } from '../logging';
+import { Authenticator, Principal } from './authenticator';
+
+/** Every caller when authentication is off: sees all conversations, as before authentication existed */
+const ANONYMOUS: Principal = { id: 'anonymous', role: 'admin', method: 'none' };
+
+/**
+ * Express middleware: identify the caller with the first authenticator that finds
+ * credentials, or answer 401. With mode 'off' every caller is the anonymous admin.
+ */
+export function authentication(authenticators: Authenticator[], mode: string): RequestHandler {
+  return (req, res, next) => {
+    if (mode === 'off') {
+      res.locals.principal = ANONYMOUS;
+      return next();
+    }
+
+    let principal: Principal | undefined;
+    try {
+      for (const authenticator of authenticators) {
+        principal = authenticator.authenticate(req);
+        if (principal) break;
+      }
+    } catch (error: any) {
+      requestLogger(res).warn('Authentication failed', { error });
+      return res
+        .status(401)
+        .set('WWW-Authenticate', 'Bearer error="invalid_token"')
+        .json({ success: false, error: error.message });
+    }
+
+    if (!principal) {
+      return res
+        .status(401)
+        .set('WWW-Authenticate', 'Bearer')
+        .json({ success: false, error: 'Authentication required: send X-API-Key or Authorization: Bearer <token>' });
+    }
+
+    res.locals.principal = principal;
+    res.locals.logger = requestLogger(res).child({ principal: principal.id });
+    next();
+  };
+}
+
+/**
+ * Caller of the current request (set by the authentication middleware)
+ */
+export function principalOf(res: Response): Principal {
+  return res.locals.principal;
+}
+
+/**
+ * Express middleware: only admins may continue
+ */
+export function requireAdmin(): RequestHandler {
+  return (req, res, next) => {
+    if (principalOf(res)?.role !== 'admin') {
+      return res.status(403).json({ success: false, error: 'Admin role required' });
+    }
+    next();
+  };
+}
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, test } from 'node:test';
+import { config } from '../config';
+import { disconnectRedis } from '../redis-client';
+import { AgentCache } from './agent-cache';
+import { MemoryCacheStore } from './memory-cache-store';
+import { RedisCacheStore } from './redis-cache-store';
+
+const TTLS = { wikidata: 60 };
+
+test('serves the second call from the cache', async () => {
+  const cache = new AgentCache(new MemoryCacheStore(), TTLS);
+  let calls = 0;
+  const fetcher = async () => ({ rows: ++calls });
+
+  assert.deepEqual(await cache.wrap('wikidata', 'q', fetcher), { value: { rows: 1 }, cached: false });
+  assert.deepEqual(await cache.wrap('wikidata', 'q', fetcher), { value: { rows: 1 }, cached: true });
+});
+
+describe('with Redis unavailable', () => {
+  /** Accepts connections but never answers, like a hung Redis */
+  let silentServer: net.Server;
+  let silentUrl = '';
+  const original = { redisUrl: config.redisUrl, redisTimeoutMs: config.redisTimeoutMs };
+
+  before(async () => {
+    config.redisTimeoutMs = 300;
+    silentServer = net.createServer(() => undefined);
+    await new Promise<void>((resolve) => silentServer.listen(0, '127.0.0.1', resolve));
+    silentUrl = `redis://127.0.0.1:${(silentServer.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await disconnectRedis();
+    Object.assign(config, original);
+    silentServer.close();
+  });
+
+  async function assertFallsThrough(): Promise<void> {
+    const cache = new AgentCache(new RedisCacheStore(), TTLS);
+    const startedAt = Date.now();
+
+    const result = await cache.wrap('wikidata', 'q', async () => 'fresh');
+
+    assert.deepEqual(result, { value: 'fresh', cached: false });
+    // One bounded read and one bounded write at most
+    assert.ok(Date.now() - startedAt < 2 * config.redisTimeoutMs + 1000);
+  }
+
+  test('calls the fetcher when nothing listens on the Redis port', async () => {
+    // Port 1 is never a Redis server: connecting is refused
+    config.redisUrl = 'redis://127.0.0.1:1';
+    await assertFallsThrough();
+  });
+
+  test('calls the fetcher when Redis accepts the connection but never answers', async () => {
+    config.redisUrl = silentUrl;
+    await assertFallsThrough();
+  });
+});
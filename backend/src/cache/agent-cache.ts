@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { CacheStore } from './cache-store';
+import { Logger, logger } from '../logging';
+
+export interface CachedValue<T> {
+  value: T;
+  cached: boolean;
+}
+
+/**
+ * Agent Cache
+ *
+ * Multi-TTL read-through cache for agent results. Each agent gets its own
+ * namespace and TTL (seconds); a TTL of 0 disables caching for that agent.
+ * Cache failures never fail the agent call - they are logged and bypassed.
+ */
+export class AgentCache {
+  constructor(
+    private readonly store: CacheStore | null,
+    private readonly ttls: Record<string, number>
+  ) {}
+
+  /**
+   * Whether results of this namespace are cached at all
+   */
+  isEnabled(namespace: string): boolean {
+    return this.store !== null && (this.ttls[namespace] ?? 0) > 0;
+  }
+
+  /**
+   * Return the cached value for (namespace, key), or call fetcher and cache its result
+   */
+  async wrap<T>(
+    namespace: string,
+    key: string,
+    fetcher: () => Promise<T>,
+    log: Logger = logger
+  ): Promise<CachedValue<T>> {
+    if (!this.store || !this.isEnabled(namespace)) {
+      return { value: await fetcher(), cached: false };
+    }
+    const ttl = this.ttls[namespace];
+
+    const cacheKey = `${namespace}:${createHash('sha1').update(key).digest('hex')}`;
+
+    try {
+      const hit = await this.store.get(cacheKey);
+      if (hit !== undefined) {
+        log.debug('Cache hit', { namespace });
+        return { value: JSON.parse(hit) as T, cached: true };
+      }
+    } catch (error: any) {
+      log.warn('Cache read failed', { namespace, error });
+    }
+
+    const value = await fetcher();
+
+    try {
+      await this.store.set(cacheKey, JSON.stringify(value), ttl);
+    } catch (error: any) {
+      log.warn('Cache write failed', { namespace, error });
+    }
+
+    return { value, cached: false };
+  }
+}
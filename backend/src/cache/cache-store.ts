@@ -0,0 +1,14 @@
+/**
+ * Cache Store
+ *
+ * Key/value backend used by AgentCache.
+ * Implementations: in-memory (single process) and Redis (shared across replicas).
+ */
+
+export interface CacheStore {
+  /** Get a cached value, undefined on miss or expiry */
+  get(key: string): Promise<string | undefined>;
+
+  /** Store a value for ttlSeconds */
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
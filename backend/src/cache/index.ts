@@ -0,0 +1,39 @@
+/**
+ * Agent response caching
+ */
+
+import { config } from '../config';
+import { logger } from '../logging';
+import { AgentCache } from './agent-cache';
+import { CacheStore } from './cache-store';
+import { MemoryCacheStore } from './memory-cache-store';
+import { RedisCacheStore } from './redis-cache-store';
+
+export type { CacheStore };
+export type { CachedValue } from './agent-cache';
+export { AgentCache, MemoryCacheStore, RedisCacheStore };
+export { normalizeSparql, normalizeWikipediaTitle, normalizePlaceQuery, roundCoordinate } from './keys';
+
+/**
+ * Create the agent cache selected by CACHE_STORE ('memory' | 'redis' | 'none')
+ */
+export function createAgentCache(): AgentCache {
+  let store: CacheStore | null;
+
+  switch (config.cache.store) {
+    case 'redis':
+      store = new RedisCacheStore();
+      break;
+    case 'none':
+      store = null;
+      break;
+    case 'memory':
+      store = new MemoryCacheStore();
+      break;
+    default:
+      logger.warn('Unknown CACHE_STORE, falling back to memory', { store: config.cache.store });
+      store = new MemoryCacheStore();
+  }
+
+  return new AgentCache(store, config.cache.ttlSeconds);
+}
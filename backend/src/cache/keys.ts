@@ -0,0 +1,80 @@
+/**
+ * Cache key normalization
+ *
+ * Equivalent requests should map to the same cache entry, e.g. SPARQL queries
+ * that differ only in indentation, or coordinates a few meters apart.
+ */
+
+/**
+ * Collapse whitespace in a SPARQL query, leaving string literals and IRIs untouched
+ */
+export function normalizeSparql(query: string): string {
+  let output = '';
+  let quote: string | null = null;
+  let inIri = false;
+  let pendingSpace = false;
+
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+
+    if (quote) {
+      output += char;
+      if (char === '\\' && i + 1 < query.length) {
+        output += query[++i];
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (inIri) {
+      output += char;
+      if (char === '>') {
+        inIri = false;
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      pendingSpace = output.length > 0;
+      continue;
+    }
+
+    if (pendingSpace) {
+      output += ' ';
+      pendingSpace = false;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '<' && /^<[^\s<>"{}|^`\\]*>/.test(query.slice(i))) {
+      // Only treat '<' as an IRI opener when it forms a full IRI (not a comparison)
+      inIri = true;
+    }
+    output += char;
+  }
+
+  return output;
+}
+
+/**
+ * Normalize a Wikipedia title the way Wikipedia does (underscores, first letter uppercase)
+ */
+export function normalizeWikipediaTitle(term: string): string {
+  const title = term.trim().replace(/\s+/g, '_');
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+/**
+ * Normalize a free-text place query (case and whitespace insensitive)
+ */
+export function normalizePlaceQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Round a coordinate for cache keys (2 decimals ≈ 1.1 km)
+ */
+export function roundCoordinate(value: number, decimals: number = 2): string {
+  return value.toFixed(decimals);
+}
@@ -0,0 +1,36 @@
+import { CacheStore } from './cache-store';
+
+/**
+ * In-Memory Cache Store
+ * Process-local Map with per-entry expiry. Oldest entries are evicted past maxEntries.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    // Re-insert so the Map's insertion order tracks recency of writes
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+}
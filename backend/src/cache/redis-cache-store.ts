@@ -0,0 +1,19 @@
+import { withRedis } from '../redis-client';
+import { CacheStore } from './cache-store';
+
+/**
+ * Redis Cache Store
+ * Values are stored under `<prefix>:cache:<key>` with a native Redis expiry.
+ */
+export class RedisCacheStore implements CacheStore {
+  constructor(private readonly keyPrefix: string = 'wikidai') {}
+
+  async get(key: string): Promise<string | undefined> {
+    const value = await withRedis((redis) => redis.get(`${this.keyPrefix}:cache:${key}`));
+    return value ?? undefined;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await withRedis((redis) => redis.set(`${this.keyPrefix}:cache:${key}`, value, { EX: ttlSeconds }));
+  }
+}
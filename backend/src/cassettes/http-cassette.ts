@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  body?: string;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  contentType?: string;
+  body: string;
+}
+
+export interface Interaction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: Interaction[];
+}
+
+/**
+ * HTTP Cassette
+ *
+ * A fixture file of recorded request/response pairs. In record mode every
+ * interaction is appended and written to disk; in replay mode responses are
+ * served from the file and unrecorded requests fail.
+ *
+ * Identical requests are replayed in the order they were recorded; once all
+ * recordings of a request have been used, the last one is served again.
+ * Request headers are never stored (they may carry API keys).
+ */
+export class HttpCassette {
+  private interactions: Interaction[] = [];
+  private replayCursor = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly filePath: string,
+    readonly mode: CassetteMode
+  ) {
+    if (mode === 'replay') {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`Cassette "${name}" not found at ${filePath} (record it first with HTTP_CASSETTE_MODE=record)`);
+      }
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CassetteFile;
+      this.interactions = file.interactions;
+    }
+  }
+
+  /**
+   * Find the recorded response for a request (replay mode)
+   */
+  replay(request: RecordedRequest): RecordedResponse {
+    const key = requestKey(request);
+    const matches = this.interactions.filter((interaction) => requestKey(interaction.request) === key);
+
+    if (matches.length === 0) {
+      throw new Error(
+        `Unrecorded HTTP request in replay mode: ${request.method} ${request.url} (cassette "${this.name}")`
+      );
+    }
+
+    const index = this.replayCursor.get(key) ?? 0;
+    this.replayCursor.set(key, index + 1);
+    return matches[Math.min(index, matches.length - 1)].response;
+  }
+
+  /**
+   * Store an interaction and persist the cassette (record mode)
+   */
+  record(request: RecordedRequest, response: RecordedResponse): void {
+    this.interactions.push({ request, response });
+
+    const file: CassetteFile = { version: 1, interactions: this.interactions };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2) + '\n');
+  }
+}
+
+function requestKey(request: RecordedRequest): string {
+  return `${request.method.toUpperCase()} ${request.url}\n${request.body ?? ''}`;
+}
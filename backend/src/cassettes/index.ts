@@ -0,0 +1,164 @@
+/**
+ * Record/Replay of outbound HTTP traffic
+ *
+ * Patches global fetch (Nominatim, Open-Meteo, Gemini SDK) and the default axios
+ * adapter (Wikidata, Wikipedia) so every outbound request goes through the
+ * active cassette. With no active cassette, requests pass through untouched.
+ *
+ *   HTTP_CASSETTE_MODE=record npm run test:live   # hit the network, save fixtures
+ *   HTTP_CASSETTE_MODE=replay npm run test:live   # serve fixtures, fail on unrecorded requests
+ */
+
+import path from 'path';
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { config } from '../config';
+import { logger } from '../logging';
+import { CassetteMode, HttpCassette, RecordedRequest, RecordedResponse } from './http-cassette';
+
+export type { CassetteMode, Interaction, RecordedRequest, RecordedResponse } from './http-cassette';
+export { HttpCassette };
+
+let active: HttpCassette | null = null;
+let installed = false;
+
+/**
+ * Activate a cassette by name (file: <HTTP_CASSETTE_DIR>/<name>.json)
+ */
+export function useCassette(name: string, mode: CassetteMode): HttpCassette {
+  installHttpInterceptors();
+  const filePath = path.resolve(config.cassette.dir, `${name.replace(/[^\w.-]+/g, '_')}.json`);
+  active = new HttpCassette(name, filePath, mode);
+  logger.info('Cassette active', { cassette: name, mode, file: filePath });
+  return active;
+}
+
+/**
+ * Deactivate the current cassette; requests go to the network again
+ */
+export function ejectCassette(): void {
+  active = null;
+}
+
+/**
+ * Activate the cassette configured by HTTP_CASSETTE_MODE / HTTP_CASSETTE, if any
+ */
+export function useConfiguredCassette(name: string = config.cassette.name): HttpCassette | null {
+  const mode = config.cassette.mode;
+  if (mode !== 'record' && mode !== 'replay') {
+    return null;
+  }
+  return useCassette(name, mode);
+}
+
+/**
+ * Patch fetch and axios once per process
+ */
+function installHttpInterceptors(): void {
+  if (installed) {
+    return;
+  }
+  installed = true;
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    if (!active) {
+      return originalFetch(input, init);
+    }
+
+    const request: RecordedRequest = {
+      method: init?.method || (input instanceof Request ? input.method : 'GET'),
+      url: typeof input === 'string' ? input : input instanceof URL ? input.href : input.url,
+      body: typeof init?.body === 'string' ? init.body : undefined,
+    };
+
+    if (active.mode === 'replay') {
+      const recorded = active.replay(request);
+      return new Response(recorded.status === 204 ? null : recorded.body, {
+        status: recorded.status,
+        statusText: recorded.statusText,
+        headers: recorded.contentType ? { 'content-type': recorded.contentType } : {},
+      });
+    }
+
+    const cassette = active;
+    const response = await originalFetch(input, init);
+    cassette.record(request, {
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get('content-type') ?? undefined,
+      body: await response.clone().text(),
+    });
+    return response;
+  };
+
+  const originalAdapter = axios.getAdapter(axios.defaults.adapter);
+  const cassetteAdapter: AxiosAdapter = async (requestConfig) => {
+    if (!active) {
+      return originalAdapter(requestConfig);
+    }
+
+    const request: RecordedRequest = {
+      method: (requestConfig.method || 'get').toUpperCase(),
+      url: axios.getUri(requestConfig),
+      body: typeof requestConfig.data === 'string' ? requestConfig.data : undefined,
+    };
+
+    if (active.mode === 'replay') {
+      return settle(requestConfig, active.replay(request));
+    }
+
+    const cassette = active;
+    // Keep the raw body so replay goes through the same transformResponse as a live call
+    const rawConfig = { ...requestConfig, responseType: 'text' as const };
+    try {
+      const response = await originalAdapter(rawConfig);
+      cassette.record(request, toRecorded(response));
+      return { ...response, config: requestConfig };
+    } catch (error: any) {
+      if (error instanceof AxiosError && error.response) {
+        cassette.record(request, toRecorded(error.response));
+        error.config = requestConfig;
+      }
+      throw error;
+    }
+  };
+  axios.defaults.adapter = cassetteAdapter;
+}
+
+function toRecorded(response: AxiosResponse): RecordedResponse {
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    contentType: String(response.headers['content-type'] ?? '') || undefined,
+    body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data),
+  };
+}
+
+/**
+ * Resolve or reject a replayed axios response the way the real adapters do
+ */
+function settle(requestConfig: InternalAxiosRequestConfig, recorded: RecordedResponse): Promise<AxiosResponse> {
+  const response: AxiosResponse = {
+    data: recorded.body,
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.contentType ? { 'content-type': recorded.contentType } : {},
+    config: requestConfig,
+    request: {},
+  };
+
+  const validateStatus = requestConfig.validateStatus;
+  if (!validateStatus || validateStatus(response.status)) {
+    return Promise.resolve(response);
+  }
+
+  return Promise.reject(
+    new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      requestConfig,
+      response.request,
+      response
+    )
+  );
+}
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Source, SourceRef } from '../types';
+import { extractCitations } from './citations';
+import { SourceRegistry, formatSourceList, stripSourceList } from './source-registry';
+
+const rome: SourceRef = { type: 'wikipedia', title: 'Rome', url: 'https://en.wikipedia.org/wiki/Rome' };
+const paris: SourceRef = { type: 'wikipedia', title: 'Paris', url: 'https://en.wikipedia.org/wiki/Paris' };
+const q220: SourceRef = { type: 'wikidata_entity', title: 'Rome', url: 'https://www.wikidata.org/wiki/Q220' };
+
+function sources(...refs: SourceRef[]): Source[] {
+  const registry = new SourceRegistry();
+  registry.add('test', refs);
+  return registry.list();
+}
+
+/** Cited text and source IDs of each citation */
+function cited(answer: string, known: Source[]) {
+  return extractCitations(answer, known).map(({ text, sourceIds }) => [text, sourceIds.join(',')]);
+}
+
+describe('extractCitations', () => {
+  test('keeps a marker written after the full stop with its sentence', () => {
+    const answer = 'Rome is the capital of Italy. [S1] Paris is the capital of France [S2].';
+
+    assert.deepEqual(cited(answer, sources(rome, paris)), [
+      ['Rome is the capital of Italy. [S1]', 'S1'],
+      ['Paris is the capital of France [S2].', 'S2'],
+    ]);
+  });
+
+  test('splits on newlines and list items', () => {
+    const answer = 'Capitals:\n\n- Rome [S1]\n- Paris [S2]\n1. Both [S1, S2]';
+
+    assert.deepEqual(cited(answer, sources(rome, paris)), [
+      ['- Rome [S1]', 'S1'],
+      ['- Paris [S2]', 'S2'],
+      ['1. Both [S1, S2]', 'S1,S2'],
+    ]);
+  });
+
+  test('gives offsets into the answer', () => {
+    const answer = 'Intro.\n  Rome is old [S1].';
+    const [citation] = extractCitations(answer, sources(rome));
+
+    assert.equal(answer.slice(citation.start, citation.end), 'Rome is old [S1].');
+  });
+
+  test('reads adjacent markers and source URLs, and ignores unknown IDs', () => {
+    const answer = 'Rome [S1][S3]. See https://en.wikipedia.org/wiki/Paris for more. Unrelated [S9].';
+
+    assert.deepEqual(cited(answer, sources(rome, paris, q220)), [
+      ['Rome [S1][S3].', 'S1,S3'],
+      ['See https://en.wikipedia.org/wiki/Paris for more.', 'S2'],
+    ]);
+  });
+});
+
+describe('SourceRegistry', () => {
+  test('gives one ID to a URL reported by several agents', () => {
+    const registry = new SourceRegistry();
+
+    const first = registry.add('get_wikipedia_article', [rome, paris]);
+    const second = registry.add('search_wikipedia', [paris, rome, paris]);
+
+    assert.deepEqual(
+      first.map((source) => source.id),
+      ['S1', 'S2']
+    );
+    assert.deepEqual(
+      second.map((source) => source.id),
+      ['S2', 'S1']
+    );
+    assert.equal(registry.list().length, 2);
+    assert.deepEqual(registry.list()[0].agents, ['get_wikipedia_article', 'search_wikipedia']);
+  });
+
+  test('continues the numbering of the sources it starts from, without changing them', () => {
+    const saved = sources(rome);
+    const registry = new SourceRegistry(saved);
+
+    assert.equal(registry.add('lookup', [q220])[0].id, 'S2');
+    registry.add('lookup', [rome]);
+    assert.deepEqual(saved[0].agents, ['test']);
+  });
+
+  test('appends a source list that can be stripped again', () => {
+    const list = formatSourceList(sources({ ...rome, attribution: 'CC BY-SA 4.0' }));
+
+    assert.equal(list, '\n\nSources (cite as [S#]):\n[S1] Rome - https://en.wikipedia.org/wiki/Rome (CC BY-SA 4.0)');
+    assert.equal(formatSourceList([]), '');
+    assert.equal(stripSourceList(`Rome is old.${list}`), 'Rome is old.');
+    assert.equal(stripSourceList('Rome is old.'), 'Rome is old.');
+  });
+});
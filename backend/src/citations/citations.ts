@@ -0,0 +1,64 @@
+import { Citation, Source } from '../types';
+
+/** Citation markers such as [S1], [S1, S3] or [S2][S4] */
+const MARKER = /\[(S\d+(?:\s*,\s*S\d+)*)\]/g;
+
+/**
+ * Map answer sentences to the sources they cite, through [S#] markers
+ * or source URLs written in the sentence. Markers for unknown IDs are ignored.
+ */
+export function extractCitations(answer: string, sources: Source[]): Citation[] {
+  const known = new Set(sources.map((source) => source.id));
+  const citations: Citation[] = [];
+
+  for (const { text, start } of splitSentences(answer)) {
+    const ids = new Set<string>();
+
+    for (const match of text.matchAll(MARKER)) {
+      match[1]
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => known.has(id))
+        .forEach((id) => ids.add(id));
+    }
+    for (const source of sources) {
+      if (text.includes(source.url)) {
+        ids.add(source.id);
+      }
+    }
+
+    if (ids.size > 0) {
+      citations.push({ text, start, end: start + text.length, sourceIds: [...ids] });
+    }
+  }
+
+  return citations;
+}
+
+/**
+ * Sentences and list items of a Markdown answer, with their offsets.
+ * A marker right after the full stop ("... in 1867. [S2]") stays with its sentence,
+ * and the number of an ordered list item ("1. ") does not end one.
+ */
+function splitSentences(answer: string): Array<{ text: string; start: number }> {
+  const sentences: Array<{ text: string; start: number }> = [];
+  const boundary = /(?<=[.!?])(?<!^[ \t]*\d+\.)(?:\s*\[S\d+(?:\s*,\s*S\d+)*\])*(?=\s+[^\s[])|\n+/gm;
+  let start = 0;
+
+  const push = (end: number) => {
+    const raw = answer.slice(start, end);
+    const text = raw.trim();
+    if (text) {
+      sentences.push({ text, start: start + raw.indexOf(text) });
+    }
+  };
+
+  for (const match of answer.matchAll(boundary)) {
+    const end = match.index! + match[0].length;
+    push(end);
+    start = end;
+  }
+  push(answer.length);
+
+  return sentences;
+}
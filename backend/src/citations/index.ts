@@ -0,0 +1,13 @@
+/**
+ * Source collection and citation mapping
+ */
+
+export { SourceRegistry, formatSourceList, stripSourceList } from './source-registry';
+export { extractCitations } from './citations';
+export {
+  wikidataEntitySource,
+  wikipediaSource,
+  OSM_ATTRIBUTION,
+  OPEN_METEO_ATTRIBUTION,
+  WIKIPEDIA_ATTRIBUTION,
+} from './source-refs';
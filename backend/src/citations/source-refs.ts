@@ -0,0 +1,31 @@
+import { SourceRef } from '../types';
+
+export const OSM_ATTRIBUTION = '© OpenStreetMap contributors, ODbL 1.0';
+export const OPEN_METEO_ATTRIBUTION = 'Weather data by Open-Meteo.com, CC BY 4.0';
+export const WIKIPEDIA_ATTRIBUTION = 'Wikipedia, CC BY-SA 4.0';
+
+/**
+ * Wikidata page of an item (Q###) or property (P###)
+ */
+export function wikidataEntitySource(id: string, label?: string): SourceRef {
+  const page = id.startsWith('P') ? `Property:${id}` : id;
+  return {
+    type: 'wikidata_entity',
+    title: label && label !== id ? `${label} (${id}) - Wikidata` : `${id} - Wikidata`,
+    url: `https://www.wikidata.org/wiki/${page}`,
+    attribution: 'Wikidata, CC0',
+  };
+}
+
+/**
+ * Wikipedia article (optionally a section) in a given edition
+ */
+export function wikipediaSource(language: string, title: string, url?: string, section?: string): SourceRef {
+  const page = url || `https://${language}.wikipedia.org/wiki/${encodeURIComponent(title.replace(/ /g, '_'))}`;
+  return {
+    type: 'wikipedia',
+    title: `${title}${section ? ` § ${section}` : ''} - Wikipedia (${language})`,
+    url: section ? `${page}#${encodeURIComponent(section.replace(/ /g, '_'))}` : page,
+    attribution: WIKIPEDIA_ATTRIBUTION,
+  };
+}
@@ -0,0 +1,68 @@
+import { Source, SourceRef } from '../types';
+
+const SOURCE_LIST_HEADING = '\n\nSources (cite as [S#]):\n';
+
+/**
+ * Sources collected during one query, numbered S1, S2... in order of first appearance.
+ * The same URL reported by several agents keeps a single ID.
+ */
+export class SourceRegistry {
+  private sources: Source[];
+  private byUrl = new Map<string, Source>();
+
+  constructor(initial: Source[] = []) {
+    this.sources = initial.map((source) => ({ ...source, agents: [...source.agents] }));
+    this.sources.forEach((source) => this.byUrl.set(source.url, source));
+  }
+
+  /**
+   * Register the sources of one agent result, returning them with their IDs
+   */
+  add(agent: string, refs: SourceRef[]): Source[] {
+    const added: Source[] = [];
+
+    for (const ref of refs) {
+      let source = this.byUrl.get(ref.url);
+      if (!source) {
+        source = { ...ref, id: `S${this.sources.length + 1}`, agents: [] };
+        this.sources.push(source);
+        this.byUrl.set(ref.url, source);
+      }
+      if (!source.agents.includes(agent)) {
+        source.agents.push(agent);
+      }
+      if (!added.includes(source)) {
+        added.push(source);
+      }
+    }
+
+    return added;
+  }
+
+  list(): Source[] {
+    return this.sources;
+  }
+}
+
+/**
+ * Source list appended to a function result, so the model knows which marker to cite
+ */
+export function formatSourceList(sources: Source[]): string {
+  if (sources.length === 0) {
+    return '';
+  }
+
+  const lines = sources.map((source) => {
+    const attribution = source.attribution ? ` (${source.attribution})` : '';
+    return `[${source.id}] ${source.title} - ${source.url}${attribution}`;
+  });
+  return `${SOURCE_LIST_HEADING}${lines.join('\n')}`;
+}
+
+/**
+ * Function result without the source list appended by formatSourceList
+ */
+export function stripSourceList(result: string): string {
+  const start = result.lastIndexOf(SOURCE_LIST_HEADING);
+  return start === -1 ? result : result.slice(0, start);
+}
@@ -1,15 +1,190 @@
 import dotenv from 'dotenv';
+import { GROUNDING_MODES } from './grounding';
 
 dotenv.config();
 
+/**
+ * Parse a comma-separated environment variable into a list
+ */
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a JSON object from an environment variable (empty object when unset or invalid)
+ */
+function parseJsonObject(name: string): Record<string, any> {
+  const value = process.env[name];
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // reported below
+  }
+  console.warn(`⚠️  ${name} is not a JSON object, ignoring it`);
+  return {};
+}
+
+/**
+ * Read an environment variable that takes one of a fixed set of values (the default when unset or unknown)
+ */
+function parseChoice<T extends string>(name: string, choices: readonly T[], fallback: T): T {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const choice = choices.find((candidate) => candidate === value);
+  if (choice) return choice;
+  console.warn(`⚠️  ${name}=${value} is not one of ${choices.join(', ')}, using ${fallback}`);
+  return fallback;
+}
+
 export const config = {
   geminiApiKey: process.env.GEMINI_API_KEY || '',
   redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+  /** Bound on connecting and on each Redis call; past it the caller gets an error (or falls back) */
+  redisTimeoutMs: parseInt(process.env.REDIS_TIMEOUT_MS || '2000', 10),
+  /** Reconnection attempts before a Redis connection gives up (the next call starts over) */
+  redisMaxReconnects: parseInt(process.env.REDIS_MAX_RECONNECTS || '3', 10),
   port: parseInt(process.env.PORT || '3000', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
+  llm: {
+    /** Model backend: 'gemini' (default), 'openai' (any OpenAI-compatible server) or 'scripted' */
+    provider: process.env.LLM_PROVIDER || 'gemini',
+    geminiModel: process.env.GEMINI_MODEL || 'gemini-2.0-flash-thinking-exp-01-21',
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:8080/v1',
+    openaiModel: process.env.OPENAI_MODEL || 'local-model',
+    openaiApiKey: process.env.OPENAI_API_KEY || '',
+    /** JSON file with scripted turns for the 'scripted' provider */
+    scriptFile: process.env.LLM_SCRIPT_FILE || '',
+    /**
+     * USD per million tokens by model name prefix, merged over the built-in prices, e.g.
+     * {"gemini-2.5-pro": {"input": 1.25, "output": 10, "cachedInput": 0.31}}
+     */
+    priceTable: parseJsonObject('LLM_PRICE_TABLE'),
+  },
+  logging: {
+    /** Minimum level: debug, info (default), warn or error */
+    level: process.env.LOG_LEVEL || 'info',
+    /** 'json' (one object per line, default in production) or 'pretty' */
+    format: process.env.LOG_FORMAT || (process.env.NODE_ENV === 'production' ? 'json' : 'pretty'),
+    /** What to mask: 'secrets' (API keys, default) and/or 'user_text' (questions, answers, SPARQL) */
+    redact: parseList(process.env.LOG_REDACT ?? 'secrets'),
+  },
+  /** Conversation storage backend: 'memory' (default) or 'redis' */
+  conversationStore: process.env.CONVERSATION_STORE || 'memory',
+  /** Maximum body size of POST /api/conversations/import (exports carry full result tables) */
+  conversationImportLimit: process.env.CONVERSATION_IMPORT_LIMIT || '10mb',
+  cache: {
+    /** Agent response cache backend: 'memory' (default), 'redis' or 'none' */
+    store: process.env.CACHE_STORE || 'memory',
+    /** TTL per agent in seconds (0 disables caching for that agent) */
+    ttlSeconds: {
+      nominatim: parseInt(process.env.CACHE_TTL_NOMINATIM || '259200', 10), // 72 hours
+      openmeteo: parseInt(process.env.CACHE_TTL_OPENMETEO || '900', 10), // 15 minutes
+      wikidata: parseInt(process.env.CACHE_TTL_WIKIDATA || '21600', 10), // 6 hours
+      wikipedia: parseInt(process.env.CACHE_TTL_WIKIPEDIA || '86400', 10), // 24 hours
+      duckduckgo: parseInt(process.env.CACHE_TTL_DUCKDUCKGO || '3600', 10), // 1 hour
+      wikidata_search: parseInt(process.env.CACHE_TTL_WIKIDATA_SEARCH || '21600', 10), // 6 hours
+      wikidata_entity: parseInt(process.env.CACHE_TTL_WIKIDATA_ENTITY || '21600', 10), // 6 hours
+      wikipedia_search: parseInt(process.env.CACHE_TTL_WIKIPEDIA_SEARCH || '3600', 10), // 1 hour
+      wikipedia_section: parseInt(process.env.CACHE_TTL_WIKIPEDIA_SECTION || '86400', 10), // 24 hours
+    } as Record<string, number>,
+  },
+  /** Rate limiter coordination: 'memory' (per process, default) or 'redis' (all replicas) */
+  rateLimitStore: process.env.RATE_LIMIT_STORE || 'memory',
+  nominatim: {
+    /** OSM usage policy: at most 1 request per second */
+    rateLimitMax: parseInt(process.env.NOMINATIM_RATE_LIMIT_MAX || '1', 10),
+    rateLimitDurationMs: parseInt(process.env.NOMINATIM_RATE_LIMIT_DURATION || '1000', 10),
+  },
+  cassette: {
+    /** Outbound HTTP record/replay: 'off' (default), 'record' or 'replay' */
+    mode: process.env.HTTP_CASSETTE_MODE || 'off',
+    dir: process.env.HTTP_CASSETTE_DIR || 'fixtures/cassettes',
+    name: process.env.HTTP_CASSETTE || 'default',
+  },
+  wikidata: {
+    /** MediaWiki action API (entity search and entity data) */
+    apiUrl: process.env.WIKIDATA_API_ENDPOINT || 'https://www.wikidata.org/w/api.php',
+    /** Special:EntityData base URL (entity JSON at <url>/Q42.json) */
+    entityDataUrl: process.env.WIKIDATA_ENTITY_DATA_ENDPOINT || 'https://www.wikidata.org/wiki/Special:EntityData',
+  },
+  wikipedia: {
+    /** REST API base URL; {lang} is replaced by the edition's language code */
+    apiUrl: process.env.WIKIPEDIA_API_ENDPOINT || 'https://{lang}.wikipedia.org/api/rest_v1',
+    /** MediaWiki action API (search, sections, infobox); {lang} as above */
+    actionApiUrl: process.env.WIKIPEDIA_ACTION_API_ENDPOINT || 'https://{lang}.wikipedia.org/w/api.php',
+    /** Edition used when neither the model nor the conversation names a language */
+    defaultLanguage: process.env.WIKIPEDIA_DEFAULT_LANGUAGE || 'en',
+    /** Editions tried in order when the article is missing in the requested one */
+    fallbackLanguages: parseList(process.env.WIKIPEDIA_FALLBACK_LANGUAGES || 'en'),
+  },
+  sparql: {
+    /** SERVICE IRIs a query may call (defaults to the Wikidata Query Service built-ins) */
+    allowedServices: parseList(
+      process.env.SPARQL_ALLOWED_SERVICES ||
+        'http://wikiba.se/ontology#label,http://wikiba.se/ontology#around,' +
+          'http://wikiba.se/ontology#box,http://wikiba.se/ontology#mwapi,http://www.bigdata.com/rdf#sample'
+    ),
+    /** LIMIT added to queries without one */
+    defaultLimit: parseInt(process.env.SPARQL_DEFAULT_LIMIT || '100', 10),
+    /** Larger LIMITs are lowered to this value */
+    maxLimit: parseInt(process.env.SPARQL_MAX_LIMIT || '1000', 10),
+  },
+  grounding: {
+    /** Check of the final answer against agent results: 'off', 'report' (default) or 'strict' (revise) */
+    mode: parseChoice('GROUNDING_MODE', GROUNDING_MODES, 'report'),
+  },
+  tracing: {
+    /** Query traces kept in memory for GET /api/traces (0 keeps none) */
+    bufferSize: parseInt(process.env.TRACE_BUFFER_SIZE || '200', 10),
+    /** service.name of OTLP exports */
+    serviceName: process.env.OTEL_SERVICE_NAME || 'wikidai-backend',
+  },
+  duckduckgo: {
+    /** Instant Answer API base URL (point at a local stub for offline use) */
+    baseUrl: process.env.DUCKDUCKGO_API_ENDPOINT || 'https://api.duckduckgo.com',
+  },
+  agents: {
+    /** Function names to expose (empty = all registered agents) */
+    enabled: parseList(process.env.ENABLED_AGENTS),
+    /** Function names to hide from the model */
+    disabled: parseList(process.env.DISABLED_AGENTS),
+    /** Extra agent modules to load (paths relative to the working directory, or package names) */
+    modules: parseList(process.env.AGENT_MODULES),
+  },
+  auth: {
+    /**
+     * 'required': every /api route needs an API key or a bearer JWT (default when either is configured);
+     * 'off': no authentication, every caller is an anonymous admin
+     */
+    mode:
+      process.env.AUTH_MODE ||
+      (process.env.API_KEYS || process.env.JWT_SECRET || process.env.JWT_PUBLIC_KEY_FILE ? 'required' : 'off'),
+    /** Static API keys: key:principal or key:principal:admin, comma-separated */
+    apiKeys: parseList(process.env.API_KEYS),
+    jwt: {
+      /** Shared secret for HS256/384/512 tokens */
+      secret: process.env.JWT_SECRET || '',
+      /** PEM public key for RS256/384/512 and ES256/384 tokens */
+      publicKeyFile: process.env.JWT_PUBLIC_KEY_FILE || '',
+      /** Required iss / aud claims (unchecked when empty) */
+      issuer: process.env.JWT_ISSUER || '',
+      audience: process.env.JWT_AUDIENCE || '',
+      /** Refuse tokens without an exp claim (JWT_REQUIRE_EXP=false accepts them: they never expire) */
+      requireExp: process.env.JWT_REQUIRE_EXP !== 'false',
+      /** Claim holding the role ("admin" grants access to every conversation) */
+      roleClaim: process.env.JWT_ROLE_CLAIM || 'role',
+    },
+  },
+  /** Origins allowed by CORS ('*' for any) */
+  corsOrigins: parseList(process.env.CORS_ORIGINS || '*'),
 };
 
 // Validate required config
-if (!config.geminiApiKey && config.nodeEnv !== 'test') {
+if (!config.geminiApiKey && config.llm.provider === 'gemini' && config.nodeEnv !== 'test') {
   console.warn('⚠️  GEMINI_API_KEY not set. Please create .env file from .env.example');
 }
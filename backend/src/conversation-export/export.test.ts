@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Conversation, ConversationManager } from '../conversation-manager';
+import { MemoryConversationStore, serializeConversation } from '../storage';
+import { QueryResponse } from '../types';
+import { exportConversationJson, parseConversationExport } from './json-export';
+import { exportConversationJsonl } from './jsonl-export';
+import { exportConversationMarkdown } from './markdown-export';
+
+const SPARQL = 'SELECT ?birthDate WHERE { wd:Q42 wdt:P569 ?birthDate }';
+
+const queryResponse: QueryResponse = {
+  query: 'When was Douglas Adams born?',
+  thoughts: [],
+  agentCalls: [
+    {
+      agent: 'query_wikidata',
+      params: { sparql_query: SPARQL },
+      response: 'Found 1 result(s):\n\n1. birthDate: 1952-03-11T00:00:00Z',
+    },
+  ],
+  answer: 'Douglas Adams was born on 11 March 1952 [S1].',
+  latencyMs: 1200,
+  sources: [
+    {
+      id: 'S1',
+      type: 'wikidata_query',
+      title: 'SPARQL query - Wikidata Query Service',
+      url: 'https://query.wikidata.org/',
+      agents: ['query_wikidata'],
+    },
+  ],
+  citations: [],
+};
+
+function conversation(): Conversation {
+  return {
+    id: 'c1',
+    title: 'Douglas Adams',
+    messages: [
+      { id: 'm1', role: 'user', content: queryResponse.query, timestamp: new Date('2025-01-01T10:00:00Z') },
+      {
+        id: 'm2',
+        role: 'assistant',
+        content: queryResponse.answer,
+        timestamp: new Date('2025-01-01T10:00:02Z'),
+        queryResponse,
+      },
+    ],
+    createdAt: new Date('2025-01-01T10:00:00Z'),
+    updatedAt: new Date('2025-01-01T10:00:02Z'),
+    metadata: { totalQueries: 1, totalLatencyMs: 1200, agentsUsed: new Set(['query_wikidata']) },
+  };
+}
+
+test('Markdown export puts the SPARQL of query_wikidata calls in a collapsible block', () => {
+  const markdown = exportConversationMarkdown(conversation());
+
+  assert.ok(markdown.includes(`<summary>SPARQL query</summary>\n\n\`\`\`sparql\n${SPARQL}\n\`\`\``), markdown);
+});
+
+test('Markdown export fences SPARQL with more backticks than the query or answer contain', () => {
+  const c = conversation();
+  const sparql = 'SELECT ?item WHERE { ?item rdfs:label "```" }';
+  c.messages[1] = {
+    ...c.messages[1],
+    content: 'Items labelled ```` exist.',
+    queryResponse: {
+      ...queryResponse,
+      agentCalls: [{ ...queryResponse.agentCalls[0], params: { sparql_query: sparql } }],
+    },
+  };
+
+  const markdown = exportConversationMarkdown(c);
+
+  assert.ok(markdown.includes(`\`\`\`\`\`sparql\n${sparql}\n\`\`\`\`\`\n`), markdown);
+});
+
+test('Markdown export escapes the text and URL of source links', () => {
+  const c = conversation();
+  const source = {
+    ...queryResponse.sources[0],
+    title: 'Mercury [planet] *draft*',
+    url: 'https://en.wikipedia.org/wiki/Mercury_(planet)',
+  };
+  c.messages[1] = { ...c.messages[1], queryResponse: { ...queryResponse, sources: [source] } };
+
+  const markdown = exportConversationMarkdown(c);
+
+  assert.ok(
+    markdown.includes('- [S1] [Mercury \\[planet\\] \\*draft\\*](https://en.wikipedia.org/wiki/Mercury_%28planet%29)'),
+    markdown
+  );
+});
+
+test('JSONL export lists the SPARQL of each answer', () => {
+  const [record] = exportConversationJsonl(conversation()).trim().split('\n').map((line) => JSON.parse(line));
+
+  assert.deepEqual(record.sparql, [SPARQL]);
+  assert.deepEqual(record.agents, ['query_wikidata']);
+});
+
+/**
+ * JSON export of the test conversation as an uploaded body, changed by `edit`
+ */
+function uploadedExport(edit: (messages: any[]) => void = () => undefined): any {
+  const body = JSON.parse(JSON.stringify(exportConversationJson(conversation())));
+  edit(body.conversation.messages);
+  return body;
+}
+
+test('a JSON export imports back unchanged', async () => {
+  const manager = new ConversationManager(100, new MemoryConversationStore());
+  const imported = await manager.importConversation(parseConversationExport(uploadedExport()), 'alice');
+
+  const { id, ownerId, updatedAt, ...copy } = serializeConversation(imported);
+  const { id: originalId, updatedAt: originalUpdatedAt, ...original } = serializeConversation(conversation());
+  // Compared as stored, i.e. as JSON
+  assert.deepEqual(JSON.parse(JSON.stringify(copy)), JSON.parse(JSON.stringify(original)));
+  assert.notEqual(id, originalId);
+  assert.equal(ownerId, 'alice');
+});
+
+test('rejects an export with a variant dated "garbage"', () => {
+  const body = uploadedExport((messages) => {
+    messages[1].variants = [{ content: 'Older answer', timestamp: 'garbage' }];
+  });
+
+  assert.throws(() => parseConversationExport(body), /messages\[1\]\.variants\[0\]\.timestamp is not a valid date/);
+});
+
+test('rejects an empty query response', () => {
+  const body = uploadedExport((messages) => {
+    messages[1].queryResponse = {};
+  });
+
+  assert.throws(() => parseConversationExport(body), /messages\[1\]\.queryResponse\.answer must be a string/);
+});
+
+test('validates messages replaced by an edit', () => {
+  const body = uploadedExport((messages) => {
+    messages[0].variants = [
+      {
+        content: 'Earlier question',
+        timestamp: '2025-01-01T09:00:00Z',
+        replacedMessages: [{ ...messages[1], queryResponse: { ...messages[1].queryResponse, agentCalls: 'none' } }],
+      },
+    ];
+  });
+
+  assert.throws(
+    () => parseConversationExport(body),
+    /messages\[0\]\.variants\[0\]\.replacedMessages\[0\]\.queryResponse\.agentCalls must be an array/
+  );
+});
@@ -0,0 +1,9 @@
+/**
+ * Conversation export (JSON, Markdown, JSONL) and import
+ */
+
+export { exportConversationJson, parseConversationExport, EXPORT_FORMAT, EXPORT_VERSION } from './json-export';
+export type { ConversationExport } from './json-export';
+export { exportConversationMarkdown } from './markdown-export';
+export { exportConversationJsonl } from './jsonl-export';
+export type { EvalRecord } from './jsonl-export';
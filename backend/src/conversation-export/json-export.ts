@@ -0,0 +1,236 @@
+import type { Conversation } from '../conversation-manager';
+import { optionalLanguage } from '../agents';
+import { SerializedConversation, SerializedMessage, SerializedVariant, serializeConversation } from '../storage';
+import { AgentCallRecord, QueryResponse, QueryUsage, Source, TokenUsage } from '../types';
+
+export const EXPORT_FORMAT = 'wikidai.conversation';
+export const EXPORT_VERSION = 1;
+
+/**
+ * Versioned JSON export of a conversation (re-importable)
+ */
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Paused workflows are not exported: they cannot be resumed elsewhere. The owner is set on import. */
+  conversation: Omit<SerializedConversation, 'pendingClarification' | 'ownerId'>;
+}
+
+export function exportConversationJson(conversation: Conversation): ConversationExport {
+  const { pendingClarification, ownerId, ...data } = serializeConversation(conversation);
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: data,
+  };
+}
+
+/**
+ * Validate an uploaded export and return the conversation it contains.
+ * Throws with a message suitable for a 400 response.
+ */
+export function parseConversationExport(body: any): SerializedConversation {
+  if (!body || typeof body !== 'object' || body.format !== EXPORT_FORMAT) {
+    throw new Error(`Expected a "${EXPORT_FORMAT}" export`);
+  }
+  if (!Number.isInteger(body.version) || body.version < 1 || body.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${body.version} (this server reads up to ${EXPORT_VERSION})`);
+  }
+
+  const data = body.conversation;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.messages)) {
+    throw new Error('conversation.messages must be an array');
+  }
+  if (data.title !== undefined && typeof data.title !== 'string') {
+    throw new Error('conversation.title must be a string');
+  }
+
+  const messages = data.messages.map((msg: any, i: number) => parseMessage(msg, `conversation.messages[${i}]`));
+
+  const now = new Date().toISOString();
+  return {
+    id: String(data.id ?? ''),
+    title: data.title ?? '',
+    language: data.language ? optionalLanguage(data, 'language') : undefined,
+    messages,
+    createdAt: Number.isNaN(Date.parse(data.createdAt)) ? now : data.createdAt,
+    updatedAt: Number.isNaN(Date.parse(data.updatedAt)) ? now : data.updatedAt,
+    metadata: parseMetadata(data.metadata),
+  };
+}
+
+/**
+ * Messages, their variants and query responses are rebuilt field by field, so values
+ * the server later reads (dates, agent calls, usage) cannot make it fail after import
+ */
+function parseMessage(msg: any, path: string): SerializedMessage {
+  if (!isObject(msg) || (msg.role !== 'user' && msg.role !== 'assistant') || typeof msg.content !== 'string') {
+    throw new Error(`${path} needs a role ("user" or "assistant") and a string content`);
+  }
+  if (typeof msg.id !== 'string' || !msg.id) {
+    throw new Error(`${path}.id must be a non-empty string`);
+  }
+
+  return {
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    timestamp: parseDate(msg.timestamp, `${path}.timestamp`),
+    queryResponse: optional(msg.queryResponse, (value) => parseQueryResponse(value, `${path}.queryResponse`)),
+    variants: optional(msg.variants, (value) =>
+      parseArray(value, `${path}.variants`, (variant, i) => parseVariant(variant, `${path}.variants[${i}]`))
+    ),
+  };
+}
+
+function parseVariant(variant: any, path: string): SerializedVariant {
+  if (!isObject(variant) || typeof variant.content !== 'string') {
+    throw new Error(`${path} needs a string content`);
+  }
+
+  return {
+    content: variant.content,
+    timestamp: parseDate(variant.timestamp, `${path}.timestamp`),
+    queryResponse: optional(variant.queryResponse, (value) => parseQueryResponse(value, `${path}.queryResponse`)),
+    replacedMessages: optional(variant.replacedMessages, (value) =>
+      parseArray(value, `${path}.replacedMessages`, (msg, i) => parseMessage(msg, `${path}.replacedMessages[${i}]`))
+    ),
+  };
+}
+
+/**
+ * Execution traces are not imported: they are debugging data of the original server
+ */
+function parseQueryResponse(response: any, path: string): QueryResponse {
+  if (!isObject(response)) {
+    throw new Error(`${path} must be an object`);
+  }
+  if (typeof response.answer !== 'string') {
+    throw new Error(`${path}.answer must be a string`);
+  }
+  if (!isNonNegative(response.latencyMs)) {
+    throw new Error(`${path}.latencyMs must be a non-negative number`);
+  }
+
+  const { trace, ...rest } = response;
+  return {
+    ...rest,
+    query: typeof response.query === 'string' ? response.query : '',
+    thoughts: parseArray(response.thoughts ?? [], `${path}.thoughts`, (thought, i) =>
+      parseString(thought, `${path}.thoughts[${i}]`)
+    ),
+    agentCalls: parseArray(response.agentCalls, `${path}.agentCalls`, (call, i) =>
+      parseAgentCall(call, `${path}.agentCalls[${i}]`)
+    ),
+    sources: parseArray(response.sources ?? [], `${path}.sources`, (source, i) =>
+      parseSource(source, `${path}.sources[${i}]`)
+    ),
+    citations: parseArray(response.citations ?? [], `${path}.citations`, (citation, i) => {
+      if (!isObject(citation) || typeof citation.text !== 'string' || !Array.isArray(citation.sourceIds)) {
+        throw new Error(`${path}.citations[${i}] needs a text and sourceIds`);
+      }
+      return citation;
+    }),
+    usage: optional(response.usage, (usage) => parseUsage(usage, `${path}.usage`)),
+  };
+}
+
+function parseAgentCall(call: any, path: string): AgentCallRecord {
+  if (!isObject(call) || typeof call.agent !== 'string') {
+    throw new Error(`${path}.agent must be a string`);
+  }
+  if (call.params !== undefined && !isObject(call.params)) {
+    throw new Error(`${path}.params must be an object`);
+  }
+  if (call.table !== undefined && (!isObject(call.table) || !Array.isArray(call.table.rows))) {
+    throw new Error(`${path}.table must have rows`);
+  }
+  return { ...call, params: call.params ?? {} };
+}
+
+function parseSource(source: any, path: string): Source {
+  if (!isObject(source) || ['id', 'title', 'url'].some((field) => typeof source[field] !== 'string')) {
+    throw new Error(`${path} needs a string id, title and url`);
+  }
+  return { ...source, agents: Array.isArray(source.agents) ? source.agents : [] };
+}
+
+function parseUsage(usage: any, path: string): QueryUsage {
+  if (!isObject(usage) || !isObject(usage.total)) {
+    throw new Error(`${path}.total must be an object`);
+  }
+  const invalid = invalidTokenField(usage.total);
+  if (invalid) {
+    throw new Error(`${path}.total.${invalid} must be a non-negative number`);
+  }
+  if (usage.costUsd !== undefined && !isNonNegative(usage.costUsd)) {
+    throw new Error(`${path}.costUsd must be a non-negative number`);
+  }
+  return { ...usage, model: String(usage.model ?? ''), turns: Array.isArray(usage.turns) ? usage.turns : [] };
+}
+
+/**
+ * Name of the first TokenUsage count that is missing or not a number
+ */
+function invalidTokenField(tokens: any): keyof TokenUsage | undefined {
+  const fields: Array<keyof TokenUsage> = [
+    'promptTokens',
+    'completionTokens',
+    'thoughtTokens',
+    'cachedTokens',
+    'totalTokens',
+  ];
+  return fields.find((field) => !isNonNegative(tokens[field]));
+}
+
+/**
+ * Metadata totals are kept only when well-formed; otherwise they are rebuilt from the messages
+ */
+function parseMetadata(metadata: any): SerializedConversation['metadata'] {
+  const valid =
+    isObject(metadata) &&
+    isNonNegative(metadata.totalQueries) &&
+    isNonNegative(metadata.totalLatencyMs) &&
+    Array.isArray(metadata.agentsUsed) &&
+    metadata.agentsUsed.every((agent: any) => typeof agent === 'string') &&
+    (metadata.tokens === undefined || (isObject(metadata.tokens) && !invalidTokenField(metadata.tokens))) &&
+    (metadata.costUsd === undefined || isNonNegative(metadata.costUsd));
+
+  return valid ? metadata : undefined;
+}
+
+function parseDate(value: any, path: string): string {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    throw new Error(`${path} is not a valid date`);
+  }
+  return value;
+}
+
+function parseString(value: any, path: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${path} must be a string`);
+  }
+  return value;
+}
+
+function parseArray<T>(value: any, path: string, parseItem: (item: any, index: number) => T): T[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${path} must be an array`);
+  }
+  return value.map(parseItem);
+}
+
+function optional<T>(value: any, parse: (value: any) => T): T | undefined {
+  return value === undefined || value === null ? undefined : parse(value);
+}
+
+function isObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNonNegative(value: any): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
@@ -0,0 +1,46 @@
+import type { Conversation } from '../conversation-manager';
+import { conversationTurns, sparqlQueries } from './turns';
+
+/**
+ * One answered question, as a line of an eval dataset
+ */
+export interface EvalRecord {
+  conversationId: string;
+  /** Position of the question in the conversation (1-based) */
+  turn: number;
+  question: string;
+  answer: string;
+  language?: string;
+  agents: string[];
+  sparql: string[];
+  sources: Array<{ id: string; url: string }>;
+  latencyMs?: number;
+  timestamp: string;
+}
+
+/**
+ * JSON Lines with one record per answered question (unanswered ones are skipped)
+ */
+export function exportConversationJsonl(conversation: Conversation): string {
+  const records: EvalRecord[] = [];
+
+  conversationTurns(conversation).forEach(({ question, answer }, i) => {
+    if (!question || !answer) return;
+    const response = answer.queryResponse;
+
+    records.push({
+      conversationId: conversation.id,
+      turn: i + 1,
+      question: question.content,
+      answer: answer.content,
+      language: conversation.language,
+      agents: [...new Set((response?.agentCalls ?? []).map((call) => call.agent))],
+      sparql: sparqlQueries(answer),
+      sources: (response?.sources ?? []).map(({ id, url }) => ({ id, url })),
+      latencyMs: response?.latencyMs,
+      timestamp: answer.timestamp.toISOString(),
+    });
+  });
+
+  return records.map((record) => JSON.stringify(record)).join('\n') + (records.length > 0 ? '\n' : '');
+}
@@ -0,0 +1,65 @@
+import type { Conversation } from '../conversation-manager';
+import { conversationTurns, sparqlQueries } from './turns';
+
+/**
+ * Readable Markdown transcript: each question with its answer,
+ * SPARQL queries in collapsible blocks and the cited sources
+ */
+export function exportConversationMarkdown(conversation: Conversation): string {
+  const lines: string[] = [`# ${conversation.title}`, ''];
+
+  lines.push(`- Created: ${conversation.createdAt.toISOString()}`);
+  if (conversation.language) {
+    lines.push(`- Language: ${conversation.language}`);
+  }
+  const agents = Array.from(conversation.metadata?.agentsUsed ?? []);
+  if (agents.length > 0) {
+    lines.push(`- Agents used: ${agents.join(', ')}`);
+  }
+
+  conversationTurns(conversation).forEach(({ question, answer }, i) => {
+    lines.push('', '---', '', `## ${i + 1}. ${question ? question.content.replace(/\s+/g, ' ') : '(no question)'}`, '');
+    lines.push(answer ? answer.content : '_No answer_');
+
+    sparqlQueries(answer).forEach((query, n, all) => {
+      const summary = all.length > 1 ? `SPARQL query ${n + 1}` : 'SPARQL query';
+      const fence = codeFence(query, answer?.content ?? '');
+      lines.push('', '<details>', `<summary>${summary}</summary>`, '');
+      lines.push(`${fence}sparql`, query.trim(), fence, '', '</details>');
+    });
+
+    const sources = answer?.queryResponse?.sources ?? [];
+    if (sources.length > 0) {
+      lines.push('', '**Sources**', '');
+      sources.forEach((source) => {
+        const attribution = source.attribution ? ` (${source.attribution})` : '';
+        lines.push(`- [${source.id}] [${escapeLinkText(source.title)}](${escapeLinkUrl(source.url)})${attribution}`);
+      });
+    }
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Backtick fence longer than any backtick run in the texts, so none of them can close it
+ */
+function codeFence(...texts: string[]): string {
+  const runs = texts.flatMap((text) => (text.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(2, ...runs) + 1);
+}
+
+/**
+ * Link text with the Markdown punctuation escaped
+ */
+function escapeLinkText(text: string): string {
+  return text.replace(/[\\`*_[\]<>]/g, '\\$&');
+}
+
+/**
+ * Link destination with the characters that would end it percent-encoded
+ */
+function escapeLinkUrl(url: string): string {
+  const percent = (char: string) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`;
+  return url.replace(/[ \t\r\n()<>\\]/g, percent);
+}
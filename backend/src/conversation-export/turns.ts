@@ -0,0 +1,39 @@
+import type { Conversation, ConversationMessage } from '../conversation-manager';
+
+/**
+ * A user question and the assistant reply that followed it
+ */
+export interface ConversationTurn {
+  question?: ConversationMessage;
+  answer?: ConversationMessage;
+}
+
+/**
+ * Group messages into question/answer turns (either side may be missing,
+ * e.g. a question whose query failed)
+ */
+export function conversationTurns(conversation: Conversation): ConversationTurn[] {
+  const turns: ConversationTurn[] = [];
+
+  for (const message of conversation.messages) {
+    const last = turns[turns.length - 1];
+    if (message.role === 'user') {
+      turns.push({ question: message });
+    } else if (last && !last.answer) {
+      last.answer = message;
+    } else {
+      turns.push({ answer: message });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * SPARQL queries the model sent to query_wikidata in one reply
+ */
+export function sparqlQueries(message?: ConversationMessage): string[] {
+  return (message?.queryResponse?.agentCalls ?? [])
+    .filter((call) => call.agent === 'query_wikidata' && typeof call.params?.sparql_query === 'string')
+    .map((call) => call.params.sparql_query as string);
+}
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ConversationManager } from './conversation-manager';
+import { MemoryConversationStore } from './storage';
+import { QueryResponse } from './types';
+
+function queryResponse(query: string, answer: string, totalTokens = 0, costUsd = 0): QueryResponse {
+  const usage = totalTokens
+    ? {
+        model: 'gemini-2.5-pro',
+        turns: [],
+        total: { promptTokens: totalTokens, completionTokens: 0, thoughtTokens: 0, cachedTokens: 0, totalTokens },
+        costUsd,
+      }
+    : undefined;
+  return { query, thoughts: [], agentCalls: [], answer, latencyMs: 100, sources: [], citations: [], usage };
+}
+
+async function conversationWithTwoTurns(manager: ConversationManager) {
+  const { id } = await manager.createConversation();
+  const first = await manager.addUserMessage(id, 'Who wrote Dune?');
+  await manager.addAssistantMessage(id, 'Frank Herbert.', queryResponse('Who wrote Dune?', 'Frank Herbert.'));
+  await manager.addUserMessage(id, 'When?');
+  await manager.addAssistantMessage(id, 'In 1965.', queryResponse('When?', 'In 1965.'));
+  return { id, first };
+}
+
+test('an edit stores the new question and its answer together', async () => {
+  const manager = new ConversationManager(100, new MemoryConversationStore());
+  const { id, first } = await conversationWithTwoTurns(manager);
+
+  const edited = 'Who wrote Neuromancer?';
+  const { question, answer } = await manager.editUserMessage(
+    id,
+    first.id,
+    edited,
+    'William Gibson.',
+    queryResponse(edited, 'William Gibson.')
+  );
+
+  const conversation = (await manager.getConversation(id))!;
+  assert.deepEqual(
+    conversation.messages.map((m) => m.content),
+    [edited, 'William Gibson.']
+  );
+  assert.equal(conversation.messages[1].id, answer.id);
+  assert.equal(question.variants?.[0].content, 'Who wrote Dune?');
+  assert.deepEqual(
+    question.variants?.[0].replacedMessages?.map((m) => m.content),
+    ['Frank Herbert.', 'When?', 'In 1965.']
+  );
+  assert.equal(conversation.metadata?.totalQueries, 3);
+});
+
+test('an edit of an unknown message changes nothing', async () => {
+  const manager = new ConversationManager(100, new MemoryConversationStore());
+  const { id } = await conversationWithTwoTurns(manager);
+
+  await assert.rejects(
+    manager.editUserMessage(id, 'missing', 'Edited', 'Answer', queryResponse('Edited', 'Answer')),
+    /User message missing not found/
+  );
+  assert.equal((await manager.getConversation(id))!.messages.length, 4);
+});
+
+test('conversation totals count every answer, replaced ones included', async () => {
+  const manager = new ConversationManager(100, new MemoryConversationStore());
+  const { id } = await manager.createConversation();
+  const question = await manager.addUserMessage(id, 'Who wrote Dune?');
+  const first = await manager.addAssistantMessage(
+    id,
+    'Herbert.',
+    queryResponse('Who wrote Dune?', 'Herbert.', 100, 0.01)
+  );
+
+  await manager.replaceAssistantMessage(
+    id,
+    first.id,
+    'Frank Herbert.',
+    queryResponse('Who wrote Dune?', 'Frank Herbert.', 200, 0.02)
+  );
+  const edited = 'Who wrote Neuromancer?';
+  const { answer } = await manager.editUserMessage(
+    id,
+    question.id,
+    edited,
+    'William Gibson.',
+    queryResponse(edited, 'William Gibson.', 400, 0.04)
+  );
+
+  const stats = (await manager.getStats(id))!;
+  assert.equal(stats.tokens.totalTokens, 700);
+  assert.equal(stats.costUsd, 0.07);
+  assert.deepEqual(stats.answers, [{ messageId: answer.id, question: edited, totalTokens: 400, costUsd: 0.04 }]);
+});
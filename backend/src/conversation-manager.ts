@@ -3,9 +3,19 @@
  *
  * Manages conversation sessions with persistent history.
  * Supports multiple concurrent conversations.
+ * Storage is delegated to a ConversationStore (in-memory or Redis).
  */
 
-import { QueryResponse } from './types';
+import { PendingClarification, QueryResponse, TokenUsage } from './types';
+import { addUsage, emptyUsage } from './usage';
+import { logger } from './logging';
+import {
+  ConversationStore,
+  SerializedConversation,
+  createConversationStore,
+  deserializeConversation,
+  serializeConversation,
+} from './storage';
 
 export interface ConversationMessage {
   id: string;
@@ -13,11 +23,28 @@ export interface ConversationMessage {
   content: string;
   timestamp: Date;
   queryResponse?: QueryResponse;
+  /** Earlier versions (oldest first), replaced by regenerating or editing the message */
+  variants?: MessageVariant[];
+}
+
+/**
+ * A replaced version of a message
+ */
+export interface MessageVariant {
+  content: string;
+  timestamp: Date;
+  queryResponse?: QueryResponse;
+  /** Edited user message: the messages that followed this version and were replaced */
+  replacedMessages?: ConversationMessage[];
 }
 
 export interface Conversation {
   id: string;
   title: string;
+  /** Preferred content language (e.g. "it"), default for Wikipedia lookups */
+  language?: string;
+  /** Principal that created the conversation (absent on conversations created before authentication) */
+  ownerId?: string;
   messages: ConversationMessage[];
   createdAt: Date;
   updatedAt: Date;
@@ -25,26 +52,40 @@ export interface Conversation {
     totalQueries: number;
     totalLatencyMs: number;
     agentsUsed: Set<string>;
+    /** Tokens of all answers (absent in conversations created before usage tracking) */
+    tokens?: TokenUsage;
+    /** Estimated cost of the answers whose model has a price */
+    costUsd?: number;
+  };
+  /** Set on branches: the conversation and message this one was forked from */
+  forkedFrom?: {
+    conversationId: string;
+    messageId: string;
   };
+  /** Workflow paused waiting for the user to pick a clarification option */
+  pendingClarification?: PendingClarification;
 }
 
 export class ConversationManager {
-  private conversations: Map<string, Conversation>;
+  private store: ConversationStore;
   private maxConversations: number;
 
-  constructor(maxConversations: number = 100) {
-    this.conversations = new Map();
+  constructor(maxConversations: number = 100, store: ConversationStore = createConversationStore()) {
+    this.store = store;
     this.maxConversations = maxConversations;
   }
 
   /**
    * Create a new conversation
+   * @param ownerId - Principal the conversation belongs to
    */
-  createConversation(title?: string): Conversation {
+  async createConversation(title?: string, language?: string, ownerId?: string): Promise<Conversation> {
     const id = this.generateId();
     const conversation: Conversation = {
       id,
-      title: title || `Conversation ${this.conversations.size + 1}`,
+      title: title || `Conversation ${(await this.store.count()) + 1}`,
+      language,
+      ownerId,
       messages: [],
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -55,42 +96,72 @@ export class ConversationManager {
       },
     };
 
-    this.conversations.set(id, conversation);
+    await this.store.save(conversation);
 
     // Cleanup old conversations if limit exceeded
-    if (this.conversations.size > this.maxConversations) {
-      this.cleanupOldConversations();
+    if ((await this.store.count()) > this.maxConversations) {
+      await this.cleanupOldConversations();
     }
 
-    console.log(`💬 Created conversation: ${id} - "${conversation.title}"`);
+    logger.info('Created conversation', { conversationId: id, title: conversation.title });
+    return conversation;
+  }
+
+  /**
+   * Recreate an exported conversation under a new ID, keeping its messages
+   * and metadata (rebuilt from the messages when missing). The import counts
+   * as an update, so cleanup does not drop it right away. The importer owns the copy.
+   */
+  async importConversation(data: SerializedConversation, ownerId?: string): Promise<Conversation> {
+    const conversation = deserializeConversation({ ...data, id: this.generateId(), ownerId });
+    conversation.updatedAt = new Date();
+    conversation.title = conversation.title || `Conversation ${(await this.store.count()) + 1}`;
+
+    if (!conversation.metadata) {
+      conversation.metadata = { totalQueries: 0, totalLatencyMs: 0, agentsUsed: new Set() };
+      conversation.messages.forEach((m) => m.queryResponse && this.recordResponse(conversation, m.queryResponse));
+    }
+
+    await this.store.save(conversation);
+
+    if ((await this.store.count()) > this.maxConversations) {
+      await this.cleanupOldConversations();
+    }
+
+    logger.info('Imported conversation', {
+      conversationId: conversation.id,
+      title: conversation.title,
+      messages: conversation.messages.length,
+    });
     return conversation;
   }
 
   /**
    * Get conversation by ID
    */
-  getConversation(id: string): Conversation | undefined {
-    return this.conversations.get(id);
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    return this.store.get(id);
   }
 
   /**
-   * List all conversations
+   * List conversations, all of them or those of one owner
    */
-  listConversations(): Conversation[] {
-    return Array.from(this.conversations.values()).sort(
-      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
-    );
+  async listConversations(ownerId?: string): Promise<Conversation[]> {
+    const conversations = await this.store.list();
+    return ownerId === undefined ? conversations : conversations.filter((c) => c.ownerId === ownerId);
   }
 
   /**
-   * Add user message to conversation
+   * Number of stored conversations
    */
-  addUserMessage(conversationId: string, content: string): ConversationMessage {
-    const conversation = this.conversations.get(conversationId);
-    if (!conversation) {
-      throw new Error(`Conversation ${conversationId} not found`);
-    }
+  async countConversations(): Promise<number> {
+    return this.store.count();
+  }
 
+  /**
+   * Add user message to conversation
+   */
+  async addUserMessage(conversationId: string, content: string): Promise<ConversationMessage> {
     const message: ConversationMessage = {
       id: this.generateId(),
       role: 'user',
@@ -98,30 +169,26 @@ export class ConversationManager {
       timestamp: new Date(),
     };
 
-    conversation.messages.push(message);
-    conversation.updatedAt = new Date();
-
-    // Auto-update title from first user message
-    if (conversation.messages.filter((m) => m.role === 'user').length === 1) {
-      conversation.title = this.generateTitle(content);
-    }
+    await this.updateConversation(conversationId, (conversation) => {
+      conversation.messages.push(message);
+      conversation.updatedAt = new Date();
 
+      // Auto-update title from first user message
+      if (conversation.messages.filter((m) => m.role === 'user').length === 1) {
+        conversation.title = this.generateTitle(content);
+      }
+    });
     return message;
   }
 
   /**
    * Add assistant response to conversation
    */
-  addAssistantMessage(
+  async addAssistantMessage(
     conversationId: string,
     content: string,
     queryResponse: QueryResponse
-  ): ConversationMessage {
-    const conversation = this.conversations.get(conversationId);
-    if (!conversation) {
-      throw new Error(`Conversation ${conversationId} not found`);
-    }
-
+  ): Promise<ConversationMessage> {
     const message: ConversationMessage = {
       id: this.generateId(),
       role: 'assistant',
@@ -130,33 +197,176 @@ export class ConversationManager {
       queryResponse,
     };
 
-    conversation.messages.push(message);
-    conversation.updatedAt = new Date();
+    await this.updateConversation(conversationId, (conversation) => {
+      conversation.messages.push(message);
+      conversation.updatedAt = new Date();
+      this.recordResponse(conversation, queryResponse);
+    });
+    return message;
+  }
 
-    // Update metadata
-    if (conversation.metadata) {
-      conversation.metadata.totalQueries++;
-      conversation.metadata.totalLatencyMs += queryResponse.latencyMs;
-      queryResponse.agentCalls.forEach((call) => {
-        conversation.metadata!.agentsUsed.add(call.agent);
-      });
+  /**
+   * Replace an assistant message with a regenerated answer.
+   * The previous answer is kept in message.variants.
+   */
+  async replaceAssistantMessage(
+    conversationId: string,
+    messageId: string,
+    content: string,
+    queryResponse: QueryResponse
+  ): Promise<ConversationMessage> {
+    let message!: ConversationMessage;
+
+    await this.updateConversation(conversationId, (conversation) => {
+      const found = conversation.messages.find((m) => m.id === messageId && m.role === 'assistant');
+      if (!found) {
+        throw new Error(`Assistant message ${messageId} not found`);
+      }
+
+      message = found;
+      message.variants = [
+        ...(message.variants ?? []),
+        { content: message.content, timestamp: message.timestamp, queryResponse: message.queryResponse },
+      ];
+      message.content = content;
+      message.timestamp = new Date();
+      message.queryResponse = queryResponse;
+
+      conversation.updatedAt = new Date();
+      this.recordResponse(conversation, queryResponse);
+    });
+    return message;
+  }
+
+  /**
+   * Change the text of a user message and store its new answer, in one update (nothing
+   * changes when the new answer could not be produced). The messages after it (old answer
+   * included) are removed from the conversation and kept, with the old text, in message.variants;
+   * a workflow paused for clarification is dropped with them.
+   */
+  async editUserMessage(
+    conversationId: string,
+    messageId: string,
+    content: string,
+    answer: string,
+    queryResponse: QueryResponse
+  ): Promise<{ question: ConversationMessage; answer: ConversationMessage }> {
+    let question!: ConversationMessage;
+    const reply: ConversationMessage = {
+      id: this.generateId(),
+      role: 'assistant',
+      content: answer,
+      timestamp: new Date(),
+      queryResponse,
+    };
+
+    await this.updateConversation(conversationId, (conversation) => {
+      const index = conversation.messages.findIndex((m) => m.id === messageId && m.role === 'user');
+      if (index === -1) {
+        throw new Error(`User message ${messageId} not found`);
+      }
+
+      question = conversation.messages[index];
+      question.variants = [
+        ...(question.variants ?? []),
+        {
+          content: question.content,
+          timestamp: question.timestamp,
+          replacedMessages: conversation.messages.slice(index + 1),
+        },
+      ];
+      question.content = content;
+      question.timestamp = new Date();
+
+      conversation.messages = [...conversation.messages.slice(0, index + 1), reply];
+      delete conversation.pendingClarification;
+      conversation.updatedAt = new Date();
+      if (conversation.messages.filter((m) => m.role === 'user').length === 1) {
+        conversation.title = this.generateTitle(content);
+      }
+      this.recordResponse(conversation, queryResponse);
+    });
+    return { question, answer: reply };
+  }
+
+  /**
+   * Copy a conversation up to (and including) one of its messages into a new branch
+   * @param ownerId - Principal the branch belongs to (default: the source's owner)
+   */
+  async forkConversation(conversationId: string, messageId: string, ownerId?: string): Promise<Conversation> {
+    const source = await this.store.get(conversationId);
+    if (!source) {
+      throw new Error(`Conversation ${conversationId} not found`);
     }
 
-    return message;
+    const index = source.messages.findIndex((m) => m.id === messageId);
+    if (index === -1) {
+      throw new Error(`Message ${messageId} not found`);
+    }
+
+    // Deep copy through the storage format, so the branches never share objects
+    const { messages } = deserializeConversation(
+      serializeConversation({ ...source, messages: source.messages.slice(0, index + 1) })
+    );
+    const branch: Conversation = {
+      id: this.generateId(),
+      title: `${source.title} (branch)`,
+      language: source.language,
+      ownerId: ownerId ?? source.ownerId,
+      messages,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      metadata: {
+        totalQueries: 0,
+        totalLatencyMs: 0,
+        agentsUsed: new Set(),
+      },
+      forkedFrom: { conversationId, messageId },
+    };
+    messages.forEach((m) => m.queryResponse && this.recordResponse(branch, m.queryResponse));
+
+    await this.store.save(branch);
+
+    if ((await this.store.count()) > this.maxConversations) {
+      await this.cleanupOldConversations();
+    }
+
+    logger.info('Forked conversation', { conversationId: branch.id, forkedFrom: conversationId, messageId });
+    return branch;
+  }
+
+  /**
+   * Save (or clear, with undefined) the workflow paused for clarification
+   */
+  async setPendingClarification(conversationId: string, pending: PendingClarification | undefined): Promise<void> {
+    await this.updateConversation(conversationId, (conversation) => {
+      if (pending) {
+        conversation.pendingClarification = pending;
+      } else {
+        delete conversation.pendingClarification;
+      }
+    });
   }
 
   /**
    * Get conversation history for Gemini context
-   * Returns array of {role, parts} for Gemini API
+   * Returns array of {role, parts} for Gemini API (current versions only, without variants)
    */
-  getGeminiHistory(conversationId: string): Array<{ role: string; parts: Array<{ text: string }> }> {
-    const conversation = this.conversations.get(conversationId);
+  async getGeminiHistory(
+    conversationId: string,
+    beforeMessageId?: string
+  ): Promise<Array<{ role: string; parts: Array<{ text: string }> }>> {
+    const conversation = await this.store.get(conversationId);
     if (!conversation) {
       return [];
     }
 
+    // Only the messages before beforeMessageId, when given (regenerating or editing)
+    const end = conversation.messages.findIndex((msg) => msg.id === beforeMessageId);
+    const messages = end === -1 ? conversation.messages : conversation.messages.slice(0, end);
+
     // Convert conversation messages to Gemini history format
-    return conversation.messages.map((msg) => ({
+    return messages.map((msg) => ({
       role: msg.role === 'user' ? 'user' : 'model',
       parts: [{ text: msg.content }],
     }));
@@ -165,10 +375,10 @@ export class ConversationManager {
   /**
    * Delete conversation
    */
-  deleteConversation(id: string): boolean {
-    const deleted = this.conversations.delete(id);
+  async deleteConversation(id: string): Promise<boolean> {
+    const deleted = await this.store.delete(id);
     if (deleted) {
-      console.log(`🗑️  Deleted conversation: ${id}`);
+      logger.info('Deleted conversation', { conversationId: id });
     }
     return deleted;
   }
@@ -176,10 +386,42 @@ export class ConversationManager {
   /**
    * Clear all conversations
    */
-  clearAll(): void {
-    const count = this.conversations.size;
-    this.conversations.clear();
-    console.log(`🗑️  Cleared ${count} conversations`);
+  async clearAll(): Promise<void> {
+    const count = await this.store.clear();
+    logger.info('Cleared conversations', { count });
+  }
+
+  /**
+   * Change a stored conversation atomically (see ConversationStore.update)
+   */
+  private async updateConversation(
+    conversationId: string,
+    change: (conversation: Conversation) => void
+  ): Promise<Conversation> {
+    const conversation = await this.store.update(conversationId, change);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    return conversation;
+  }
+
+  /**
+   * Add an answer's latency and agents to the conversation metadata
+   */
+  private recordResponse(conversation: Conversation, queryResponse: QueryResponse): void {
+    if (!conversation.metadata) return;
+
+    const { metadata } = conversation;
+    metadata.totalQueries++;
+    metadata.totalLatencyMs += queryResponse.latencyMs;
+    queryResponse.agentCalls.forEach((call) => {
+      metadata.agentsUsed.add(call.agent);
+    });
+
+    if (queryResponse.usage) {
+      metadata.tokens = addUsage(metadata.tokens ?? emptyUsage(), queryResponse.usage.total);
+      metadata.costUsd = roundUsd((metadata.costUsd ?? 0) + (queryResponse.usage.costUsd ?? 0));
+    }
   }
 
   /**
@@ -196,16 +438,14 @@ export class ConversationManager {
   /**
    * Cleanup old conversations (keep most recent N)
    */
-  private cleanupOldConversations(): void {
-    const sorted = this.listConversations();
+  private async cleanupOldConversations(): Promise<void> {
+    const sorted = await this.listConversations();
     const toDelete = sorted.slice(this.maxConversations);
 
-    toDelete.forEach((conv) => {
-      this.conversations.delete(conv.id);
-    });
+    await Promise.all(toDelete.map((conv) => this.store.delete(conv.id)));
 
     if (toDelete.length > 0) {
-      console.log(`🧹 Cleaned up ${toDelete.length} old conversations`);
+      logger.info('Cleaned up old conversations', { count: toDelete.length });
     }
   }
 
@@ -219,23 +459,52 @@ export class ConversationManager {
   /**
    * Get conversation statistics
    */
-  getStats(conversationId: string): {
+  async getStats(conversationId: string): Promise<{
     messageCount: number;
     avgLatency: number;
     agentsUsed: string[];
-  } | null {
-    const conversation = this.conversations.get(conversationId);
+    tokens: TokenUsage;
+    costUsd: number;
+    avgCostUsd: number;
+    /** Current answers, with their question, tokens and cost */
+    answers: Array<{ messageId: string; question: string; totalTokens: number; costUsd?: number }>;
+  } | null> {
+    const conversation = await this.store.get(conversationId);
     if (!conversation || !conversation.metadata) {
       return null;
     }
 
+    const { metadata, messages } = conversation;
+    const answers = messages.flatMap((msg, i) => {
+      const usage = msg.queryResponse?.usage;
+      if (msg.role !== 'assistant' || !usage) return [];
+
+      const question = messages.slice(0, i).reverse().find((m) => m.role === 'user');
+      return [
+        {
+          messageId: msg.id,
+          question: question?.content ?? '',
+          totalTokens: usage.total.totalTokens,
+          costUsd: usage.costUsd,
+        },
+      ];
+    });
+
     return {
-      messageCount: conversation.messages.length,
-      avgLatency:
-        conversation.metadata.totalQueries > 0
-          ? Math.round(conversation.metadata.totalLatencyMs / conversation.metadata.totalQueries)
-          : 0,
-      agentsUsed: Array.from(conversation.metadata.agentsUsed),
+      messageCount: messages.length,
+      avgLatency: metadata.totalQueries > 0 ? Math.round(metadata.totalLatencyMs / metadata.totalQueries) : 0,
+      agentsUsed: Array.from(metadata.agentsUsed),
+      tokens: metadata.tokens ?? emptyUsage(),
+      costUsd: metadata.costUsd ?? 0,
+      avgCostUsd: metadata.totalQueries > 0 ? roundUsd((metadata.costUsd ?? 0) / metadata.totalQueries) : 0,
+      answers,
     };
   }
 }
+
+/**
+ * Sums of small costs drift in floating point; keep a millionth of a dollar
+ */
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
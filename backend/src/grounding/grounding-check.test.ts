@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { formatSourceList } from '../citations';
+import { AgentCallRecord } from '../types';
+import { checkGrounding } from './grounding-check';
+
+function call(response: string, agent = 'query_wikidata'): AgentCallRecord {
+  return { agent, params: {}, response };
+}
+
+/** Texts of the supported and unsupported claims of an answer */
+function check(answer: string, calls: AgentCallRecord[]) {
+  const report = checkGrounding(answer, calls);
+  return {
+    supported: report.supported.map((claim) => claim.text),
+    unsupported: report.unsupported.map((claim) => claim.text),
+  };
+}
+
+describe('extraction', () => {
+  test('reads English and Italian dates as the same day', () => {
+    const calls = [call('birthDate: 1921-03-12T00:00:00Z')];
+
+    assert.deepEqual(check('Born on 12 March 1921.', calls).supported, ['12 March 1921']);
+    assert.deepEqual(check('Nato il 12 marzo 1921.', calls).supported, ['12 marzo 1921']);
+    assert.deepEqual(check('Nato il 12 aprile 1921.', calls).unsupported, ['12 aprile 1921']);
+  });
+
+  test('supports a month or year with a full date', () => {
+    const calls = [call('Il 1º maggio 1890 fu fondata la società.')];
+
+    assert.deepEqual(check('Founded in May 1890, in 1890.', calls).supported, ['May 1890', '1890']);
+  });
+
+  test('ignores citation markers, URLs, code and small counts', () => {
+    const answer = 'See [S1] and https://www.wikidata.org/wiki/Q42 or `LIMIT 500`: 3 results.';
+
+    assert.deepEqual(check(answer, []), { supported: [], unsupported: [] });
+  });
+});
+
+describe('matching', () => {
+  test('accepts a number rounded the way the answer writes it', () => {
+    const calls = [call('population: 2139000')];
+
+    assert.deepEqual(check('About 2.1 million people.', calls).supported, ['2.1 million']);
+    assert.deepEqual(check('About 2.2 million people.', calls).unsupported, ['2.2 million']);
+  });
+
+  test('matches coordinates in degrees against a WKT point', () => {
+    const calls = [call('coord: Point(2.3522 48.8566)')];
+
+    assert.deepEqual(check('It lies at 48.8566° N, 2.3522° E.', calls).supported, ['48.8566° N, 2.3522° E']);
+  });
+
+  test('reads the result table as well as the text', () => {
+    const record: AgentCallRecord = {
+      ...call('Found 1 result'),
+      table: { columns: ['height'], rows: [[{ type: 'literal', value: '8848' }]], rowCount: 1 },
+    };
+
+    assert.deepEqual(check('It is 8848 metres high.', [record]).supported, ['8848']);
+  });
+
+  test('does not take the source list of a result as evidence', () => {
+    const sources = formatSourceList([
+      {
+        id: 'S1',
+        type: 'wikidata_query',
+        title: 'SPARQL query - Wikidata Query Service',
+        url: `https://query.wikidata.org/#${encodeURIComponent('SELECT ?x WHERE { ?x wdt:P31 wd:Q5 } LIMIT 250')}`,
+        agents: ['query_wikidata'],
+      },
+      {
+        id: 'S2',
+        type: 'wikidata_entity',
+        title: 'Douglas Adams',
+        url: 'https://www.wikidata.org/wiki/Q42',
+        agents: ['query_wikidata'],
+      },
+    ]);
+    const calls = [call(`Found 1 result${sources}`)];
+
+    assert.deepEqual(check('Douglas Adams (Q42) is one of 250 humans.', calls).unsupported, ['Q42', '250']);
+  });
+
+  test('names the agents that support a claim', () => {
+    const calls = [call('1952', 'query_wikidata'), call('1952', 'get_wikipedia_article')];
+    const report = checkGrounding('Born in 1952.', calls);
+
+    assert.deepEqual(report.supported[0].agents, ['query_wikidata', 'get_wikipedia_article']);
+    assert.equal(report.checkedCalls, 2);
+  });
+});
@@ -0,0 +1,273 @@
+import { stripSourceList } from '../citations';
+import { AgentCallRecord, GroundingClaim, GroundingMode, GroundingReport } from '../types';
+
+export const GROUNDING_MODES: GroundingMode[] = ['off', 'report', 'strict'];
+
+type ClaimKind = GroundingClaim['kind'];
+
+/** A value found in a text, with the span it was read from */
+interface Extracted {
+  kind: ClaimKind;
+  text: string;
+  start: number;
+  end: number;
+  /** entity_id: the ID; date: YYYY, YYYY-MM or YYYY-MM-DD */
+  key?: string;
+  /** number: [value]; coordinates: [lat, lon] */
+  values?: number[];
+  /** Half of the last written digit's unit: how far a rounded value may be from the source */
+  tolerance?: number;
+}
+
+/** What one agent call returned, indexed for lookups */
+interface Evidence {
+  agent: string;
+  ids: Set<string>;
+  dates: Set<string>;
+  numbers: number[];
+}
+
+/** English and Italian month names: answers and Wikipedia extracts follow the user's language */
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const MESI = [
+  'gennaio', 'febbraio', 'marzo', 'aprile', 'maggio', 'giugno',
+  'luglio', 'agosto', 'settembre', 'ottobre', 'novembre', 'dicembre',
+];
+const MONTH = `(${[...MONTHS, ...MESI].join('|')})`;
+const SCALES: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9, trillion: 1e12 };
+
+const ENTITY_ID = /\b[QP][1-9]\d*\b/g;
+const ISO_DATE = /\b(\d{4})-(\d{2})(?:-(\d{2}))?(?!\d)/g;
+const DAY_MONTH_YEAR = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th|º)? ${MONTH},? (\\d{3,4})\\b`, 'gi');
+const MONTH_DAY_YEAR = new RegExp(`\\b${MONTH} (\\d{1,2})(?:st|nd|rd|th)?,? (\\d{3,4})\\b`, 'gi');
+const MONTH_YEAR = new RegExp(`\\b${MONTH},? (\\d{3,4})\\b`, 'gi');
+const YEAR = /(?<![\w.,-])(1\d{3}|20\d{2})(?![\w]|[.,]\d)/g;
+/** 1,234,567.8 / 1 234 567 (thin or no-break spaces) / 2.5 / 42, optionally scaled ("2.1 million") */
+const NUMBER = new RegExp(
+  `(?<![\\w.,-])(-?(?:\\d{1,3}(?:[,\\u202f\\u00a0]\\d{3})+|\\d+)(?:\\.\\d+)?)(?!\\.?\\d)(?!st|nd|rd|th)` +
+    `(?:\\s+(${Object.keys(SCALES).join('|')})\\b)?`,
+  'gi'
+);
+const DEGREES = /(\d{1,3}(?:\.\d+)?)°\s*(?:(\d{1,2}(?:\.\d+)?)['′]\s*)?(?:(\d{1,2}(?:\.\d+)?)["″]\s*)?([NSEW])\b/g;
+const LAT_LON = /\blat(?:itude)?\s*[:=]?\s*(-?\d{1,2}\.\d+)\s*[,;]?\s*(?:and\s+)?lon(?:g|gitude)?\s*[:=]?\s*(-?\d{1,3}\.\d+)/gi;
+const DECIMAL_PAIR = /\((-?\d{1,2}\.\d+),\s*(-?\d{1,3}\.\d+)\)/g;
+
+/** Spans of the answer that are not claims: code, URLs and citation markers */
+const IGNORED = /```[\s\S]*?(?:```|$)|`[^`\n]*`|https?:\/\/[^\s)\]>]+|\[S\d+(?:\s*,\s*S\d+)*\]/g;
+
+/**
+ * Check the entity IDs, numbers, dates and coordinates of an answer against
+ * the agent results of the same query. A value is supported when at least one
+ * agent output contains it (numbers and coordinates up to the answer's rounding).
+ */
+export function checkGrounding(answer: string, agentCalls: AgentCallRecord[]): GroundingReport {
+  const evidence = agentCalls.map(indexEvidence);
+  const supported: GroundingClaim[] = [];
+  const unsupported: GroundingClaim[] = [];
+
+  for (const claim of extractClaims(answer)) {
+    const agents = [...new Set(evidence.filter((e) => supports(e, claim)).map((e) => e.agent))];
+    const { kind, text, start, end } = claim;
+    (agents.length > 0 ? supported : unsupported).push({ kind, text, start, end, agents });
+  }
+
+  return { supported, unsupported, checkedCalls: agentCalls.length };
+}
+
+/**
+ * Instruction asking the model to correct the unsupported values of its answer
+ */
+export function formatRevisionRequest(report: GroundingReport): string {
+  const values = report.unsupported.map((claim) => `- "${claim.text}" (${claim.kind.replace('_', ' ')})`);
+
+  return (
+    'Grounding check: these values in your answer do not appear in any tool result of this query:\n' +
+    `${values.join('\n')}\n\n` +
+    'Rewrite your final answer so that every fact comes from the tool results: correct these values ' +
+    'or remove the statements that contain them, and keep the [S#] citations. ' +
+    'Do not call any tool. Reply with the revised answer only.'
+  );
+}
+
+/**
+ * Checkable values of an answer, in order of appearance.
+ * Coordinates win over dates, dates over plain numbers when spans overlap.
+ */
+function extractClaims(answer: string): Extracted[] {
+  const text = answer.replace(IGNORED, (match) => ' '.repeat(match.length));
+  const claims: Extracted[] = [];
+  const overlaps = (start: number, end: number) => claims.some((c) => start < c.end && c.start < end);
+
+  for (const found of [
+    ...extractCoordinates(text),
+    ...extractDates(text),
+    ...extractEntityIds(text),
+    ...extractNumbers(text),
+  ]) {
+    if (!overlaps(found.start, found.end)) {
+      claims.push(found);
+    }
+  }
+
+  return claims
+    .filter((claim) => claim.kind !== 'number' || isSignificant(claim))
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Small integers are list numbers, counts and ordinals far more often than facts
+ */
+function isSignificant(claim: Extracted): boolean {
+  return /[.,\s]/.test(claim.text) || claim.values!.some((value) => Math.abs(value) >= 10);
+}
+
+function indexEvidence(call: AgentCallRecord): Evidence {
+  const cells = call.table?.rows.flatMap((row) => row.map((cell) => cell?.value ?? '')) ?? [];
+  // Source URLs carry IDs and a query's LIMIT, which the agent did not return as facts
+  const text = [stripSourceList(call.response), ...cells].join('\n');
+
+  const dates = new Set<string>();
+  for (const { key } of extractDates(text)) {
+    // A day also supports its month and year
+    const parts = key!.split('-');
+    parts.forEach((_, i) => dates.add(parts.slice(0, i + 1).join('-')));
+  }
+
+  return {
+    agent: call.agent,
+    ids: new Set(extractEntityIds(text).map((id) => id.key!)),
+    dates,
+    numbers: extractNumbers(text).map((n) => n.values![0]),
+  };
+}
+
+function supports(evidence: Evidence, claim: Extracted): boolean {
+  const near = (value: number, tolerance: number) =>
+    evidence.numbers.some((n) => Math.abs(n - value) <= tolerance + Number.EPSILON * Math.abs(value));
+
+  switch (claim.kind) {
+    case 'entity_id':
+      return evidence.ids.has(claim.key!);
+    case 'date':
+      return evidence.dates.has(claim.key!);
+    case 'number':
+      return claim.values!.some((value) => near(value, claim.tolerance!));
+    case 'coordinates':
+      return claim.values!.every((value) => near(value, claim.tolerance!));
+  }
+}
+
+function extractEntityIds(text: string): Extracted[] {
+  return [...text.matchAll(ENTITY_ID)].map((m) => ({
+    kind: 'entity_id' as const,
+    text: m[0],
+    start: m.index!,
+    end: m.index! + m[0].length,
+    key: m[0],
+  }));
+}
+
+function extractDates(text: string): Extracted[] {
+  const dates: Extracted[] = [];
+  const add = (m: RegExpMatchArray, year: string, month?: number, day?: string) => {
+    const start = m.index!;
+    const end = start + m[0].length;
+    if (dates.some((d) => start < d.end && d.start < end)) return;
+
+    const key = [year.padStart(4, '0'), month && String(month).padStart(2, '0'), day && day.padStart(2, '0')]
+      .filter(Boolean)
+      .join('-');
+    dates.push({ kind: 'date', text: m[0], start, end, key });
+  };
+  const monthNumber = (name: string) => {
+    const lower = name.toLowerCase();
+    return (MONTHS.includes(lower) ? MONTHS : MESI).indexOf(lower) + 1;
+  };
+
+  for (const m of text.matchAll(ISO_DATE)) {
+    const month = parseInt(m[2], 10);
+    if (month >= 1 && month <= 12) add(m, m[1], month, m[3]);
+  }
+  for (const m of text.matchAll(DAY_MONTH_YEAR)) add(m, m[3], monthNumber(m[2]), m[1]);
+  for (const m of text.matchAll(MONTH_DAY_YEAR)) add(m, m[3], monthNumber(m[1]), m[2]);
+  for (const m of text.matchAll(MONTH_YEAR)) add(m, m[2], monthNumber(m[1]));
+  for (const m of text.matchAll(YEAR)) add(m, m[1]);
+
+  return dates;
+}
+
+function extractNumbers(text: string): Extracted[] {
+  return [...text.matchAll(NUMBER)].map((m) => {
+    const digits = m[1].replace(/[,\u202f\u00a0]/g, '');
+    const scale = m[2] ? SCALES[m[2].toLowerCase()] : 1;
+    const value = parseFloat(digits) * scale;
+
+    return {
+      kind: 'number' as const,
+      text: m[0],
+      start: m.index!,
+      end: m.index! + m[0].length,
+      values: [value],
+      tolerance: roundingTolerance(digits, scale),
+    };
+  });
+}
+
+function extractCoordinates(text: string): Extracted[] {
+  const coordinates: Extracted[] = [];
+  const add = (start: number, end: number, lat: number, lon: number, tolerance: number) => {
+    if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return;
+    coordinates.push({ kind: 'coordinates', text: text.slice(start, end), start, end, values: [lat, lon], tolerance });
+  };
+
+  // 48.8566° N, 2.3522° E and 48°51′24″N 2°21′03″E
+  const degrees = [...text.matchAll(DEGREES)];
+  for (let i = 0; i + 1 < degrees.length; i++) {
+    const [lat, lon] = [degrees[i], degrees[i + 1]];
+    const between = text.slice(lat.index! + lat[0].length, lon.index!);
+    if (!/[NS]/.test(lat[4]) || !/[EW]/.test(lon[4]) || !/^[\s,;/]*$/.test(between)) continue;
+
+    add(
+      lat.index!,
+      lon.index! + lon[0].trimEnd().length,
+      fromDegrees(lat),
+      fromDegrees(lon),
+      Math.max(degreesTolerance(lat), degreesTolerance(lon))
+    );
+    i++;
+  }
+
+  // lat: 48.8566, lon: 2.3522 and (48.8566, 2.3522)
+  for (const pattern of [LAT_LON, DECIMAL_PAIR]) {
+    for (const m of text.matchAll(pattern)) {
+      const tolerance = Math.max(roundingTolerance(m[1], 1), roundingTolerance(m[2], 1));
+      add(m.index!, m.index! + m[0].length, parseFloat(m[1]), parseFloat(m[2]), tolerance);
+    }
+  }
+
+  return coordinates;
+}
+
+function fromDegrees(m: RegExpMatchArray): number {
+  const value = parseFloat(m[1]) + parseFloat(m[2] || '0') / 60 + parseFloat(m[3] || '0') / 3600;
+  return /[SW]/.test(m[4]) ? -value : value;
+}
+
+function degreesTolerance(m: RegExpMatchArray): number {
+  if (m[3]) return roundingTolerance(m[3], 1 / 3600);
+  if (m[2]) return roundingTolerance(m[2], 1 / 60);
+  return roundingTolerance(m[1], 1);
+}
+
+/**
+ * Half the unit of the last written digit ("2.1 million" is any value in [2.05M, 2.15M],
+ * "13,960,000" any value that rounds to the ten thousand), at most 10% of the value
+ */
+function roundingTolerance(digits: string, scale: number): number {
+  const [integer, decimals] = digits.replace(/^-/, '').split('.');
+  const unit = decimals ? Math.pow(10, -decimals.length) : Math.pow(10, /0*$/.exec(integer)![0].length);
+  return Math.min(unit / 2, Math.abs(parseFloat(digits)) / 10) * scale;
+}
@@ -0,0 +1,5 @@
+/**
+ * Post-answer grounding check against agent outputs
+ */
+
+export { checkGrounding, formatRevisionRequest, GROUNDING_MODES } from './grounding-check';
@@ -1,46 +1,265 @@
 import express from 'express';
 import { config } from './config';
 import { GeminiOrchestrator } from './orchestrator';
-import { ConversationManager } from './conversation-manager';
-import { ReflexiveMode } from './reflexive-mode';
+import { Conversation, ConversationManager, ConversationMessage } from './conversation-manager';
+import { ReflexiveMode, ReflexiveResponse } from './reflexive-mode';
+import { ExecuteQueryOptions, GroundingMode, QueryResponse, StreamChunk } from './types';
+import { useConfiguredCassette } from './cassettes';
+import { createAgentRegistry, optionalLanguage } from './agents';
+import { GROUNDING_MODES } from './grounding';
+import { serializeConversation } from './storage';
+import { AppMetrics } from './metrics';
+import { logger, requestLogger, requestLogging } from './logging';
+import { createTraceBuffer, exportTracesOtlp, installHttpTracing } from './tracing';
+import { authentication, canAccess, createAuthenticators, principalOf, requireAdmin } from './auth';
+import {
+  exportConversationJson,
+  exportConversationJsonl,
+  exportConversationMarkdown,
+  parseConversationExport,
+} from './conversation-export';
+
+// Record/replay outbound HTTP when HTTP_CASSETTE_MODE is set (offline demos)
+useConfiguredCassette();
+// Outbound requests made while a query runs are recorded in its trace
+installHttpTracing();
 
 const app = express();
-app.use(express.json());
+const conversationManager = new ConversationManager();
+const metrics = new AppMetrics(() => conversationManager.countConversations());
+const traces = createTraceBuffer();
+
+app.use(requestLogging(logger));
+app.use(metrics.httpMiddleware());
 
-// CORS for frontend
+// CORS for frontend (CORS_ORIGINS)
 app.use((req, res, next) => {
-  res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Headers', 'Content-Type');
+  const origin = req.header('origin');
+  if (config.corsOrigins.includes('*')) {
+    res.header('Access-Control-Allow-Origin', '*');
+  } else if (origin && config.corsOrigins.includes(origin)) {
+    res.header('Access-Control-Allow-Origin', origin);
+    res.header('Vary', 'Origin');
+  }
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, X-Request-ID');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.header('Access-Control-Expose-Headers', 'X-Request-ID');
+  // Preflight requests carry no credentials
+  if (req.method === 'OPTIONS') {
+    return res.sendStatus(204);
+  }
   next();
 });
 
-const orchestrator = new GeminiOrchestrator();
-const conversationManager = new ConversationManager();
-const reflexiveMode = new ReflexiveMode();
+// Every /api route needs a principal (health and metrics stay open)
+app.use('/api', authentication(createAuthenticators(), config.auth.mode));
+
+// Exports can be much larger than a query body; parsed here, the global parser skips them
+app.use('/api/conversations/import', express.json({ limit: config.conversationImportLimit }));
+app.use(express.json());
+
+// One registry, so /help lists exactly the agents the model can call
+const agentRegistry = createAgentRegistry();
+const orchestrator = new GeminiOrchestrator(undefined, agentRegistry, undefined, {
+  ...metrics.orchestratorHooks(),
+  onTrace: (trace) => traces.add(trace),
+});
+const reflexiveMode = new ReflexiveMode(agentRegistry);
+
+/**
+ * Load a conversation the caller may access. Conversations of other principals
+ * are reported as missing, so their IDs cannot be probed.
+ */
+async function findConversation(res: express.Response, id: string): Promise<Conversation | undefined> {
+  const conversation = await conversationManager.getConversation(id);
+  return conversation && canAccess(principalOf(res), conversation) ? conversation : undefined;
+}
+
+/**
+ * Parsed body of a query request
+ */
+interface QueryRequestContext {
+  query: string;
+  conversation?: Conversation;
+  /** Option chosen for the conversation's pending clarification */
+  selectedOption?: string;
+  /** Content language for this query (defaults to the conversation's language) */
+  language?: string;
+  /** Grounding check mode for this query (defaults to GROUNDING_MODE) */
+  grounding?: GroundingMode;
+  /** Correlation ID of the HTTP request */
+  requestId?: string;
+}
+
+/**
+ * Per-query settings of a request body: language (defaults to the conversation's) and grounding mode
+ */
+function resolveQuerySettings(
+  body: any,
+  conversation?: Conversation
+): Pick<QueryRequestContext, 'language' | 'grounding'> | { status: number; error: string } {
+  let language: string | undefined;
+  try {
+    language = body.language ? optionalLanguage(body, 'language') : conversation?.language;
+  } catch (error: any) {
+    return { status: 400, error: error.message };
+  }
+
+  const { grounding } = body;
+  if (grounding !== undefined && !GROUNDING_MODES.includes(grounding)) {
+    return { status: 400, error: `grounding must be one of: ${GROUNDING_MODES.join(', ')}` };
+  }
+
+  return { language, grounding };
+}
+
+/**
+ * Validate a /api/query body and load its conversation.
+ * Returns an HTTP error instead when the request cannot be processed.
+ */
+async function resolveQueryRequest(
+  body: any,
+  res: express.Response
+): Promise<QueryRequestContext | { status: number; error: string }> {
+  const { query, conversationId, selectedOption } = body;
+  const { requestId } = res.locals;
+
+  let conversation: Conversation | undefined;
+  if (conversationId) {
+    conversation = await findConversation(res, String(conversationId));
+    if (!conversation) {
+      return { status: 404, error: `Conversation ${conversationId} not found` };
+    }
+  }
+
+  const settings = resolveQuerySettings(body, conversation);
+  if ('error' in settings) {
+    return settings;
+  }
+  const { language, grounding } = settings;
+
+  if (selectedOption !== undefined && selectedOption !== null) {
+    const pending = conversation?.pendingClarification;
+    if (!pending) {
+      return { status: 409, error: 'No pending clarification to resume' };
+    }
+
+    const option = pending.clarification.options.find((o) => o.id === String(selectedOption));
+    if (!option) {
+      return { status: 400, error: `Unknown option "${selectedOption}"` };
+    }
+
+    // The chosen option doubles as the user's message when no text is sent
+    return {
+      query: typeof query === 'string' && query ? query : option.label,
+      conversation,
+      selectedOption: option.id,
+      language,
+      grounding,
+      requestId,
+    };
+  }
+
+  if (!query || typeof query !== 'string') {
+    return { status: 400, error: 'Query string required' };
+  }
+
+  return { query, conversation, language, grounding, requestId };
+}
+
+/**
+ * Run a query, or resume a paused workflow, and record it in the conversation (if any).
+ * Shared by /api/query and /api/query/stream.
+ */
+async function runQuery(
+  { query, conversation, selectedOption, language, grounding, requestId }: QueryRequestContext,
+  onChunk?: (chunk: StreamChunk) => void
+): Promise<QueryResponse> {
+  if (!conversation) {
+    return orchestrator.executeQuery(query, [], { onChunk, language, grounding, requestId });
+  }
+
+  const conversationId = conversation.id;
+  const options: ExecuteQueryOptions = {
+    onChunk,
+    language,
+    grounding,
+    requestId,
+    // Pausing needs somewhere to keep the workflow, so only conversations can pause
+    onPause: (pending) => conversationManager.setPendingClarification(conversationId, pending),
+  };
+
+  const pending = conversation.pendingClarification;
+  if (pending) {
+    // Either resumed now or abandoned by a new question
+    await conversationManager.setPendingClarification(conversationId, undefined);
+  }
+
+  let result: QueryResponse;
+  if (pending && selectedOption !== undefined) {
+    await conversationManager.addUserMessage(conversationId, query);
+    result = await orchestrator.resumeQuery(pending, selectedOption, options);
+  } else {
+    // Get conversation history (before adding current message)
+    const history = await conversationManager.getGeminiHistory(conversationId);
+    await conversationManager.addUserMessage(conversationId, query);
+    result = await orchestrator.executeQuery(query, history, options);
+  }
+
+  await conversationManager.addAssistantMessage(conversationId, result.answer, result);
+  return result;
+}
+
+/**
+ * Attach the execution trace when the request asks for it ({"debug": true} or ?debug=1)
+ */
+function withTrace(req: express.Request, result: QueryResponse): QueryResponse {
+  const debug = req.body?.debug === true || req.query.debug === '1' || req.query.debug === 'true';
+  const trace = debug && result.traceId ? traces.get(result.traceId) : undefined;
+  return trace ? { ...result, trace } : result;
+}
+
+/**
+ * Answer a conversation's user message again, with the history that preceded it.
+ * Shared by regenerate and edit; the caller stores the result.
+ */
+async function answerAgain(
+  conversation: Conversation,
+  question: ConversationMessage,
+  { language, grounding }: Pick<QueryRequestContext, 'language' | 'grounding'>,
+  requestId?: string
+): Promise<QueryResponse> {
+  const history = await conversationManager.getGeminiHistory(conversation.id, question.id);
+  // No onPause: variants are meant to be compared, not left waiting for a choice
+  return orchestrator.executeQuery(question.content, history, { language, grounding, requestId });
+}
 
 /**
  * POST /api/query
  * Main endpoint for processing user queries
- * Supports both standalone and conversation-based queries
+ * Supports both standalone and conversation-based queries.
+ * When the response carries a `clarification`, answer with
+ * { conversationId, selectedOption } to resume the paused workflow.
  */
 app.post('/api/query', async (req, res) => {
   try {
-    const { query, conversationId } = req.body;
-
-    if (!query || typeof query !== 'string') {
-      return res.status(400).json({ error: 'Query string required' });
+    const request = await resolveQueryRequest(req.body, res);
+    if ('error' in request) {
+      return res.status(request.status).json({ error: request.error });
     }
 
-    console.log(`\n📥 Received query: "${query}"${conversationId ? ` (conversation: ${conversationId})` : ''}`);
+    const { query, conversation, selectedOption } = request;
+    requestLogger(res).info('Received query', { query, conversationId: conversation?.id });
 
-    // Check if reflexive/meta question
-    const reflexiveCheck = reflexiveMode.handleReflexive(query);
+    // Check if reflexive/meta question (not when answering a clarification)
+    const reflexiveCheck: ReflexiveResponse =
+      selectedOption === undefined ? reflexiveMode.handleReflexive(query) : { isReflexive: false };
     if (reflexiveCheck.isReflexive) {
-      console.log(`🤔 Reflexive query detected: ${reflexiveCheck.command || 'meta-question'}`);
+      requestLogger(res).info('Reflexive query', { command: reflexiveCheck.command || 'meta-question' });
 
       // Handle special commands
-      if (reflexiveCheck.command === 'clear' && conversationId) {
-        conversationManager.deleteConversation(conversationId);
+      if (reflexiveCheck.command === 'clear' && conversation) {
+        await conversationManager.deleteConversation(conversation.id);
       }
 
       // Return reflexive response
@@ -54,46 +273,22 @@ app.post('/api/query', async (req, res) => {
           thoughts: [],
           agentCalls: [],
           latencyMs: 0,
+          sources: [],
+          citations: [],
         },
       });
     }
 
-    // Get or create conversation
-    let conversation;
-    if (conversationId) {
-      conversation = conversationManager.getConversation(conversationId);
-      if (!conversation) {
-        return res.status(404).json({ error: `Conversation ${conversationId} not found` });
-      }
-    }
-
-    // Get conversation history (before adding current message)
-    let history: Array<{ role: string; parts: Array<{ text: string }> }> = [];
-    if (conversation) {
-      history = conversationManager.getGeminiHistory(conversation.id);
-    }
-
-    // Add user message to conversation history
-    if (conversation) {
-      conversationManager.addUserMessage(conversation.id, query);
-    }
-
-    // Execute query with Gemini (passing conversation history)
-    const result = await orchestrator.executeQuery(query, history);
-
-    // Add assistant response to conversation
-    if (conversation) {
-      conversationManager.addAssistantMessage(conversation.id, result.answer, result);
-    }
+    const result = await runQuery(request);
 
     res.json({
       success: true,
       reflexive: false,
       conversationId: conversation?.id,
-      data: result,
+      data: withTrace(req, result),
     });
   } catch (error: any) {
-    console.error('❌ Query processing error:', error);
+    requestLogger(res).error('Query processing failed', { error });
     res.status(500).json({
       success: false,
       error: error.message,
@@ -101,20 +296,105 @@ app.post('/api/query', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/query/stream
+ * Same as /api/query, but streams the reasoning as Server-Sent Events while the
+ * tool loop runs. Event names match StreamChunk types (thought, agent_call,
+ * agent_response, clarification, final_answer), followed by a `done` event
+ * carrying the full QueryResponse, or an `error` event.
+ */
+app.post('/api/query/stream', async (req, res) => {
+  let request: Awaited<ReturnType<typeof resolveQueryRequest>>;
+  try {
+    request = await resolveQueryRequest(req.body, res);
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+
+  if ('error' in request) {
+    return res.status(request.status).json({ error: request.error });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Disable proxy buffering (nginx) so events reach the browser immediately
+    'X-Accel-Buffering': 'no',
+  });
+
+  let clientClosed = false;
+  res.on('close', () => {
+    clientClosed = true;
+  });
+
+  const sendEvent = (event: string, data: unknown) => {
+    if (clientClosed) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const { query, conversation, selectedOption } = request;
+
+  try {
+    requestLogger(res).info('Received streaming query', { query, conversationId: conversation?.id });
+
+    const reflexiveCheck: ReflexiveResponse =
+      selectedOption === undefined ? reflexiveMode.handleReflexive(query) : { isReflexive: false };
+    if (reflexiveCheck.isReflexive) {
+      if (reflexiveCheck.command === 'clear' && conversation) {
+        await conversationManager.deleteConversation(conversation.id);
+      }
+
+      const answer = reflexiveCheck.answer || '';
+      sendEvent('final_answer', { type: 'final_answer', content: answer, timestamp: Date.now() });
+      sendEvent('done', {
+        success: true,
+        reflexive: true,
+        command: reflexiveCheck.command,
+        data: { query, answer, thoughts: [], agentCalls: [], latencyMs: 0, sources: [], citations: [] },
+      });
+      return res.end();
+    }
+
+    const result = await runQuery(request, (chunk) => sendEvent(chunk.type, chunk));
+
+    sendEvent('done', {
+      success: true,
+      reflexive: false,
+      conversationId: conversation?.id,
+      data: withTrace(req, result),
+    });
+  } catch (error: any) {
+    requestLogger(res).error('Streaming query failed', { error });
+    sendEvent('error', { success: false, error: error.message });
+  }
+
+  res.end();
+});
+
 /**
  * POST /api/conversations
  * Create a new conversation
  */
-app.post('/api/conversations', (req, res) => {
+app.post('/api/conversations', async (req, res) => {
   try {
     const { title } = req.body;
-    const conversation = conversationManager.createConversation(title);
+
+    let language: string | undefined;
+    try {
+      language = req.body.language ? optionalLanguage(req.body, 'language') : undefined;
+    } catch (error: any) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const conversation = await conversationManager.createConversation(title, language, principalOf(res).id);
 
     res.json({
       success: true,
       data: {
         id: conversation.id,
         title: conversation.title,
+        language: conversation.language,
         createdAt: conversation.createdAt,
       },
     });
@@ -125,18 +405,23 @@ app.post('/api/conversations', (req, res) => {
 
 /**
  * GET /api/conversations
- * List all conversations
+ * List the caller's conversations (admins: all of them, with their owner)
  */
-app.get('/api/conversations', (req, res) => {
+app.get('/api/conversations', async (req, res) => {
   try {
-    const conversations = conversationManager.listConversations();
+    const principal = principalOf(res);
+    const isAdmin = principal.role === 'admin';
+    const conversations = await conversationManager.listConversations(isAdmin ? undefined : principal.id);
 
     res.json({
       success: true,
       data: conversations.map((conv) => ({
         id: conv.id,
         title: conv.title,
+        language: conv.language,
         messageCount: conv.messages.length,
+        forkedFrom: conv.forkedFrom,
+        ownerId: isAdmin ? conv.ownerId : undefined,
         createdAt: conv.createdAt,
         updatedAt: conv.updatedAt,
       })),
@@ -150,9 +435,9 @@ app.get('/api/conversations', (req, res) => {
  * GET /api/conversations/:id
  * Get conversation details with full history
  */
-app.get('/api/conversations/:id', (req, res) => {
+app.get('/api/conversations/:id', async (req, res) => {
   try {
-    const conversation = conversationManager.getConversation(req.params.id);
+    const conversation = await findConversation(res, req.params.id);
 
     if (!conversation) {
       return res.status(404).json({ success: false, error: 'Conversation not found' });
@@ -160,7 +445,72 @@ app.get('/api/conversations/:id', (req, res) => {
 
     res.json({
       success: true,
-      data: conversation,
+      data: serializeConversation(conversation),
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/conversations/:id/export?format=json|markdown|jsonl
+ * Download a conversation: versioned JSON (re-importable), Markdown transcript
+ * or JSON Lines with one record per answered question
+ */
+app.get('/api/conversations/:id/export', async (req, res) => {
+  try {
+    const format = String(req.query.format || 'json');
+    const conversation = await findConversation(res, req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+
+    const filename = `conversation-${conversation.id}`;
+    switch (format) {
+      case 'json':
+        res.attachment(`${filename}.json`);
+        return res.json(exportConversationJson(conversation));
+      case 'markdown':
+      case 'md':
+        res.attachment(`${filename}.md`);
+        return res.type('text/markdown; charset=utf-8').send(exportConversationMarkdown(conversation));
+      case 'jsonl':
+        res.attachment(`${filename}.jsonl`);
+        return res.type('application/x-ndjson; charset=utf-8').send(exportConversationJsonl(conversation));
+      default:
+        return res.status(400).json({ success: false, error: 'format must be one of: json, markdown, jsonl' });
+    }
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/conversations/import
+ * Recreate a conversation from a JSON export (gets a new ID)
+ */
+app.post('/api/conversations/import', async (req, res) => {
+  try {
+    let data;
+    try {
+      data = parseConversationExport(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    const conversation = await conversationManager.importConversation(data, principalOf(res).id);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        id: conversation.id,
+        title: conversation.title,
+        language: conversation.language,
+        messageCount: conversation.messages.length,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+      },
     });
   } catch (error: any) {
     res.status(500).json({ success: false, error: error.message });
@@ -171,9 +521,10 @@ app.get('/api/conversations/:id', (req, res) => {
  * GET /api/conversations/:id/stats
  * Get conversation statistics
  */
-app.get('/api/conversations/:id/stats', (req, res) => {
+app.get('/api/conversations/:id/stats', async (req, res) => {
   try {
-    const stats = conversationManager.getStats(req.params.id);
+    const conversation = await findConversation(res, req.params.id);
+    const stats = conversation && (await conversationManager.getStats(conversation.id));
 
     if (!stats) {
       return res.status(404).json({ success: false, error: 'Conversation not found' });
@@ -188,13 +539,151 @@ app.get('/api/conversations/:id/stats', (req, res) => {
   }
 });
 
+/**
+ * POST /api/conversations/:id/regenerate
+ * Answer the last question again. The previous answer stays in the message's `variants`.
+ * Body (optional): { language, grounding }
+ */
+app.post('/api/conversations/:id/regenerate', async (req, res) => {
+  try {
+    const conversation = await findConversation(res, req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+
+    const settings = resolveQuerySettings(req.body, conversation);
+    if ('error' in settings) {
+      return res.status(settings.status).json({ success: false, error: settings.error });
+    }
+
+    const { messages } = conversation;
+    const questionIndex = messages.map((m) => m.role).lastIndexOf('user');
+    if (questionIndex === -1) {
+      return res.status(409).json({ success: false, error: 'No question to regenerate an answer for' });
+    }
+    const previousAnswer = messages.slice(questionIndex + 1).find((m) => m.role === 'assistant');
+
+    requestLogger(res).info('Regenerating answer', { conversationId: conversation.id });
+    if (conversation.pendingClarification) {
+      // The paused workflow belongs to the answer being replaced
+      await conversationManager.setPendingClarification(conversation.id, undefined);
+    }
+    const result = await answerAgain(conversation, messages[questionIndex], settings, res.locals.requestId);
+    const message = previousAnswer
+      ? await conversationManager.replaceAssistantMessage(conversation.id, previousAnswer.id, result.answer, result)
+      : await conversationManager.addAssistantMessage(conversation.id, result.answer, result);
+
+    res.json({
+      success: true,
+      conversationId: conversation.id,
+      messageId: message.id,
+      variantCount: message.variants?.length ?? 0,
+      data: withTrace(req, result),
+    });
+  } catch (error: any) {
+    requestLogger(res).error('Regenerate failed', { error });
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/conversations/:id/messages/:messageId/edit
+ * Change a user message and answer it again. Later messages are replaced; the old
+ * text and the replaced messages stay in the message's `variants`.
+ * Body: { content, language?, grounding? }
+ */
+app.post('/api/conversations/:id/messages/:messageId/edit', async (req, res) => {
+  try {
+    const { content } = req.body;
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({ success: false, error: 'content string required' });
+    }
+
+    const conversation = await findConversation(res, req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+
+    const original = conversation.messages.find((m) => m.id === req.params.messageId);
+    if (!original || original.role !== 'user') {
+      return res.status(404).json({ success: false, error: 'User message not found' });
+    }
+
+    const settings = resolveQuerySettings(req.body, conversation);
+    if ('error' in settings) {
+      return res.status(settings.status).json({ success: false, error: settings.error });
+    }
+
+    requestLogger(res).info('Editing message', { conversationId: conversation.id, messageId: original.id });
+    // The conversation changes only once the new answer is there, so a failed query loses nothing
+    const result = await answerAgain(conversation, { ...original, content }, settings, res.locals.requestId);
+    const { question, answer } = await conversationManager.editUserMessage(
+      conversation.id,
+      original.id,
+      content,
+      result.answer,
+      result
+    );
+
+    res.json({
+      success: true,
+      conversationId: conversation.id,
+      messageId: answer.id,
+      variantCount: question.variants?.length ?? 0,
+      data: withTrace(req, result),
+    });
+  } catch (error: any) {
+    requestLogger(res).error('Edit failed', { error });
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/conversations/:id/fork
+ * Start a new conversation from the history up to (and including) a message.
+ * Body: { messageId }
+ */
+app.post('/api/conversations/:id/fork', async (req, res) => {
+  try {
+    const { messageId } = req.body;
+    if (!messageId || typeof messageId !== 'string') {
+      return res.status(400).json({ success: false, error: 'messageId string required' });
+    }
+
+    const conversation = await findConversation(res, req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+    if (!conversation.messages.some((m) => m.id === messageId)) {
+      return res.status(404).json({ success: false, error: 'Message not found' });
+    }
+
+    const branch = await conversationManager.forkConversation(conversation.id, messageId, principalOf(res).id);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        id: branch.id,
+        title: branch.title,
+        language: branch.language,
+        messageCount: branch.messages.length,
+        forkedFrom: branch.forkedFrom,
+        createdAt: branch.createdAt,
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
  * DELETE /api/conversations/:id
  * Delete a conversation
  */
-app.delete('/api/conversations/:id', (req, res) => {
+app.delete('/api/conversations/:id', async (req, res) => {
   try {
-    const deleted = conversationManager.deleteConversation(req.params.id);
+    const conversation = await findConversation(res, req.params.id);
+    const deleted = conversation !== undefined && (await conversationManager.deleteConversation(conversation.id));
 
     if (!deleted) {
       return res.status(404).json({ success: false, error: 'Conversation not found' });
@@ -217,17 +706,75 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', service: 'wikidai-poc' });
 });
 
+/**
+ * GET /api/traces?minDurationMs=
+ * Recent query traces of every caller, newest first (admin only; kept in memory: TRACE_BUFFER_SIZE)
+ */
+app.get('/api/traces', requireAdmin(), (req, res) => {
+  const minDurationMs = Number(req.query.minDurationMs) || 0;
+
+  res.json({
+    success: true,
+    traces: traces
+      .list()
+      .filter((trace) => trace.durationMs >= minDurationMs)
+      .map((trace) => ({
+        traceId: trace.traceId,
+        requestId: trace.requestId,
+        query: trace.query,
+        startedAt: new Date(trace.startTime).toISOString(),
+        durationMs: trace.durationMs,
+        outcome: trace.spans[0].attributes['wikidai.outcome'],
+        spans: trace.spans.length,
+      })),
+  });
+});
+
+/**
+ * GET /api/traces/:traceId?format=json|otlp
+ * One trace as recorded, or as OTLP/JSON for an OpenTelemetry collector or viewer (admin only)
+ */
+app.get('/api/traces/:traceId', requireAdmin(), (req, res) => {
+  const trace = traces.get(req.params.traceId);
+  if (!trace) {
+    return res.status(404).json({ success: false, error: 'Trace not found (only recent traces are kept)' });
+  }
+
+  switch (String(req.query.format || 'json')) {
+    case 'json':
+      return res.json({ success: true, trace });
+    case 'otlp':
+      res.attachment(`trace-${trace.traceId}.json`);
+      return res.json(exportTracesOtlp([trace], config.tracing.serviceName));
+    default:
+      return res.status(400).json({ success: false, error: 'format must be one of: json, otlp' });
+  }
+});
+
+/**
+ * GET /metrics
+ * Prometheus scrape endpoint
+ */
+app.get('/metrics', async (req, res) => {
+  try {
+    res.type('text/plain; version=0.0.4; charset=utf-8').send(await metrics.render());
+  } catch (error: any) {
+    res.status(500).type('text/plain').send(error.message);
+  }
+});
+
 /**
  * Start server
  */
 const PORT = config.port;
 app.listen(PORT, () => {
-  console.log(`\n${'='.repeat(60)}`);
-  console.log(`🚀 WikidAI PoC Backend Started`);
-  console.log(`${'='.repeat(60)}`);
-  console.log(`📡 Server: http://localhost:${PORT}`);
-  console.log(`🏥 Health: http://localhost:${PORT}/health`);
-  console.log(`🔑 Gemini API: ${config.geminiApiKey ? '✅ Configured' : '❌ Missing'}`);
-  console.log(`📦 Redis: ${config.redisUrl}`);
-  console.log(`${'='.repeat(60)}\n`);
+  logger.info('WikidAI PoC Backend started', {
+    url: `http://localhost:${PORT}`,
+    health: `http://localhost:${PORT}/health`,
+    metrics: `http://localhost:${PORT}/metrics`,
+    llmProvider: config.llm.provider,
+    geminiConfigured: !!config.geminiApiKey,
+    auth: config.auth.mode,
+    redis: new URL(config.redisUrl).host,
+  });
 });
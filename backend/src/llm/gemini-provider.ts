@@ -0,0 +1,116 @@
+import {
+  ChatSession as GeminiChatSession,
+  Content,
+  GenerateContentResult,
+  GoogleGenerativeAI,
+  UsageMetadata,
+} from '@google/generative-ai';
+import { ChatOptions, ChatSession, LLMFunctionResult, LLMProvider, LLMTurn, TranscriptEntry } from './provider';
+
+/**
+ * Gemini Provider
+ * Google Gemini via @google/generative-ai, with thinking-mode thoughts
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private genAI: GoogleGenerativeAI;
+
+  constructor(
+    apiKey: string,
+    readonly model: string,
+    private readonly temperature: number = 0.7
+  ) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  startChat(options: ChatOptions): ChatSession {
+    const model = this.genAI.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: this.temperature,
+      },
+      systemInstruction: options.systemInstruction,
+      tools: [
+        {
+          functionDeclarations: options.tools,
+        },
+      ],
+    });
+
+    const history: Content[] = [...options.history, ...(options.transcript || []).map(toContent)];
+    return new GeminiSession(model.startChat({ history }));
+  }
+}
+
+function toContent(entry: TranscriptEntry): Content {
+  switch (entry.role) {
+    case 'user':
+      return { role: 'user', parts: [{ text: entry.text }] };
+    case 'model':
+      return {
+        role: 'model',
+        parts: [
+          ...(entry.text ? [{ text: entry.text }] : []),
+          ...entry.functionCalls.map((call) => ({ functionCall: { name: call.name, args: call.args } })),
+        ],
+      };
+    case 'function':
+      return {
+        role: 'function',
+        parts: entry.results.map((result) => ({
+          functionResponse: { name: result.name, response: result.response },
+        })),
+      };
+  }
+}
+
+class GeminiSession implements ChatSession {
+  constructor(private readonly chat: GeminiChatSession) {}
+
+  async sendMessage(text: string): Promise<LLMTurn> {
+    return this.toTurn(await this.chat.sendMessage(text));
+  }
+
+  async sendFunctionResults(results: LLMFunctionResult[]): Promise<LLMTurn> {
+    return this.toTurn(
+      await this.chat.sendMessage(
+        results.map((result) => ({
+          functionResponse: {
+            name: result.name,
+            response: result.response,
+          },
+        }))
+      )
+    );
+  }
+
+  private toTurn(result: GenerateContentResult): LLMTurn {
+    const thoughts: string[] = [];
+    for (const part of result.response.candidates?.[0]?.content?.parts || []) {
+      if ('thought' in part && part.thought) {
+        thoughts.push(part.text || 'Thinking...');
+      }
+    }
+
+    const functionCalls = (result.response.functionCalls() || []).map((call) => ({
+      name: call.name,
+      args: call.args as Record<string, any>,
+    }));
+
+    // thoughtsTokenCount is reported by thinking models but not typed in this SDK version
+    const usage = result.response.usageMetadata as (UsageMetadata & { thoughtsTokenCount?: number }) | undefined;
+
+    return {
+      // text() throws when the response was blocked; only final turns need it
+      text: functionCalls.length > 0 ? '' : result.response.text(),
+      thoughts,
+      functionCalls,
+      usage: usage && {
+        promptTokens: usage.promptTokenCount ?? 0,
+        completionTokens: usage.candidatesTokenCount ?? 0,
+        thoughtTokens: usage.thoughtsTokenCount ?? 0,
+        cachedTokens: usage.cachedContentTokenCount ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * LLM providers
+ */
+
+import fs from 'fs';
+import { config } from '../config';
+import { LLMProvider } from './provider';
+import { GeminiProvider } from './gemini-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { ScriptedProvider, ScriptedTurn } from './scripted-provider';
+
+export type {
+  LLMProvider,
+  ChatSession,
+  ChatOptions,
+  ChatHistoryMessage,
+  LLMTurn,
+  LLMUsage,
+  LLMFunctionCall,
+  LLMFunctionResult,
+  TranscriptEntry,
+} from './provider';
+export type { ScriptedTurn, ScriptedRequest } from './scripted-provider';
+export { GeminiProvider, OpenAICompatibleProvider, ScriptedProvider };
+
+/**
+ * Create the provider selected by LLM_PROVIDER ('gemini' | 'openai' | 'scripted')
+ */
+export function createLLMProvider(): LLMProvider {
+  switch (config.llm.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config.llm.openaiBaseUrl, config.llm.openaiModel, config.llm.openaiApiKey);
+    case 'scripted': {
+      // JSON array of turns, e.g. [{"functionCalls":[{"name":"...","args":{}}]},{"text":"..."}]
+      const script = JSON.parse(fs.readFileSync(config.llm.scriptFile, 'utf-8')) as ScriptedTurn[];
+      return new ScriptedProvider(script);
+    }
+    case 'gemini':
+      return new GeminiProvider(config.geminiApiKey, config.llm.geminiModel);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${config.llm.provider}" (expected gemini, openai or scripted)`);
+  }
+}
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, test } from 'node:test';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+
+/** Tool-call arguments the stub server answers with, as the model would send them */
+let toolArguments = '';
+let server: http.Server;
+let baseUrl = '';
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    res.setHeader('content-type', 'application/json');
+    res.end(
+      JSON.stringify({
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                { id: 'call_1', type: 'function', function: { name: 'query_wikidata', arguments: toolArguments } },
+              ],
+            },
+          },
+        ],
+      })
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+after(() => server.close());
+
+function sendMessage() {
+  const provider = new OpenAICompatibleProvider(baseUrl, 'test-model');
+  return provider.startChat({ systemInstruction: '', tools: [], history: [] }).sendMessage('hi');
+}
+
+test('parses tool-call arguments', async () => {
+  toolArguments = '{"sparql_query": "SELECT * WHERE { ?s ?p ?o }"}';
+  const [call] = (await sendMessage()).functionCalls;
+
+  assert.deepEqual(call.args, { sparql_query: 'SELECT * WHERE { ?s ?p ?o }' });
+  assert.equal(call.argsError, undefined);
+});
+
+test('reports malformed tool-call arguments on the call instead of throwing', async () => {
+  toolArguments = '{"sparql_query": "SELECT';
+  const [call] = (await sendMessage()).functionCalls;
+
+  assert.equal(call.id, 'call_1');
+  assert.deepEqual(call.args, {});
+  assert.match(call.argsError!, /^Malformed function arguments .*: \{"sparql_query": "SELECT$/);
+});
+
+test('rejects arguments that are not a JSON object', async () => {
+  toolArguments = '["SELECT"]';
+  const [call] = (await sendMessage()).functionCalls;
+
+  assert.match(call.argsError!, /must be a JSON object/);
+});
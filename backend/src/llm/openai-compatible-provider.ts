@@ -0,0 +1,210 @@
+import axios from 'axios';
+import { FunctionDeclaration } from '@google/generative-ai';
+import {
+  ChatOptions,
+  ChatSession,
+  LLMFunctionCall,
+  LLMFunctionResult,
+  LLMProvider,
+  LLMTurn,
+  LLMUsage,
+  TranscriptEntry,
+} from './provider';
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+  /** Reasoning text exposed by some servers (llama.cpp, DeepSeek, vLLM) */
+  reasoning_content?: string;
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+interface OpenAIChatCompletion {
+  choices: Array<{
+    message: OpenAIMessage;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+/**
+ * OpenAI-Compatible Provider
+ * Any server implementing POST /chat/completions with tool calling
+ * (OpenAI, llama.cpp server, Ollama, vLLM, LM Studio...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly apiKey: string = '',
+    private readonly temperature: number = 0.7
+  ) {}
+
+  startChat(options: ChatOptions): ChatSession {
+    const messages: OpenAIMessage[] = [
+      { role: 'system', content: options.systemInstruction },
+      ...options.history.map((msg) => ({
+        role: (msg.role === 'model' ? 'assistant' : 'user') as OpenAIMessage['role'],
+        content: msg.parts.map((part) => part.text).join('\n'),
+      })),
+      ...(options.transcript || []).flatMap(toOpenAIMessages),
+    ];
+
+    return new OpenAICompatibleSession(this, messages, options.tools.map(toOpenAITool));
+  }
+
+  /**
+   * Call the chat completions endpoint
+   */
+  async complete(messages: OpenAIMessage[], tools: object[]): Promise<{ message: OpenAIMessage; usage?: LLMUsage }> {
+    const response = await axios.post<OpenAIChatCompletion>(
+      `${this.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        model: this.model,
+        messages,
+        tools: tools.length > 0 ? tools : undefined,
+        temperature: this.temperature,
+      },
+      {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        timeout: 120000,
+      }
+    );
+
+    const message = response.data.choices?.[0]?.message;
+    if (!message) {
+      throw new Error('OpenAI-compatible provider returned no choices');
+    }
+    return { message, usage: response.data.usage && toUsage(response.data.usage) };
+  }
+}
+
+class OpenAICompatibleSession implements ChatSession {
+  constructor(
+    private readonly provider: OpenAICompatibleProvider,
+    private readonly messages: OpenAIMessage[],
+    private readonly tools: object[]
+  ) {}
+
+  sendMessage(text: string): Promise<LLMTurn> {
+    this.messages.push({ role: 'user', content: text });
+    return this.next();
+  }
+
+  sendFunctionResults(results: LLMFunctionResult[]): Promise<LLMTurn> {
+    for (const result of results) {
+      this.messages.push({
+        role: 'tool',
+        tool_call_id: result.id,
+        content: JSON.stringify(result.response),
+      });
+    }
+    return this.next();
+  }
+
+  private async next(): Promise<LLMTurn> {
+    const { message, usage } = await this.provider.complete(this.messages, this.tools);
+    this.messages.push({ role: 'assistant', content: message.content, tool_calls: message.tool_calls });
+
+    return {
+      text: message.content || '',
+      thoughts: message.reasoning_content ? [message.reasoning_content] : [],
+      functionCalls: (message.tool_calls || []).map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        ...parseArguments(call.function.arguments),
+      })),
+      usage,
+    };
+  }
+}
+
+/**
+ * OpenAI counts reasoning inside completion_tokens; LLMUsage keeps them apart
+ */
+function toUsage(usage: OpenAIUsage): LLMUsage {
+  const thoughtTokens = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: (usage.completion_tokens ?? 0) - thoughtTokens,
+    thoughtTokens,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+  };
+}
+
+/**
+ * Restore a transcript step. Calls without provider IDs (e.g. recorded from Gemini)
+ * get positional IDs so tool results still match their calls.
+ */
+function toOpenAIMessages(entry: TranscriptEntry, index: number): OpenAIMessage[] {
+  switch (entry.role) {
+    case 'user':
+      return [{ role: 'user', content: entry.text }];
+    case 'model':
+      return [
+        {
+          role: 'assistant',
+          content: entry.text || null,
+          tool_calls: entry.functionCalls.map((call, i) => ({
+            id: call.id ?? `call_${index}_${i}`,
+            type: 'function' as const,
+            function: { name: call.name, arguments: JSON.stringify(call.args) },
+          })),
+        },
+      ];
+    case 'function':
+      return entry.results.map((result, i) => ({
+        role: 'tool' as const,
+        tool_call_id: result.id ?? `call_${index - 1}_${i}`,
+        content: JSON.stringify(result.response),
+      }));
+  }
+}
+
+/**
+ * Gemini function declarations already use JSON Schema type names ("object", "string"...)
+ */
+function toOpenAITool(declaration: FunctionDeclaration): object {
+  return {
+    type: 'function',
+    function: {
+      name: declaration.name,
+      description: declaration.description,
+      parameters: declaration.parameters ?? { type: 'object', properties: {} },
+    },
+  };
+}
+
+/**
+ * Parse the JSON arguments of a tool call. Malformed JSON is reported back to the
+ * model as the call's error (see LLMFunctionCall.argsError) rather than failing the query.
+ */
+function parseArguments(raw: string): Pick<LLMFunctionCall, 'args' | 'argsError'> {
+  try {
+    const args = raw ? JSON.parse(raw) : {};
+    if (args && typeof args === 'object' && !Array.isArray(args)) {
+      return { args };
+    }
+    return { args: {}, argsError: `Function arguments must be a JSON object, got: ${raw}` };
+  } catch (error: any) {
+    return { args: {}, argsError: `Malformed function arguments (${error.message}): ${raw}` };
+  }
+}
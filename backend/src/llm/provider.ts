@@ -0,0 +1,97 @@
+/**
+ * LLM Provider Interface
+ *
+ * The orchestrator's tool loop talks to the model only through these types,
+ * so any chat model with function calling can drive it (Gemini, an
+ * OpenAI-compatible server, or a scripted fake for offline tests).
+ */
+
+import { FunctionDeclaration } from '@google/generative-ai';
+
+/**
+ * Prior conversation turn (Gemini-style roles: 'user' | 'model')
+ */
+export interface ChatHistoryMessage {
+  role: string;
+  parts: Array<{ text: string }>;
+}
+
+export interface LLMFunctionCall {
+  /** Provider-assigned call ID (required by OpenAI-style APIs to match results) */
+  id?: string;
+  name: string;
+  args: Record<string, any>;
+  /** Set when the arguments could not be parsed: the call is answered with this error instead of running */
+  argsError?: string;
+}
+
+export interface LLMFunctionResult {
+  id?: string;
+  name: string;
+  response: Record<string, any>;
+}
+
+/**
+ * Token counts of one model response
+ */
+export interface LLMUsage {
+  /** Prompt tokens, cached ones included */
+  promptTokens: number;
+  /** Output tokens, thoughts excluded */
+  completionTokens: number;
+  thoughtTokens: number;
+  /** Prompt tokens served from the provider's context cache */
+  cachedTokens: number;
+}
+
+/**
+ * One model response within the tool loop
+ */
+export interface LLMTurn {
+  /** Visible text (the final answer when there are no function calls) */
+  text: string;
+  /** Reasoning/thought parts, if the model exposes them */
+  thoughts: string[];
+  /** Function calls requested by the model */
+  functionCalls: LLMFunctionCall[];
+  /** Token counts, when the provider reports them */
+  usage?: LLMUsage;
+}
+
+/**
+ * One step of an in-progress tool loop, in provider-neutral form.
+ * Lets a paused workflow be persisted and later restored on any provider.
+ */
+export type TranscriptEntry =
+  | { role: 'user'; text: string }
+  | { role: 'model'; text: string; functionCalls: LLMFunctionCall[] }
+  | { role: 'function'; results: LLMFunctionResult[] };
+
+export interface ChatOptions {
+  systemInstruction: string;
+  tools: FunctionDeclaration[];
+  history: ChatHistoryMessage[];
+  /** Tool-loop steps to restore after the history (resuming a paused workflow) */
+  transcript?: TranscriptEntry[];
+}
+
+/**
+ * A stateful chat: keeps the message history between turns
+ */
+export interface ChatSession {
+  /** Send a user message */
+  sendMessage(text: string): Promise<LLMTurn>;
+
+  /** Send the results of the previous turn's function calls */
+  sendFunctionResults(results: LLMFunctionResult[]): Promise<LLMTurn>;
+}
+
+export interface LLMProvider {
+  /** Provider name for logging, e.g. 'gemini' */
+  readonly name: string;
+
+  /** Model identifier used by this provider */
+  readonly model: string;
+
+  startChat(options: ChatOptions): ChatSession;
+}
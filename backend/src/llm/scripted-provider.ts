@@ -0,0 +1,66 @@
+import { ChatOptions, ChatSession, LLMFunctionResult, LLMProvider, LLMTurn } from './provider';
+
+/**
+ * What the scripted model received for one turn
+ */
+export type ScriptedRequest =
+  | { type: 'message'; text: string; options: ChatOptions }
+  | { type: 'function_results'; results: LLMFunctionResult[]; options: ChatOptions };
+
+/**
+ * A scripted turn: a fixed response, or a function computing it from the request
+ */
+export type ScriptedTurn = Partial<LLMTurn> | ((request: ScriptedRequest) => Partial<LLMTurn>);
+
+/**
+ * Scripted Provider
+ *
+ * Fake model for offline tests: replays a fixed list of turns (final answers or
+ * function calls) and records every request it received, so the full multi-turn
+ * function-calling loop can run without an API key or network.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  readonly model = 'scripted';
+
+  /** Every request received, in order */
+  readonly requests: ScriptedRequest[] = [];
+
+  private cursor = 0;
+
+  constructor(private readonly script: ScriptedTurn[]) {}
+
+  /**
+   * Number of scripted turns not yet consumed
+   */
+  get remaining(): number {
+    return this.script.length - this.cursor;
+  }
+
+  startChat(options: ChatOptions): ChatSession {
+    return {
+      sendMessage: async (text) => this.next({ type: 'message', text, options }),
+      sendFunctionResults: async (results) => this.next({ type: 'function_results', results, options }),
+    };
+  }
+
+  private next(request: ScriptedRequest): LLMTurn {
+    this.requests.push(request);
+
+    const step = this.script[this.cursor++];
+    if (!step) {
+      throw new Error(`Scripted provider exhausted after ${this.script.length} turn(s)`);
+    }
+
+    const turn = typeof step === 'function' ? step(request) : step;
+    return {
+      text: turn.text ?? '',
+      thoughts: turn.thoughts ?? [],
+      functionCalls: (turn.functionCalls ?? []).map((call, idx) => ({
+        ...call,
+        id: call.id ?? `call_${this.cursor}_${idx}`,
+      })),
+      usage: turn.usage,
+    };
+  }
+}
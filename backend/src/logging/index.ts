@@ -0,0 +1,12 @@
+/**
+ * Structured logging with request correlation IDs
+ */
+
+import { createLogger } from './logger';
+
+export { Logger, USER_TEXT_FIELDS, createLogger } from './logger';
+export type { LogLevel, LogFields, LoggerOptions } from './logger';
+export { requestLogging, requestLogger } from './request-context';
+
+/** Process-wide logger; request-scoped loggers are its children */
+export const logger = createLogger();
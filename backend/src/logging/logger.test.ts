@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { LogFields, Logger, LoggerOptions } from './logger';
+
+/**
+ * Log one warning and return the entry as written
+ */
+function logged(fields: LogFields, options: Partial<LoggerOptions> = {}): Record<string, unknown> {
+  const lines: string[] = [];
+  const log = new Logger({
+    level: 'debug',
+    format: 'json',
+    redactSecrets: true,
+    secrets: [],
+    redactUserText: true,
+    write: (line) => lines.push(line),
+    ...options,
+  });
+
+  log.warn('test', fields);
+  return JSON.parse(lines[0]);
+}
+
+test('masks user text fields, including Wikipedia sections', () => {
+  const entry = logged({ query: 'Who is Ada?', section: 'Early life', agent: 'get_wikipedia_section' });
+
+  assert.equal(entry.query, '[redacted 11 chars]');
+  assert.equal(entry.section, '[redacted 10 chars]');
+  assert.equal(entry.agent, 'get_wikipedia_section');
+});
+
+test('masks error messages, which quote the user input', () => {
+  const diagnostic = 'Parse error on line 1: SELECT ?x WHERE { wd:Q42';
+  const notFound = 'Article "Ada Lovelace" not found';
+  const entry = logged({ error: diagnostic, cause: new Error(notFound) });
+
+  assert.equal(entry.error, `[redacted ${diagnostic.length} chars]`);
+  assert.equal(entry.cause, `[redacted ${notFound.length} chars]`);
+});
+
+test('keeps error messages when user text redaction is off', () => {
+  const entry = logged({ error: new Error('Article "Ada Lovelace" not found') }, { redactUserText: false });
+
+  assert.equal(entry.error, 'Article "Ada Lovelace" not found');
+});
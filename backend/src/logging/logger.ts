@@ -0,0 +1,156 @@
+import { config } from '../config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Fields that carry text written by the user or derived from it (questions, answers,
+ * search terms, generated SPARQL, agent output). Masked when user text redaction is on.
+ */
+export const USER_TEXT_FIELDS = new Set([
+  'query', 'term', 'title', 'section', 'answer', 'thought', 'params', 'sparql', 'result', 'location', 'content',
+]);
+
+/** Error messages quote their input (SPARQL diagnostics, article titles), so they count as user text too */
+const ERROR_FIELD = 'error';
+
+/** Field names whose values are credentials */
+const SECRET_FIELD = /api[-_]?key|authorization|password|secret|token$/i;
+
+export interface LoggerOptions {
+  level: LogLevel;
+  /** 'json': one object per line; 'pretty': readable lines for development */
+  format: 'json' | 'pretty';
+  /** Mask credentials: secret-named fields and the values in `secrets`, wherever they appear */
+  redactSecrets: boolean;
+  secrets: string[];
+  /** Mask USER_TEXT_FIELDS and error messages */
+  redactUserText: boolean;
+  /** Output sink (defaults to stdout, stderr for warn and error) */
+  write?: (line: string, level: LogLevel) => void;
+}
+
+/**
+ * Structured logger. Child loggers carry bound fields (e.g. requestId, agent)
+ * into every entry they write.
+ */
+export class Logger {
+  constructor(
+    private readonly options: LoggerOptions,
+    private readonly bindings: LogFields = {}
+  ) {}
+
+  child(bindings: LogFields): Logger {
+    return new Logger(this.options, { ...this.bindings, ...bindings });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[this.options.level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) return;
+
+    const entry = this.redactFields({ ...this.bindings, ...fields });
+    const msg = this.maskSecrets(message);
+    const time = new Date().toISOString();
+
+    const line =
+      this.options.format === 'json'
+        ? JSON.stringify({ time, level, msg, ...entry })
+        : formatPretty(time, level, msg, entry);
+
+    if (this.options.write) {
+      this.options.write(line, level);
+    } else if (LEVELS[level] >= LEVELS.warn) {
+      process.stderr.write(line + '\n');
+    } else {
+      process.stdout.write(line + '\n');
+    }
+  }
+
+  private redactFields(fields: LogFields): LogFields {
+    const result: LogFields = {};
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === undefined) continue;
+
+      const text = value instanceof Error ? value.message : value;
+      if (this.options.redactUserText && (USER_TEXT_FIELDS.has(key) || key === ERROR_FIELD || value instanceof Error)) {
+        result[key] = typeof text === 'string' ? `[redacted ${text.length} chars]` : '[redacted]';
+      } else if (this.options.redactSecrets && SECRET_FIELD.test(key)) {
+        result[key] = '[REDACTED]';
+      } else {
+        result[key] = this.sanitize(text, 0);
+      }
+    }
+
+    return result;
+  }
+
+  private sanitize(value: unknown, depth: number): unknown {
+    if (typeof value === 'string') return this.maskSecrets(value);
+    if (value === null || typeof value !== 'object' || depth >= 5) return value;
+    if (Array.isArray(value)) return value.map((item) => this.sanitize(item, depth + 1));
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        this.options.redactSecrets && SECRET_FIELD.test(key) ? '[REDACTED]' : this.sanitize(item, depth + 1),
+      ])
+    );
+  }
+
+  private maskSecrets(text: string): string {
+    if (!this.options.redactSecrets) return text;
+    return this.options.secrets.reduce((masked, secret) => masked.split(secret).join('[REDACTED]'), text);
+  }
+}
+
+function formatPretty(time: string, level: LogLevel, msg: string, fields: LogFields): string {
+  const { requestId, ...rest } = fields;
+  const prefix = `${time.slice(11, 23)} ${level.toUpperCase().padEnd(5)}${requestId ? ` [${String(requestId).slice(0, 8)}]` : ''}`;
+  const details = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : '';
+  return `${prefix} ${msg}${details}`;
+}
+
+/**
+ * Logger configured from LOG_LEVEL, LOG_FORMAT and LOG_REDACT
+ */
+export function createLogger(options: Partial<LoggerOptions> = {}): Logger {
+  const level = (config.logging.level in LEVELS ? config.logging.level : 'info') as LogLevel;
+  const { redact } = config.logging;
+
+  return new Logger({
+    level,
+    format: config.logging.format === 'json' ? 'json' : 'pretty',
+    redactSecrets: redact.includes('secrets'),
+    // Short values would mask unrelated text
+    secrets: [
+      config.geminiApiKey,
+      config.llm.openaiApiKey,
+      config.auth.jwt.secret,
+      ...config.auth.apiKeys.map((entry) => entry.split(':')[0]),
+    ].filter((secret) => secret.length >= 8),
+    redactUserText: redact.includes('user_text'),
+    ...options,
+  });
+}
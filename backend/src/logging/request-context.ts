@@ -0,0 +1,47 @@
+import { randomUUID } from 'crypto';
+import { Request, RequestHandler, Response } from 'express';
+import { Logger } from './logger';
+
+/** Client-supplied IDs are kept only when they look like IDs */
+const REQUEST_ID = /^[\w.:-]{1,64}$/;
+
+/**
+ * Express middleware: assign a correlation ID to each request (reusing a valid
+ * X-Request-ID header), echo it in the response and log the request when it finishes
+ */
+export function requestLogging(root: Logger): RequestHandler {
+  return (req: Request, res: Response, next) => {
+    const header = req.header('x-request-id');
+    const requestId = header && REQUEST_ID.test(header) ? header : randomUUID();
+    const log = root.child({ requestId });
+    const startedAt = Date.now();
+
+    res.locals.requestId = requestId;
+    res.locals.logger = log;
+    res.setHeader('X-Request-ID', requestId);
+
+    res.on('finish', () => {
+      const fields = {
+        method: req.method,
+        // Route pattern rather than the URL: IDs and query strings stay out of the logs
+        route: req.route ? `${req.baseUrl}${req.route.path}` : req.path,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+      };
+      if (res.statusCode >= 500) {
+        log.error('Request failed', fields);
+      } else {
+        log.info('Request completed', fields);
+      }
+    });
+
+    next();
+  };
+}
+
+/**
+ * Logger bound to the current request's ID
+ */
+export function requestLogger(res: Response): Logger {
+  return res.locals.logger;
+}
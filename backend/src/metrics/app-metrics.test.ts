@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AppMetrics } from './app-metrics';
+import { Counter, Gauge, MetricsRegistry } from './registry';
+
+/**
+ * Lines of one metric in a rendered registry: HELP, TYPE and samples
+ */
+function metricLines(text: string, name: string): string[] {
+  const line = new RegExp(`^(# (HELP|TYPE) )?${name}(_bucket|_sum|_count)?[{ ]`);
+  return text.split('\n').filter((candidate) => line.test(candidate));
+}
+
+test('renders the orchestrator hook events in the Prometheus text format', async () => {
+  const metrics = new AppMetrics(async () => 3);
+  const hooks = metrics.orchestratorHooks();
+
+  hooks.onQueryComplete!({ outcome: 'answer', turns: 2, latencyMs: 1500 });
+  hooks.onQueryComplete!({ outcome: 'answer', turns: 7, latencyMs: 40000 });
+  hooks.onAgentCall!({ agent: 'query_wikidata', outcome: 'success', durationMs: 300, cache: 'miss' });
+  hooks.onAgentCall!({ agent: 'query_wikidata', outcome: 'success', durationMs: 2, cache: 'hit' });
+  hooks.onAgentRejected!({ agent: 'query_wikidata', reason: 'service' });
+
+  const text = await metrics.render();
+
+  assert.ok(text.endsWith('\n'));
+  assert.deepEqual(metricLines(text, 'wikidai_queries_total'), [
+    '# HELP wikidai_queries_total Orchestrated queries by outcome (answer, clarification, incomplete)',
+    '# TYPE wikidai_queries_total counter',
+    'wikidai_queries_total{outcome="answer"} 2',
+  ]);
+  assert.deepEqual(metricLines(text, 'wikidai_query_turns'), [
+    '# HELP wikidai_query_turns Model turns per orchestrated query',
+    '# TYPE wikidai_query_turns histogram',
+    'wikidai_query_turns_bucket{le="1"} 0',
+    'wikidai_query_turns_bucket{le="2"} 1',
+    'wikidai_query_turns_bucket{le="3"} 1',
+    'wikidai_query_turns_bucket{le="4"} 1',
+    'wikidai_query_turns_bucket{le="5"} 1',
+    'wikidai_query_turns_bucket{le="6"} 1',
+    'wikidai_query_turns_bucket{le="8"} 2',
+    'wikidai_query_turns_bucket{le="10"} 2',
+    'wikidai_query_turns_bucket{le="+Inf"} 2',
+    'wikidai_query_turns_sum 9',
+    'wikidai_query_turns_count 2',
+  ]);
+  assert.ok(text.includes('wikidai_agent_call_duration_seconds_bucket{agent="query_wikidata",le="0.25"} 1\n'));
+  assert.ok(text.includes('wikidai_agent_call_duration_seconds_bucket{agent="query_wikidata",le="0.5"} 2\n'));
+  assert.ok(text.includes('wikidai_sparql_validation_failures_total{reason="service"} 1\n'));
+  assert.ok(text.includes('wikidai_cache_hit_ratio 0.5\n'));
+  assert.ok(text.includes('wikidai_active_conversations 3\n'));
+});
+
+test('escapes backslashes, quotes and newlines in label values', async () => {
+  const registry = new MetricsRegistry();
+  const counter = registry.register(new Counter('test_total', 'Test counter'));
+
+  counter.inc({ route: '/a\\b', reason: 'say "hi"\nnow' });
+
+  assert.ok((await registry.render()).includes('test_total{reason="say \\"hi\\"\\nnow",route="/a\\\\b"} 1\n'));
+});
+
+test('keeps the last gauge value when its source fails', async () => {
+  const registry = new MetricsRegistry();
+  let fail = false;
+  registry.register(
+    new Gauge('test_gauge', 'Test gauge', () => {
+      if (fail) throw new Error('store unavailable');
+      return 7;
+    })
+  );
+
+  await registry.render();
+  fail = true;
+
+  assert.ok((await registry.render()).includes('test_gauge 7\n'));
+});
+
+test('refuses two metrics with the same name', () => {
+  const registry = new MetricsRegistry();
+  registry.register(new Counter('test_total', 'Test counter'));
+
+  assert.throws(() => registry.register(new Counter('test_total', 'Again')), /already registered/);
+});
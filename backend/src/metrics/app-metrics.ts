@@ -0,0 +1,110 @@
+import type { RequestHandler } from 'express';
+import type { OrchestratorHooks } from '../orchestrator';
+import { Counter, Gauge, Histogram, MetricsRegistry } from './registry';
+
+/**
+ * WikidAI metrics: HTTP routes, orchestrator queries, agent calls, SPARQL gate and cache.
+ * Fed by the Express middleware and the orchestrator hooks, exposed on /metrics.
+ */
+export class AppMetrics {
+  readonly registry = new MetricsRegistry();
+
+  private httpRequests = this.registry.register(
+    new Counter('wikidai_http_requests_total', 'HTTP requests by method, route and status code')
+  );
+  private httpDuration = this.registry.register(
+    new Histogram('wikidai_http_request_duration_seconds', 'HTTP request latency by method and route', [
+      0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+    ])
+  );
+  private queries = this.registry.register(
+    new Counter('wikidai_queries_total', 'Orchestrated queries by outcome (answer, clarification, incomplete)')
+  );
+  private queryTurns = this.registry.register(
+    new Histogram('wikidai_query_turns', 'Model turns per orchestrated query', [1, 2, 3, 4, 5, 6, 8, 10])
+  );
+  private queryDuration = this.registry.register(
+    new Histogram('wikidai_query_duration_seconds', 'Orchestrated query latency', [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120])
+  );
+  private agentCalls = this.registry.register(
+    new Counter('wikidai_agent_calls_total', 'Agent calls by agent and outcome (success, error)')
+  );
+  private agentDuration = this.registry.register(
+    new Histogram('wikidai_agent_call_duration_seconds', 'Agent call latency by agent (cache hits included)', [
+      0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30,
+    ])
+  );
+  private agentRejections = this.registry.register(
+    new Counter('wikidai_agent_rejections_total', 'Inputs rejected by an agent, by agent and reason')
+  );
+  private sparqlFailures = this.registry.register(
+    new Counter('wikidai_sparql_validation_failures_total', 'SPARQL queries refused by the gate, by reason')
+  );
+  private cacheLookups = this.registry.register(
+    new Counter('wikidai_cache_lookups_total', 'Agent cache lookups by agent and result (hit, miss)')
+  );
+
+  /**
+   * @param countConversations - Number of stored conversations, read at scrape time
+   */
+  constructor(countConversations: () => Promise<number>) {
+    this.registry.register(
+      new Gauge('wikidai_cache_hit_ratio', 'Share of agent cache lookups served from cache', () => {
+        const lookups = this.cacheLookups.total();
+        return lookups > 0 ? this.cacheLookups.total({ result: 'hit' }) / lookups : 0;
+      })
+    );
+    this.registry.register(
+      new Gauge('wikidai_active_conversations', 'Conversations currently stored', countConversations)
+    );
+  }
+
+  /**
+   * Hooks to pass to GeminiOrchestrator
+   */
+  orchestratorHooks(): OrchestratorHooks {
+    return {
+      onQueryComplete: ({ outcome, turns, latencyMs }) => {
+        this.queries.inc({ outcome });
+        this.queryTurns.observe({}, turns);
+        this.queryDuration.observe({}, latencyMs / 1000);
+      },
+      onAgentCall: ({ agent, outcome, durationMs, cache }) => {
+        this.agentCalls.inc({ agent, outcome });
+        this.agentDuration.observe({ agent }, durationMs / 1000);
+        if (cache) {
+          this.cacheLookups.inc({ agent, result: cache });
+        }
+      },
+      onAgentRejected: ({ agent, reason }) => {
+        this.agentRejections.inc({ agent, reason });
+        if (agent === 'query_wikidata') {
+          this.sparqlFailures.inc({ reason });
+        }
+      },
+    };
+  }
+
+  /**
+   * Express middleware counting requests per matched route (not per raw URL, to bound label values)
+   */
+  httpMiddleware(): RequestHandler {
+    return (req, res, next) => {
+      const startedAt = process.hrtime.bigint();
+
+      res.on('finish', () => {
+        const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+        const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+
+        this.httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+        this.httpDuration.observe({ method: req.method, route }, seconds);
+      });
+
+      next();
+    };
+  }
+
+  render(): Promise<string> {
+    return this.registry.render();
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Prometheus metrics
+ */
+
+export { AppMetrics } from './app-metrics';
+export { MetricsRegistry, Counter, Gauge, Histogram } from './registry';
+export type { Labels } from './registry';
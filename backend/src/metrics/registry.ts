@@ -0,0 +1,160 @@
+/**
+ * Minimal Prometheus metrics (text exposition format 0.0.4):
+ * counters, gauges and histograms with labels, rendered by a registry.
+ */
+
+import { logger } from '../logging';
+
+export type Labels = Record<string, string>;
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  collect?(): Promise<void>;
+  samples(): string[];
+}
+
+/**
+ * Labels in a stable order, so the same set always maps to the same series
+ */
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((key) => [key, labels[key]]));
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((key) => `${key}="${labels[key].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.series.set(key, entry);
+  }
+
+  /** Sum over the series matching the given labels */
+  total(filter: Labels = {}): number {
+    let sum = 0;
+    for (const { labels, value } of this.series.values()) {
+      if (Object.entries(filter).every(([key, expected]) => labels[key] === expected)) {
+        sum += value;
+      }
+    }
+    return sum;
+  }
+
+  samples(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+/**
+ * Gauge whose value is read at scrape time
+ */
+export class Gauge implements Metric {
+  readonly type = 'gauge';
+  private value = 0;
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly read: () => number | Promise<number>
+  ) {}
+
+  async collect(): Promise<void> {
+    try {
+      this.value = await this.read();
+    } catch (error: any) {
+      // Keep the last value: a failing source should not fail the scrape
+      logger.warn('Could not read gauge', { metric: this.name, error });
+    }
+  }
+
+  samples(): string[] {
+    return [`${this.name} ${formatValue(this.value)}`];
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  /**
+   * @param buckets - Upper bounds, ascending (+Inf is implicit)
+   */
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.some((m) => m.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * All metrics in Prometheus text format (gauges are read first)
+   */
+  async render(): Promise<string> {
+    await Promise.all(this.metrics.map((metric) => metric.collect?.()));
+
+    const blocks = this.metrics.map((metric) =>
+      [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.samples()].join('\n')
+    );
+    return blocks.join('\n') + '\n';
+  }
+}
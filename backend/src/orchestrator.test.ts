@@ -0,0 +1,272 @@
+/**
+ * Offline end-to-end tests of the tool loop: a ScriptedProvider plays the model and
+ * Wikidata answers come from fixtures/cassettes/tool-loop.json (no network, no API key).
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { GeminiOrchestrator, OrchestratorHooks } from './orchestrator';
+import { Agent, AgentRegistry } from './agents';
+import { WikidataAgent } from './agents/wikidata-agent';
+import { ScriptedProvider, ScriptedRequest } from './llm';
+import { ejectCassette, useCassette } from './cassettes';
+import { PendingClarification, SourceRef } from './types';
+
+/** Prefixes and LIMIT left out on purpose: the SPARQL gate repairs the query */
+const BIRTH_QUERY = `SELECT ?birthDate ?place ?placeLabel WHERE {
+  wd:Q42 wdt:P569 ?birthDate ;
+         wdt:P19 ?place .
+  SERVICE wikibase:label { bd:serviceParam wikibase:language "en". }
+}`;
+
+/**
+ * Text of the single function result the model received in a request
+ */
+function functionResult(request: ScriptedRequest): { result?: string; error?: string } {
+  assert.equal(request.type, 'function_results');
+  assert.equal(request.results.length, 1);
+  return request.results[0].response as { result?: string; error?: string };
+}
+
+/**
+ * Agent whose every lookup is ambiguous, so the workflow pauses for the user
+ */
+const placeAgent: Agent<{ name: string }, string[]> = {
+  name: 'find_place',
+  declaration: { name: 'find_place', description: 'Find a place by name' },
+  validateArgs: (args) => ({ name: String(args.name) }),
+  invoke: async () => ['Springfield, Illinois', 'Springfield, Massachusetts'],
+  formatResult: (places) => places.join('\n'),
+  sources: (places) => places.map(placeSource),
+  clarify: (args, places) => ({
+    question: `Which ${args.name}?`,
+    options: places.map((label, i) => ({
+      id: String(i + 1),
+      label,
+      result: `Chosen place: ${label}`,
+      sources: [placeSource(label)],
+    })),
+  }),
+};
+
+function placeSource(label: string): SourceRef {
+  return { type: 'openstreetmap', title: label, url: `https://example.org/${encodeURIComponent(label)}` };
+}
+
+/** Agent that always answers, to run next to an ambiguous lookup */
+const spellAgent: Agent<{ word: string }, string> = {
+  name: 'spell',
+  declaration: { name: 'spell', description: 'Spell a word in capitals' },
+  validateArgs: (args) => ({ word: String(args.word) }),
+  invoke: async ({ word }) => word.toUpperCase(),
+  formatResult: (word) => word,
+};
+
+function createOrchestrator(provider: ScriptedProvider, hooks: OrchestratorHooks = {}): GeminiOrchestrator {
+  const registry = new AgentRegistry().register(new WikidataAgent()).register(placeAgent).register(spellAgent);
+  return new GeminiOrchestrator(undefined, registry, provider, hooks);
+}
+
+describe('tool loop (scripted model)', () => {
+  afterEach(() => ejectCassette());
+
+  test('runs a repaired SPARQL query and answers from its results', async () => {
+    useCassette('tool-loop', 'replay');
+    const provider = new ScriptedProvider([
+      { functionCalls: [{ name: 'query_wikidata', args: { sparql_query: BIRTH_QUERY } }] },
+      (request) => {
+        const { result } = functionResult(request);
+        assert.match(result!, /Found 1 result/);
+        assert.match(result!, /1952-03-11/);
+        return { text: 'Douglas Adams was born on 11 March 1952 in Cambridge (Q350) [S1].' };
+      },
+    ]);
+
+    const response = await createOrchestrator(provider).executeQuery('When was Douglas Adams born?', [], {
+      grounding: 'report',
+    });
+
+    assert.equal(provider.remaining, 0);
+    assert.equal(response.agentCalls.length, 1);
+
+    const [call] = response.agentCalls;
+    assert.equal(call.agent, 'query_wikidata');
+    assert.deepEqual(call.table?.columns, ['birthDate', 'place', 'placeLabel']);
+    assert.equal(call.table?.rows[0][2]?.value, 'Cambridge');
+
+    assert.ok(response.sources.some((source) => source.url.includes('LIMIT%20100')));
+    assert.deepEqual(response.grounding?.unsupported, []);
+    assert.deepEqual(
+      response.grounding?.supported.map((claim) => claim.text),
+      ['11 March 1952', 'Q350']
+    );
+  });
+
+  test('returns refused SPARQL to the model as an error and keeps going', async () => {
+    const rejected: string[] = [];
+    const provider = new ScriptedProvider([
+      { functionCalls: [{ name: 'query_wikidata', args: { sparql_query: 'DELETE WHERE { ?s ?p ?o }' } }] },
+      (request) => {
+        assert.match(functionResult(request).error!, /SPARQL validation failed/);
+        return { functionCalls: [{ name: 'no_such_tool', args: {} }] };
+      },
+      (request) => {
+        assert.match(functionResult(request).error!, /Unknown function: no_such_tool/);
+        return { text: 'I could not run that query.' };
+      },
+    ]);
+    const orchestrator = createOrchestrator(provider, {
+      onAgentRejected: ({ reason }) => rejected.push(reason),
+    });
+
+    const response = await orchestrator.executeQuery('Delete everything', [], { grounding: 'off' });
+
+    assert.equal(response.answer, 'I could not run that query.');
+    assert.deepEqual(response.agentCalls, []);
+    assert.deepEqual(rejected, ['update']);
+  });
+
+  test('answers a call with unparsable arguments with an error', async () => {
+    const provider = new ScriptedProvider([
+      { functionCalls: [{ name: 'query_wikidata', args: {}, argsError: 'Malformed function arguments: {"sparql' }] },
+      (request) => {
+        assert.deepEqual(functionResult(request), { error: 'Malformed function arguments: {"sparql' });
+        return { text: 'Sorry, let me try again later.' };
+      },
+    ]);
+
+    const response = await createOrchestrator(provider).executeQuery('Anything', [], { grounding: 'off' });
+
+    assert.equal(response.answer, 'Sorry, let me try again later.');
+  });
+
+  test('revises an answer with unsupported values in strict grounding mode', async () => {
+    useCassette('tool-loop', 'replay');
+    const provider = new ScriptedProvider([
+      { functionCalls: [{ name: 'query_wikidata', args: { sparql_query: BIRTH_QUERY } }] },
+      { text: 'Douglas Adams was born on 11 March 1951.' },
+      (request) => {
+        assert.equal(request.type, 'message');
+        assert.match(request.text, /"11 March 1951" \(date\)/);
+        return { text: 'Douglas Adams was born on 11 March 1952.' };
+      },
+    ]);
+
+    let turns = 0;
+    const orchestrator = createOrchestrator(provider, {
+      onQueryComplete: (event) => {
+        turns = event.turns;
+      },
+    });
+
+    const response = await orchestrator.executeQuery('When was Douglas Adams born?', [], {
+      grounding: 'strict',
+    });
+
+    assert.equal(response.answer, 'Douglas Adams was born on 11 March 1952.');
+    assert.equal(response.grounding?.revised, true);
+    assert.equal(response.grounding?.originalAnswer, 'Douglas Adams was born on 11 March 1951.');
+    assert.deepEqual(response.grounding?.unsupported, []);
+    // The revision is a model turn of its own
+    assert.equal(turns, 3);
+  });
+
+  test('pauses on an ambiguous result and resumes with the chosen option', async () => {
+    let pending: PendingClarification | undefined;
+    const provider = new ScriptedProvider([
+      { functionCalls: [{ name: 'find_place', args: { name: 'Springfield' } }] },
+      (request) => {
+        assert.match(functionResult(request).result!, /^Chosen place: Springfield, Massachusetts\n\nSources/);
+        return { text: 'Springfield, Massachusetts it is.' };
+      },
+    ]);
+    const orchestrator = createOrchestrator(provider);
+
+    const paused = await orchestrator.executeQuery('Weather in Springfield?', [], {
+      grounding: 'off',
+      onPause: (saved) => {
+        pending = saved;
+      },
+    });
+
+    assert.equal(paused.clarification?.question, 'Which Springfield?');
+    assert.deepEqual(
+      paused.clarification?.options.map((option) => option.label),
+      ['Springfield, Illinois', 'Springfield, Massachusetts']
+    );
+    assert.ok(pending);
+
+    // Round-trip through JSON, as when the workflow is stored with the conversation
+    const chunks: string[] = [];
+    const resumed = await orchestrator.resumeQuery(JSON.parse(JSON.stringify(pending)), '2', {
+      grounding: 'off',
+      onChunk: (chunk) => chunks.push(chunk.type),
+    });
+
+    assert.equal(resumed.answer, 'Springfield, Massachusetts it is.');
+    assert.match(resumed.agentCalls[0].response, /^Chosen place: Springfield, Massachusetts/);
+    assert.deepEqual(chunks, ['agent_response', 'final_answer']);
+    assert.equal(provider.remaining, 0);
+  });
+
+  test('cites only the chosen option and answers the calls in order', async () => {
+    let pending: PendingClarification | undefined;
+    const provider = new ScriptedProvider([
+      {
+        functionCalls: [
+          { name: 'find_place', args: { name: 'Springfield' } },
+          { name: 'spell', args: { word: 'weather' } },
+        ],
+      },
+      (request) => {
+        assert.equal(request.type, 'function_results');
+        assert.deepEqual(
+          request.results.map((result) => result.name),
+          ['find_place', 'spell']
+        );
+        return { text: 'Springfield, Illinois it is [S1].' };
+      },
+    ]);
+    const orchestrator = createOrchestrator(provider);
+    await orchestrator.executeQuery('Weather in Springfield?', [], {
+      grounding: 'off',
+      onPause: (saved) => {
+        pending = saved;
+      },
+    });
+
+    const resumed = await orchestrator.resumeQuery(JSON.parse(JSON.stringify(pending)), '1', { grounding: 'off' });
+
+    assert.deepEqual(
+      resumed.sources.map((source) => source.title),
+      ['Springfield, Illinois']
+    );
+    const placeCall = resumed.agentCalls.find((call) => call.agent === 'find_place');
+    assert.deepEqual(placeCall?.sourceIds, ['S1']);
+    assert.equal(provider.remaining, 0);
+  });
+
+  test('resumes even when the stream listener throws', async () => {
+    let pending: PendingClarification | undefined;
+    const provider = new ScriptedProvider([
+      { functionCalls: [{ name: 'find_place', args: { name: 'Springfield' } }] },
+      { text: 'Springfield, Illinois it is.' },
+    ]);
+    const orchestrator = createOrchestrator(provider);
+    await orchestrator.executeQuery('Weather in Springfield?', [], {
+      grounding: 'off',
+      onPause: (saved) => {
+        pending = saved;
+      },
+    });
+
+    const resumed = await orchestrator.resumeQuery(pending!, '1', {
+      grounding: 'off',
+      onChunk: () => {
+        throw new Error('client went away');
+      },
+    });
+
+    assert.equal(resumed.answer, 'Springfield, Illinois it is.');
+  });
+});
@@ -1,308 +1,711 @@
-import { GoogleGenerativeAI, FunctionDeclaration, SchemaType } from '@google/generative-ai';
+import { FunctionDeclaration } from '@google/generative-ai';
+import { AgentRegistry, createAgentRegistry } from './agents';
+import { AgentCallContext, AgentClarification } from './agents/agent';
+import {
+  LLMProvider,
+  LLMTurn,
+  LLMFunctionCall,
+  LLMFunctionResult,
+  ChatHistoryMessage,
+  ChatSession,
+  TranscriptEntry,
+  createLLMProvider,
+} from './llm';
+import {
+  QueryResponse,
+  ExecuteQueryOptions,
+  StreamChunk,
+  AgentCallRecord,
+  ClarificationRequest,
+  PendingClarification,
+  GroundingReport,
+  QueryUsage,
+  QueryTrace,
+  TraceAttributes,
+  TraceSpan,
+  TurnUsage,
+} from './types';
 import { config } from './config';
-import { WikidataAgent } from './agents/wikidata-agent';
-import { WikipediaAgent } from './agents/wikipedia-agent';
-import { NominatimAgent } from './agents/nominatim-agent';
-import { OpenMeteoAgent } from './agents/openmeteo-agent';
-import { QueryResponse } from './types';
+import { AgentCache, createAgentCache } from './cache';
+import { SourceRegistry, extractCitations, formatSourceList } from './citations';
+import { checkGrounding, formatRevisionRequest } from './grounding';
+import { PriceTable, createPriceTable, summarizeUsage, turnUsage } from './usage';
 import { PromptMode, getPromptByMode, type PromptModeType } from './prompts';
+import { Logger, logger } from './logging';
+import { QueryTracer } from './tracing';
+
+/**
+ * Mutable state of one tool loop (fresh query or resumed workflow)
+ */
+interface LoopState {
+  query: string;
+  history: ChatHistoryMessage[];
+  startTime: number;
+  thoughts: string[];
+  agentCalls: AgentCallRecord[];
+  transcript: TranscriptEntry[];
+  /** Sources cited so far, numbered across the whole loop */
+  sources: SourceRegistry;
+  /** Token usage of every model response so far */
+  usage: TurnUsage[];
+  turn: number;
+  /** Bound to the request ID */
+  log: Logger;
+  /** Spans of this run: model turns, agent calls and their HTTP requests */
+  trace: QueryTracer;
+}
+
+interface FunctionCallOutcome {
+  call: LLMFunctionCall;
+  /** Sent back to the model */
+  result: LLMFunctionResult;
+  /** Recorded in QueryResponse.agentCalls (absent when the call failed) */
+  record?: AgentCallRecord;
+  clarification?: AgentClarification;
+  /** Registers the sources of a clarification result, when it is sent to the model as is */
+  cite?: () => void;
+}
+
+/**
+ * Observers of the tool loop (e.g. metrics). All hooks are optional; failures are logged and ignored.
+ */
+export interface OrchestratorHooks {
+  /** A query ended: answered, paused for clarification, or stopped at the turn limit */
+  onQueryComplete?(event: {
+    outcome: 'answer' | 'clarification' | 'incomplete';
+    turns: number;
+    latencyMs: number;
+  }): void;
+  /** An agent call ended (cache is absent when the agent's results are not cached) */
+  onAgentCall?(event: {
+    agent: string;
+    outcome: 'success' | 'error';
+    durationMs: number;
+    cache?: 'hit' | 'miss';
+  }): void;
+  /** An agent rejected its input, e.g. a SPARQL query refused by the gate */
+  onAgentRejected?(event: { agent: string; reason: string }): void;
+  /** The execution trace of a query run, when it ends (also when it fails) */
+  onTrace?(trace: QueryTrace): void;
+}
 
 /**
  * Gemini Orchestrator
- * Uses Gemini 2.5 Pro with Function Calling to orchestrate agents
+ * Uses Gemini 2.5 Pro with Function Calling to orchestrate agents.
+ * The model is reached through an LLMProvider, so other providers can drive the same tool loop.
  */
 export class GeminiOrchestrator {
-  private genAI: GoogleGenerativeAI;
-  private wikidataAgent: WikidataAgent;
-  private wikipediaAgent: WikipediaAgent;
-  private nominatimAgent: NominatimAgent;
-  private openMeteoAgent: OpenMeteoAgent;
+  private provider: LLMProvider;
+  private registry: AgentRegistry;
+  private cache: AgentCache;
   private promptMode: PromptModeType;
+  private prices: PriceTable;
+  private hooks: OrchestratorHooks;
 
   /**
    * @param promptMode - System prompt variant to use
    *                     'wikidata-focused' (default): Extensive SPARQL examples, Wikidata-first
    *                     'balanced': Multi-agent orchestration with all sources
+   * @param registry - Agents exposed to the model (defaults to built-ins + AGENT_MODULES)
+   * @param provider - Model backend (defaults to LLM_PROVIDER, i.e. Gemini)
+   * @param hooks - Observers of queries and agent calls (e.g. Prometheus metrics)
    */
-  constructor(promptMode: PromptModeType = PromptMode.WIKIDATA_FOCUSED) {
-    this.genAI = new GoogleGenerativeAI(config.geminiApiKey);
-    this.wikidataAgent = new WikidataAgent();
-    this.wikipediaAgent = new WikipediaAgent();
-    this.nominatimAgent = new NominatimAgent();
-    this.openMeteoAgent = new OpenMeteoAgent();
+  constructor(
+    promptMode: PromptModeType = PromptMode.WIKIDATA_FOCUSED,
+    registry: AgentRegistry = createAgentRegistry(),
+    provider: LLMProvider = createLLMProvider(),
+    hooks: OrchestratorHooks = {}
+  ) {
+    this.provider = provider;
+    this.registry = registry;
+    this.cache = createAgentCache();
     this.promptMode = promptMode;
+    this.prices = createPriceTable();
+    this.hooks = hooks;
 
-    console.log(`🤖 GeminiOrchestrator initialized with prompt mode: ${promptMode}`);
+    logger.info('Orchestrator initialized', {
+      promptMode,
+      provider: provider.name,
+      model: provider.model,
+      agents: registry.list().map((agent) => agent.name),
+    });
   }
 
   /**
-   * Define function declarations for Gemini
-   * These are derived from OpenAPI specs
+   * Function declarations, one per registered agent
    */
   private getFunctionDeclarations(): FunctionDeclaration[] {
-    return [
-      {
-        name: 'query_wikidata',
-        description:
-          'Execute a SPARQL query on Wikidata to retrieve structured knowledge graph data. ' +
-          'Use this for factual queries about entities, relationships, and properties. ' +
-          'IMPORTANT: When searching by entity name (rdfs:label), ALWAYS add type constraints (wdt:P31) to disambiguate. ' +
-          'Example: For "Paris", add ?city wdt:P31 wd:Q515 to ensure you get the city, not the person. ' +
-          'Verify entity IDs are correct for the context before using hardcoded wd:Q### codes.',
-        parameters: {
-          type: SchemaType.OBJECT,
-          properties: {
-            sparql_query: {
-              type: SchemaType.STRING,
-              description:
-                'A complete SPARQL query string. Must be syntactically valid SPARQL 1.1. ' +
-                'Use prefixes like wd: for entities and wdt: for properties. ' +
-                'Always include SERVICE wikibase:label for human-readable labels. ' +
-                'CRITICAL: When using entity IDs (wd:Q###), ensure they match the intended entity. ' +
-                'When searching by label, add wdt:P31 (instance of) filters to avoid ambiguity.',
-            },
-          },
-          required: ['sparql_query'],
-        },
-      },
-      {
-        name: 'get_wikipedia_summary',
-        description:
-          'Retrieve a concise summary of a Wikipedia article. ' +
-          'Use this for encyclopedic information about people, places, concepts, events.',
-        parameters: {
-          type: SchemaType.OBJECT,
-          properties: {
-            term: {
-              type: SchemaType.STRING,
-              description:
-                'The Wikipedia article title or search term (e.g., "Albert_Einstein", "Solar_energy")',
-            },
-          },
-          required: ['term'],
-        },
-      },
-      {
-        name: 'geocode_location',
-        description:
-          'Convert a location name or address into geographic coordinates (latitude, longitude). ' +
-          'Use this when you need coordinates for a place, city, address, or landmark. ' +
-          'Uses OpenStreetMap Nominatim geocoding service.',
-        parameters: {
-          type: SchemaType.OBJECT,
-          properties: {
-            query: {
-              type: SchemaType.STRING,
-              description:
-                'Location name, address, or place to geocode (e.g., "Rome, Italy", "Eiffel Tower", "10 Downing Street")',
-            },
-          },
-          required: ['query'],
-        },
-      },
-      {
-        name: 'get_weather',
-        description:
-          'Get current weather and forecast for geographic coordinates. ' +
-          'Use this after geocoding a location to provide weather information. ' +
-          'Uses Open-Meteo weather API.',
-        parameters: {
-          type: SchemaType.OBJECT,
-          properties: {
-            latitude: {
-              type: SchemaType.NUMBER,
-              description: 'Latitude coordinate (-90 to 90)',
-            },
-            longitude: {
-              type: SchemaType.NUMBER,
-              description: 'Longitude coordinate (-180 to 180)',
-            },
-            include_forecast: {
-              type: SchemaType.BOOLEAN,
-              description: 'Include 3-day forecast (default: false)',
-            },
-          },
-          required: ['latitude', 'longitude'],
-        },
-      },
-    ];
+    return this.registry.getFunctionDeclarations();
   }
 
   /**
    * Get system instructions based on configured prompt mode
    */
   private getSystemInstructions(): string {
-    return getPromptByMode(this.promptMode);
+    const tools = this.registry
+      .list()
+      .map((agent) => `- ${agent.name}: ${agent.declaration.description}`)
+      .join('\n');
+
+    // The static prompts describe the built-in agents; this lists what is actually enabled
+    return `${getPromptByMode(this.promptMode)}\n\n## AVAILABLE TOOLS (ENABLED IN THIS DEPLOYMENT)\n${tools}`;
   }
 
   /**
    * Main query execution method
    * @param userQuery - The user's question
    * @param conversationHistory - Optional conversation history in Gemini format
+   * @param options - Optional hooks, e.g. onChunk for live streaming of the reasoning
    */
   async executeQuery(
     userQuery: string,
-    conversationHistory?: Array<{ role: string; parts: Array<{ text: string }> }>
+    conversationHistory?: ChatHistoryMessage[],
+    options: ExecuteQueryOptions = {}
   ): Promise<QueryResponse> {
-    const startTime = Date.now();
-    console.log(`\n${'='.repeat(60)}`);
-    console.log(`🚀 Processing query: "${userQuery}"`);
-    console.log(`${'='.repeat(60)}\n`);
-
-    const model = this.genAI.getGenerativeModel({
-      model: 'gemini-2.0-flash-thinking-exp-01-21',
-      generationConfig: {
-        temperature: 0.7,
-      },
+    const log = logger.child({ requestId: options.requestId });
+    log.info('Processing query', { query: userQuery, historyMessages: conversationHistory?.length ?? 0 });
+
+    const state: LoopState = {
+      query: userQuery,
+      history: conversationHistory || [],
+      startTime: Date.now(),
+      thoughts: [],
+      agentCalls: [],
+      transcript: [{ role: 'user', text: userQuery }],
+      sources: new SourceRegistry(),
+      usage: [],
+      turn: 1,
+      log,
+      trace: new QueryTracer(userQuery, options.requestId, { 'wikidai.prompt_mode': this.promptMode }),
+    };
+
+    // Start conversation with history (if provided)
+    const chat = this.provider.startChat({
       systemInstruction: this.getSystemInstructions(),
-      tools: [
-        {
-          functionDeclarations: this.getFunctionDeclarations(),
-        },
-      ],
+      tools: this.getFunctionDeclarations(),
+      history: state.history,
     });
 
-    const thoughts: string[] = [];
-    const agentCalls: Array<{
-      agent: string;
-      params: Record<string, any>;
-      response: any;
-    }> = [];
+    try {
+      const response = await this.traceTurn(state, () => chat.sendMessage(userQuery));
+      return await this.runToolLoop(chat, response, state, options);
+    } catch (error: any) {
+      this.finishTrace(state, 'error', error.message);
+      throw error;
+    }
+  }
 
-    // Start conversation with history (if provided)
-    const chat = model.startChat({
-      history: conversationHistory || [],
+  /**
+   * Resume a workflow paused for clarification, using the option chosen by the user
+   * @param pending - Context saved by ExecuteQueryOptions.onPause
+   * @param optionId - ID of the chosen ClarificationOption
+   */
+  async resumeQuery(
+    pending: PendingClarification,
+    optionId: string,
+    options: ExecuteQueryOptions = {}
+  ): Promise<QueryResponse> {
+    const result = pending.optionResults[optionId];
+    if (result === undefined) {
+      throw new Error(`Unknown option "${optionId}" for pending clarification`);
+    }
+
+    const log = logger.child({ requestId: options.requestId });
+    log.info('Resuming query', { query: pending.query, optionId, agent: pending.pendingCall.name });
+
+    const { pendingCall } = pending;
+    // Pending workflows saved before sources existed have none
+    const sources = new SourceRegistry(pending.sources ?? []);
+    const chosen = pending.optionRecords?.[optionId];
+    const cited = sources.add(pendingCall.name, chosen?.sources ?? []);
+    const response = result + formatSourceList(cited);
+    const record: AgentCallRecord = {
+      agent: pendingCall.name,
+      params: pendingCall.args,
+      response,
+      table: chosen?.table,
+      sourceIds: cited.map((source) => source.id),
+    };
+
+    const state: LoopState = {
+      query: pending.query,
+      history: pending.history,
+      startTime: Date.now(),
+      thoughts: [...pending.thoughts],
+      agentCalls: [...pending.agentCalls, record],
+      transcript: [...pending.transcript],
+      sources,
+      usage: [...(pending.usage ?? [])],
+      turn: pending.turn,
+      log,
+      trace: new QueryTracer(pending.query, options.requestId, {
+        'wikidai.prompt_mode': this.promptMode,
+        'wikidai.resumed': true,
+      }),
+    };
+
+    this.chunkEmitter(options, log)({
+      type: 'agent_response',
+      agent: pendingCall.name,
+      data: { result: response, table: chosen?.table, sources: cited },
+      timestamp: Date.now(),
     });
 
-    if (conversationHistory && conversationHistory.length > 0) {
-      console.log(`📚 Using conversation history: ${conversationHistory.length} messages`);
+    const chat = this.provider.startChat({
+      systemInstruction: this.getSystemInstructions(),
+      tools: this.getFunctionDeclarations(),
+      history: pending.history,
+      transcript: pending.transcript,
+    });
+
+    // Results go back in the order the model made the calls
+    const results: LLMFunctionResult[] = [...pending.completedResults];
+    results.splice(pending.pendingIndex ?? results.length, 0, {
+      id: pendingCall.id,
+      name: pendingCall.name,
+      response: { result: response },
+    });
+    state.transcript.push({ role: 'function', results });
+
+    try {
+      const response = await this.traceTurn(state, () => chat.sendFunctionResults(results), state.turn + 1);
+      state.turn++;
+      return await this.runToolLoop(chat, response, state, options);
+    } catch (error: any) {
+      this.finishTrace(state, 'error', error.message);
+      throw error;
     }
+  }
 
-    let response = await chat.sendMessage(userQuery);
-    let turn = 1;
+  /**
+   * Send chunks to options.onChunk; a failing listener is logged and does not stop the query
+   */
+  private chunkEmitter(options: ExecuteQueryOptions, log: Logger): (chunk: StreamChunk) => void {
+    return (chunk) => {
+      if (!options.onChunk) return;
+      try {
+        options.onChunk(chunk);
+      } catch (error: any) {
+        log.error('Stream listener failed', { error });
+      }
+    };
+  }
+
+  /**
+   * Multi-turn function-calling loop, until the model answers, a clarification
+   * pauses the workflow, or the turn budget runs out
+   */
+  private async runToolLoop(
+    chat: ChatSession,
+    response: LLMTurn,
+    state: LoopState,
+    options: ExecuteQueryOptions
+  ): Promise<QueryResponse> {
+    const emit = this.chunkEmitter(options, state.log);
+    const { thoughts, agentCalls } = state;
 
     // Multi-turn conversation loop
     while (true) {
-      console.log(`\n--- Turn ${turn} ---`);
+      state.log.debug('Model turn', {
+        turn: state.turn,
+        functionCalls: response.functionCalls.length,
+        thoughts: response.thoughts.length,
+      });
+      this.recordUsage(state, response);
 
       // Extract thoughts if present
-      if (response.response.candidates?.[0]?.content?.parts) {
-        for (const part of response.response.candidates[0].content.parts) {
-          if ('thought' in part && part.thought) {
-            console.log('💭 Thought:', part.text?.substring(0, 200));
-            thoughts.push(part.text || 'Thinking...');
-          }
-        }
+      for (const thought of response.thoughts) {
+        state.log.debug('Thought', { turn: state.turn, thought });
+        thoughts.push(thought);
+        emit({ type: 'thought', content: thought, timestamp: Date.now() });
       }
 
       // Check for function calls
-      const functionCalls = response.response.functionCalls();
+      const functionCalls = response.functionCalls;
 
-      if (!functionCalls || functionCalls.length === 0) {
+      if (functionCalls.length === 0) {
         // No more function calls - we have the final answer
-        const finalText = response.response.text();
-        console.log('\n✅ Final Answer:', finalText.substring(0, 200) + '...');
+        const { answer: finalText, grounding } = await this.verifyAnswer(chat, response.text, state, options, emit);
+        const latencyMs = Date.now() - state.startTime;
+        const usage = this.summarizeUsage(state);
+        const traceId = this.finishTrace(state, 'answer');
+        state.log.info('Query answered', {
+          traceId,
+          turns: state.turn,
+          agentCalls: agentCalls.length,
+          latencyMs,
+          totalTokens: usage?.total.totalTokens,
+          thoughtTokens: usage?.total.thoughtTokens,
+          costUsd: usage?.costUsd,
+        });
+        state.log.debug('Final answer', { answer: finalText });
 
-        const latencyMs = Date.now() - startTime;
-        console.log(`\n⏱️  Total latency: ${latencyMs}ms`);
+        emit({ type: 'final_answer', content: finalText, timestamp: Date.now() });
+        this.notify('onQueryComplete', { outcome: 'answer', turns: state.turn, latencyMs });
 
+        const sources = state.sources.list();
         return {
-          query: userQuery,
+          query: state.query,
           thoughts,
           agentCalls,
           answer: finalText,
           latencyMs,
+          sources,
+          citations: extractCitations(finalText, sources),
+          grounding,
+          usage,
+          traceId,
         };
       }
 
+      state.transcript.push({ role: 'model', text: response.text, functionCalls });
+
       // Execute function calls
-      const functionResponses = await Promise.all(
-        functionCalls.map(async (call) => {
-          console.log(`\n🔧 Function Call: ${call.name}`);
-          console.log('Parameters:', JSON.stringify(call.args, null, 2));
-
-          try {
-            let result: any;
-
-            switch (call.name) {
-              case 'query_wikidata': {
-                const sparqlQuery = (call.args as any).sparql_query as string;
-                const wikidataResult = await this.wikidataAgent.execute(sparqlQuery);
-                result = this.wikidataAgent.formatResults(wikidataResult);
-                break;
-              }
-
-              case 'get_wikipedia_summary': {
-                const term = (call.args as any).term as string;
-                const summary = await this.wikipediaAgent.execute(term);
-                result = this.wikipediaAgent.formatSummary(summary);
-                break;
-              }
-
-              case 'geocode_location': {
-                const query = (call.args as any).query as string;
-                const locations = await this.nominatimAgent.geocode(query);
-                result = this.nominatimAgent.formatResults(locations);
-                break;
-              }
-
-              case 'get_weather': {
-                const latitude = (call.args as any).latitude as number;
-                const longitude = (call.args as any).longitude as number;
-                const includeForecast = (call.args as any).include_forecast || false;
-                const weather = await this.openMeteoAgent.getWeather(latitude, longitude, includeForecast);
-                result = this.openMeteoAgent.formatWeather(weather);
-                break;
-              }
-
-              default:
-                throw new Error(`Unknown function: ${call.name}`);
-            }
-
-            agentCalls.push({
-              agent: call.name,
-              params: call.args,
-              response: result,
-            });
-
-            console.log('✅ Function Response:', result.substring(0, 300) + '...');
-
-            return {
-              functionResponse: {
-                name: call.name,
-                response: { result },
-              },
-            };
-          } catch (error: any) {
-            console.error(`❌ Function ${call.name} failed:`, error.message);
-            return {
-              functionResponse: {
-                name: call.name,
-                response: { error: error.message },
-              },
-            };
-          }
-        })
+      const outcomes = await Promise.all(
+        functionCalls.map((call) => this.executeFunctionCall(call, emit, options, state))
       );
 
+      // Ambiguous result: stop here and ask the user (only the first one if several)
+      const paused = outcomes.find((outcome) => outcome.clarification);
+      if (paused?.clarification && options.onPause) {
+        const { clarification, call } = paused;
+        const others = outcomes.filter((o) => o !== paused);
+        // One question at a time: other ambiguous results go to the model with all their candidates
+        others.forEach((o) => o.cite?.());
+        others.forEach((o) => o.record && agentCalls.push(o.record));
+
+        const request: ClarificationRequest = {
+          agent: call.name,
+          question: clarification.question,
+          options: clarification.options.map(({ result, ...option }) => option),
+        };
+
+        await options.onPause({
+          query: state.query,
+          clarification: request,
+          pendingCall: call,
+          optionResults: Object.fromEntries(clarification.options.map((o) => [o.id, o.result])),
+          optionRecords: Object.fromEntries(
+            clarification.options.map((o) => [o.id, { sources: o.sources ?? [], table: o.table }])
+          ),
+          completedResults: others.map((o) => o.result),
+          pendingIndex: outcomes.indexOf(paused),
+          history: state.history,
+          transcript: state.transcript,
+          thoughts,
+          agentCalls,
+          sources: state.sources.list(),
+          usage: state.usage,
+          turn: state.turn,
+          createdAt: new Date().toISOString(),
+        });
+
+        const traceId = this.finishTrace(state, 'clarification');
+        state.log.info('Paused for clarification', { agent: call.name, options: request.options.length, traceId });
+        emit({ type: 'clarification', clarification: request, timestamp: Date.now() });
+        this.notify('onQueryComplete', {
+          outcome: 'clarification',
+          turns: state.turn,
+          latencyMs: Date.now() - state.startTime,
+        });
+
+        return {
+          query: state.query,
+          thoughts,
+          agentCalls,
+          answer: this.formatClarification(request),
+          latencyMs: Date.now() - state.startTime,
+          sources: state.sources.list(),
+          citations: [],
+          usage: this.summarizeUsage(state),
+          clarification: request,
+          traceId,
+        };
+      }
+
+      outcomes.forEach((o) => o.record && agentCalls.push(o.record));
+      const functionResponses = outcomes.map((o) => o.result);
+      state.transcript.push({ role: 'function', results: functionResponses });
+
       // Send function responses back to model
-      response = await chat.sendMessage(functionResponses);
-      turn++;
+      response = await this.traceTurn(state, () => chat.sendFunctionResults(functionResponses), state.turn + 1);
+      state.turn++;
 
       // Safety: max 10 turns
-      if (turn > 10) {
-        console.warn('⚠️  Max turns reached, stopping conversation');
+      if (state.turn > 10) {
+        state.log.warn('Max turns reached, stopping conversation', { turns: state.turn });
+        this.recordUsage(state, response);
         break;
       }
     }
 
     // Fallback if loop exits without answer
+    emit({ type: 'final_answer', content: 'Query processing incomplete', timestamp: Date.now() });
+    this.notify('onQueryComplete', { outcome: 'incomplete', turns: state.turn, latencyMs: Date.now() - state.startTime });
+    const traceId = this.finishTrace(state, 'incomplete');
     return {
-      query: userQuery,
+      query: state.query,
       thoughts,
       agentCalls,
       answer: 'Query processing incomplete',
-      latencyMs: Date.now() - startTime,
+      latencyMs: Date.now() - state.startTime,
+      sources: state.sources.list(),
+      citations: [],
+      usage: this.summarizeUsage(state),
+      traceId,
     };
   }
+
+  /**
+   * Call a hook, never letting an observer break the query
+   */
+  private notify<K extends keyof OrchestratorHooks>(
+    hook: K,
+    event: Parameters<NonNullable<OrchestratorHooks[K]>>[0]
+  ): void {
+    try {
+      (this.hooks[hook] as ((e: typeof event) => void) | undefined)?.(event);
+    } catch (error: any) {
+      logger.error('Orchestrator hook failed', { hook, error });
+    }
+  }
+
+  /**
+   * Send a message to the model in an LLM span carrying the turn's token counts
+   */
+  private traceTurn(
+    state: LoopState,
+    send: () => Promise<LLMTurn>,
+    turn: number = state.turn,
+    attributes: TraceAttributes = {}
+  ): Promise<LLMTurn> {
+    return state.trace.inSpan(
+      `chat ${this.provider.model}`,
+      'llm',
+      {
+        'gen_ai.operation.name': 'chat',
+        'gen_ai.system': this.provider.name,
+        'gen_ai.request.model': this.provider.model,
+        'wikidai.turn': turn,
+        ...attributes,
+      },
+      async (span) => {
+        const response = await send();
+        span.attributes['wikidai.function_calls'] = response.functionCalls.length;
+        if (response.usage) {
+          span.attributes['gen_ai.usage.input_tokens'] = response.usage.promptTokens;
+          span.attributes['gen_ai.usage.output_tokens'] = response.usage.completionTokens;
+          span.attributes['wikidai.usage.thought_tokens'] = response.usage.thoughtTokens;
+          span.attributes['wikidai.usage.cached_tokens'] = response.usage.cachedTokens;
+        }
+        return response;
+      }
+    );
+  }
+
+  /**
+   * End the run's trace and hand it to onTrace; returns the trace ID
+   */
+  private finishTrace(state: LoopState, outcome: string, error?: string): string {
+    const trace = state.trace.finish({ 'wikidai.outcome': outcome, 'wikidai.turns': state.turn }, error);
+    this.notify('onTrace', trace);
+    return trace.traceId;
+  }
+
+  /**
+   * Keep the token counts of a model response, numbered with the current turn
+   */
+  private recordUsage(state: LoopState, response: LLMTurn, turn: number = state.turn): void {
+    if (response.usage) {
+      state.usage.push(turnUsage(turn, response.usage));
+    }
+  }
+
+  private summarizeUsage(state: LoopState): QueryUsage | undefined {
+    return summarizeUsage(this.provider.model, state.usage, this.prices);
+  }
+
+  /**
+   * Grounding check of the final answer against this query's agent results.
+   * In strict mode the model gets one chance to revise unsupported values;
+   * the revision is kept only when it is not empty.
+   */
+  private async verifyAnswer(
+    chat: ChatSession,
+    answer: string,
+    state: LoopState,
+    options: ExecuteQueryOptions,
+    emit: (chunk: StreamChunk) => void
+  ): Promise<{ answer: string; grounding?: GroundingReport }> {
+    const mode = options.grounding ?? config.grounding.mode;
+    if (mode === 'off') {
+      return { answer };
+    }
+
+    let grounding = checkGrounding(answer, state.agentCalls);
+    state.log.info('Grounding checked', {
+      mode,
+      supported: grounding.supported.length,
+      unsupported: grounding.unsupported.length,
+    });
+
+    if (mode === 'strict' && grounding.unsupported.length > 0) {
+      try {
+        const request = formatRevisionRequest(grounding);
+        const revision = await this.traceTurn(state, () => chat.sendMessage(request), state.turn + 1, {
+          'wikidai.grounding_revision': true,
+        });
+        state.turn++;
+        this.recordUsage(state, revision);
+        for (const thought of revision.thoughts) {
+          state.thoughts.push(thought);
+          emit({ type: 'thought', content: thought, timestamp: Date.now() });
+        }
+
+        if (revision.text.trim()) {
+          const originalAnswer = answer;
+          answer = revision.text;
+          grounding = { ...checkGrounding(answer, state.agentCalls), revised: true, originalAnswer };
+          state.log.info('Answer revised', { unsupported: grounding.unsupported.length });
+        }
+      } catch (error: any) {
+        state.log.error('Grounding revision failed', { error });
+      }
+    }
+
+    emit({ type: 'grounding', report: grounding, timestamp: Date.now() });
+    return { answer, grounding };
+  }
+
+  /**
+   * Plain-text version of a clarification request, for clients that ignore the structured field
+   */
+  private formatClarification(request: ClarificationRequest): string {
+    const options = request.options.map((option, i) => {
+      const coordinates =
+        option.latitude !== undefined ? ` (lat: ${option.latitude}, lon: ${option.longitude})` : '';
+      return `${i + 1}. ${option.label}${coordinates}`;
+    });
+    return `${request.question}\n\n${options.join('\n')}`;
+  }
+
+  /**
+   * Run one function call in an agent span: HTTP requests of the agent become its children
+   */
+  private executeFunctionCall(
+    call: LLMFunctionCall,
+    emit: (chunk: StreamChunk) => void,
+    options: ExecuteQueryOptions,
+    state: LoopState
+  ): Promise<FunctionCallOutcome> {
+    const attributes: TraceAttributes = { 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': call.name };
+    // Only OpenAI-style providers assign call IDs
+    if (call.id) attributes['gen_ai.tool.call.id'] = call.id;
+    return state.trace.inSpan(`execute_tool ${call.name}`, 'agent', attributes, (span) =>
+      this.callAgent(call, emit, options, state, span)
+    );
+  }
+
+  /**
+   * Run one function call through its agent (with caching), never throwing:
+   * failures are returned to the model as { error }
+   */
+  private async callAgent(
+    call: LLMFunctionCall,
+    emit: (chunk: StreamChunk) => void,
+    options: ExecuteQueryOptions,
+    state: LoopState,
+    span: TraceSpan
+  ): Promise<FunctionCallOutcome> {
+    const log = state.log.child({ agent: call.name });
+    log.debug('Function call', { params: call.args });
+    emit({ type: 'agent_call', agent: call.name, params: call.args, timestamp: Date.now() });
+
+    const startedAt = Date.now();
+    const agent = this.registry.get(call.name);
+    // Invented function names would make unbounded metric labels
+    const agentLabel = agent ? agent.name : 'unknown';
+
+    try {
+      if (!agent) {
+        throw new Error(`Unknown function: ${call.name}`);
+      }
+      if (call.argsError) {
+        throw new Error(call.argsError);
+      }
+
+      let queuedMs: number | undefined;
+      const context: AgentCallContext = {
+        onQueued: (ms) => {
+          queuedMs = ms;
+        },
+        language: options.language,
+        onRejected: (reason) => this.notify('onAgentRejected', { agent: agent.name, reason }),
+        logger: log,
+      };
+      const args = agent.validateArgs(call.args, context);
+      const invoke = () => agent.invoke(args, context);
+
+      const cacheable = !!agent.cacheNamespace && !!agent.cacheKey && this.cache.isEnabled(agent.cacheNamespace);
+      const { value, cached } =
+        agent.cacheNamespace && agent.cacheKey
+          ? await this.cache.wrap(agent.cacheNamespace, agent.cacheKey(args), invoke, log)
+          : { value: await invoke(), cached: false };
+      const table = agent.toTable?.(value);
+      // Only pause when the caller can persist the workflow
+      const clarification = (options.onPause && agent.clarify?.(args, value)) || undefined;
+      const text = agent.formatResult(value);
+      const outcome: FunctionCallOutcome = {
+        call,
+        result: { id: call.id, name: call.name, response: { result: text } },
+        record: { agent: call.name, params: call.args, response: text, table, cached, queuedMs },
+        clarification,
+      };
+      const cite = () => {
+        const sources = state.sources.add(call.name, agent.sources?.(value) ?? []);
+        const withSources = text + formatSourceList(sources);
+        outcome.result.response = { result: withSources };
+        Object.assign(outcome.record!, { response: withSources, sourceIds: sources.map((source) => source.id) });
+        return sources;
+      };
+      // Candidates of a clarification become sources only once chosen (see resumeQuery)
+      const cited = clarification ? [] : cite();
+      if (clarification) outcome.cite = cite;
+      const result: string = outcome.record!.response;
+
+      this.notify('onAgentCall', {
+        agent: agent.name,
+        outcome: 'success',
+        durationMs: Date.now() - startedAt,
+        cache: cacheable ? (cached ? 'hit' : 'miss') : undefined,
+      });
+
+      Object.assign(span.attributes, {
+        'wikidai.agent.cached': cached,
+        'wikidai.agent.result_chars': result.length,
+        'wikidai.agent.sources': cited.length,
+      });
+      if (queuedMs !== undefined) span.attributes['wikidai.agent.queued_ms'] = queuedMs;
+
+      log.info('Function call completed', { durationMs: Date.now() - startedAt, cached, queuedMs });
+      log.debug('Function response', { result });
+      emit({
+        type: 'agent_response',
+        agent: call.name,
+        data: { result, cached, table, sources: cited },
+        timestamp: Date.now(),
+      });
+
+      return outcome;
+    } catch (error: any) {
+      log.error('Function call failed', { durationMs: Date.now() - startedAt, error });
+      state.trace.end(span, error.message);
+      this.notify('onAgentCall', { agent: agentLabel, outcome: 'error', durationMs: Date.now() - startedAt });
+      emit({ type: 'agent_response', agent: call.name, data: { error: error.message }, timestamp: Date.now() });
+      return {
+        call,
+        result: { id: call.id, name: call.name, response: { error: error.message } },
+      };
+    }
+  }
 }
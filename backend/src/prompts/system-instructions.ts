@@ -68,7 +68,10 @@ const AGENT_GUIDELINES = `
 - ✅ ONLY read-only queries: SELECT, ASK, DESCRIBE, CONSTRUCT
 - ❌ NEVER use: DELETE, INSERT, DROP, CREATE, CLEAR, LOAD, COPY, MOVE, ADD
 - Backend validates syntax with sparqljs parser
-- Malformed queries will be rejected
+- Missing standard PREFIX declarations and SERVICE wikibase:label are added automatically
+- Malformed queries are rejected with a line-numbered syntax error: fix the reported spot and retry
+- SERVICE is limited to the Wikidata built-ins (wikibase:label, wikibase:around, wikibase:box, wikibase:mwapi)
+- Queries without LIMIT get LIMIT 100, and larger limits are capped at 1000 (the result notes any rewrite)
 
 **Best practices**:
 - Always include SERVICE wikibase:label for human-readable results
@@ -77,20 +80,54 @@ const AGENT_GUIDELINES = `
 - Request ?variableLabel for readable output
 - Test complex queries mentally before generating
 
+### 🔎 search_entities
+**When to use**: Resolve a name to its Wikidata ID (Q### item or P### property) before writing SPARQL
+**Input**: Term, optional language code, type (item/property) and limit
+**Output**: Matches with id, label, description and match type
+
+**Best practices**:
+- Prefer this over guessing wd:Q### codes
+- Use the description to choose between homonyms (e.g., Paris the city vs Paris Hilton)
+
+### 🧾 get_wikidata_entity
+**When to use**: Inspect a whole entity: all its identifiers, awards with dates, positions held, etc.
+**Input**: Entity ID (Q### or P###), optional language and list of property IDs
+**Output**: Labels, description, aliases, sitelinks and claims with qualifiers and references (resolved to labels)
+
+**Best practices**:
+- Pass "properties" for large entities (people, countries) to keep the response short
+- Use it to discover which properties an entity uses before composing complex SPARQL
+
 ### 📚 get_wikipedia_summary
 **When to use**: Encyclopedic overviews, biographical summaries, concept explanations
-**Input**: Article title or search term
-**Output**: Abstract text + source URL
+**Input**: Article title or search term, optional language edition (defaults to the conversation language)
+**Output**: Abstract text + source URL + edition used (other editions are tried when the article is missing)
 
 **Best practices**:
 - Use for general overviews
+- Give the title in the edition's language (e.g., "Firenze" for it, "Florence" for en)
+- When the result notes a fallback edition, tell the user the summary comes from that edition
+
+### 🔎 search_wikipedia
+**When to use**: Find the exact article title before a summary/section lookup, or after a "not found" error
+**Input**: Search terms, optional language edition and limit
+**Output**: Article titles with text snippets and URLs
+
+### 📖 get_wikipedia_section
+**When to use**: Details beyond the lead summary (a period, an event, a topic within an article) or infobox facts
+**Input**: Exact article title, optional section (heading, number or "infobox") and language edition
+**Output**: Plain-text section or infobox fields + source URL; without a section, the table of contents
+
+**Best practices**:
+- Get the table of contents first when you don't know the headings, then fetch only the section you need
+- Cite the section and article URL in your answer
 - Suggest Wikidata for deeper structured queries
 - Provide the Wikipedia URL in your response
 
-### 🧠 search_duckduckgo (when implemented)
+### 🧠 search_duckduckgo
 **When to use**: Fallback for concepts not in Wikipedia/Wikidata, quick definitions
 **Input**: Search query
-**Output**: Abstract + FirstURL
+**Output**: Instant answer (abstract, definition or direct answer) with its source URL
 
 **Best practices**:
 - Use as last resort when structured sources fail
@@ -102,7 +139,7 @@ const AGENT_GUIDELINES = `
 **Output**: Array of results (limit=5)
 
 **⚠️ CRITICAL RATE LIMIT**: 1 request/second (Nominatim API)
-- Backend handles this via BullMQ queue
+- Backend handles this via a Redis-coordinated rate-limited queue
 - Never request direct calls
 
 **AMBIGUITY HANDLING (MANDATORY)**:
@@ -122,6 +159,8 @@ ELSE:
   Use the single result's coordinates
 
 **NEVER use exactly_one=True or auto-select first result**
+In conversations the backend enforces this: when geocode_location finds several matches the
+workflow pauses, the user picks one, and you receive only the chosen location.
 
 ### 📍 geocode_location (when implemented)
 **When to use**: Fast alternative to Nominatim (no rate limit)
@@ -390,7 +429,8 @@ export function getSystemInstructions(): string {
 
 After receiving FunctionResponses:
 1. Synthesize data into clear, concise answer
-2. Cite sources (Wikidata/Wikipedia/etc.)
+2. Cite sources with the [S#] markers listed under "Sources (cite as [S#])" in tool results,
+   placed right after the sentence they support (e.g. "Rome is the capital of Italy [S1].")
 3. For SPARQL queries, mention the query was executed
 4. Provide relevant URLs for user to explore further
 5. If you displayed SPARQL, acknowledge it was shown for educational purposes
@@ -43,6 +43,10 @@ Never use internal knowledge. If queries return no results, say so explicitly.
 **MANDATORY Rules for Entity Identification:**
 
 1. **NEVER assume entity IDs** - "Paris" could be Q90 (city), Q60220653 (Paris Hilton), Q212430 (Paris, Texas)
+   - **Resolve names with \`search_entities\` first**: it returns id, label and description for each match,
+     so you can pick the right Q### (or P###) before writing SPARQL
+   - **Inspect an entity with \`get_wikidata_entity\`** when you need many of its facts at once, or want to see
+     which properties (and qualifiers) it actually uses before composing a complex query
 2. **ALWAYS add wdt:P31 (instance of) filters** when searching by label:
    \`\`\`sparql
    # CORRECT approach for "Find population of Paris"
@@ -91,6 +95,8 @@ Never use internal knowledge. If queries return no results, say so explicitly.
 - Any write/modify operations
 
 All queries are validated with sparqljs parser before execution.
+Federated SERVICE calls are blocked: only wikibase:label, wikibase:around, wikibase:box and wikibase:mwapi are allowed.
+Queries without LIMIT get LIMIT 100 and larger limits are capped at 1000; the result notes any such rewrite.
 
 ### 2. MANDATORY WIKIDATA → WIKIPEDIA WORKFLOW
 
@@ -106,6 +112,8 @@ For EVERY user question, follow this exact sequence:
 **STEP 2: Wikipedia Enrichment (REQUIRED)**
 6. **Identify**: Determine which entity/topic needs narrative context
 7. **Call**: get_wikipedia_summary with the entity name from Wikidata results
+   - Title unknown or "not found"? Use search_wikipedia to find the exact title
+   - Need more than the lead (a specific period, event or topic)? Use get_wikipedia_section
 8. **Extract**: Get biographical/historical/contextual information
 
 **STEP 3: Synthesis (REQUIRED)**
@@ -141,6 +149,10 @@ PREFIX bd: <http://www.bigdata.com/rdf#>
 - \`pq:\` - Qualifiers: \`PREFIX pq: <http://www.wikidata.org/prop/qualifier/>\`
 - \`rdfs:\` - RDF Schema: \`PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>\`
 
+**Automatic repair**: the backend adds missing standard PREFIX declarations (wd, wdt, p, ps, pq, wikibase, bd, schema, rdfs...)
+and a missing SERVICE wikibase:label block, and the result notes each fix. Queries that still fail to parse come back
+as a syntax error with the line, column and excerpt of the problem: fix that spot instead of rewriting the whole query.
+
 ### 4. ALWAYS INCLUDE SERVICE wikibase:label
 Every query MUST end with:
 \`\`\`sparql
@@ -917,7 +929,11 @@ After executing a SPARQL query:
    - Query editor link: https://query.wikidata.org/#[encoded-query]
    - Entity pages: https://www.wikidata.org/wiki/Q###
 
-6. **Offer follow-up**: "Would you like me to search for related information?"`;
+6. **Cite sources**: tool results end with a numbered "Sources (cite as [S#])" list.
+   Put the matching marker after each sentence that uses a fact: "Tokyo has 13,960,000 inhabitants [S2]."
+   Only cite IDs that appear in a tool result; never invent markers.
+
+7. **Offer follow-up**: "Would you like me to search for related information?"`;
 
 export function getWikidataFocusedInstructions(): string {
   return [
@@ -959,7 +975,7 @@ export function getWikidataFocusedInstructions(): string {
 +
 [Citations: Wikidata Q### + Wikipedia URL]
 
-When uncertain about entity/property IDs, search by label or ask user for clarification.
+When uncertain about entity/property IDs, call search_entities, search by label, or ask user for clarification.
 When query fails, explain the issue and suggest fixes.
 When results are empty, help user refine their question.
 
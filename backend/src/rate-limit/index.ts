@@ -0,0 +1,27 @@
+/**
+ * Outbound request rate limiting
+ */
+
+import { config } from '../config';
+import { RateLimitedQueue } from './rate-limited-queue';
+import { RateLimiter } from './rate-limiter';
+import { MemoryRateLimiter } from './memory-rate-limiter';
+import { RedisRateLimiter } from './redis-rate-limiter';
+
+export type { RateLimiter };
+export type { QueuedResult } from './rate-limited-queue';
+export { RateLimitedQueue, MemoryRateLimiter, RedisRateLimiter };
+
+/**
+ * Create a rate-limited queue allowing `max` requests per `durationMs`,
+ * coordinated through the backend selected by RATE_LIMIT_STORE ('memory' | 'redis')
+ */
+export function createRateLimitedQueue(name: string, max: number, durationMs: number): RateLimitedQueue {
+  const intervalMs = Math.ceil(durationMs / Math.max(1, max));
+  const limiter =
+    config.rateLimitStore === 'redis'
+      ? new RedisRateLimiter(name, intervalMs)
+      : new MemoryRateLimiter(intervalMs);
+
+  return new RateLimitedQueue(name, limiter, intervalMs, config.redisTimeoutMs);
+}
@@ -0,0 +1,18 @@
+import { RateLimiter } from './rate-limiter';
+
+/**
+ * In-Memory Rate Limiter
+ * Spaces slots within a single process
+ */
+export class MemoryRateLimiter implements RateLimiter {
+  private nextSlot = 0;
+
+  constructor(private readonly intervalMs: number) {}
+
+  async reserve(): Promise<number> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+    return slot - now;
+  }
+}
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { after, test } from 'node:test';
+import { config } from '../config';
+import { disconnectRedis } from '../redis-client';
+import { RateLimitedQueue } from './rate-limited-queue';
+import { RateLimiter } from './rate-limiter';
+import { RedisRateLimiter } from './redis-rate-limiter';
+
+const INTERVAL_MS = 50;
+
+after(() => disconnectRedis());
+
+/**
+ * Schedule two tasks at once and return the time between their starts
+ */
+async function gapBetweenTwoTasks(queue: RateLimitedQueue): Promise<number> {
+  const startedAt: number[] = [];
+  const task = async () => startedAt.push(Date.now());
+
+  await Promise.all([queue.schedule(task), queue.schedule(task)]);
+  return startedAt[1] - startedAt[0];
+}
+
+test('spaces tasks by the limiter interval', async () => {
+  let calls = 0;
+  const limiter: RateLimiter = { reserve: async () => (calls++ === 0 ? 0 : INTERVAL_MS) };
+
+  const gap = await gapBetweenTwoTasks(new RateLimitedQueue('test', limiter, INTERVAL_MS));
+  assert.ok(gap >= INTERVAL_MS - 5, `gap ${gap}ms`);
+});
+
+test('falls back to the local limiter when the limiter never answers', async () => {
+  const hung: RateLimiter = { reserve: () => new Promise<number>(() => undefined) };
+
+  const gap = await gapBetweenTwoTasks(new RateLimitedQueue('test', hung, INTERVAL_MS, 100));
+  assert.ok(gap >= INTERVAL_MS - 5, `gap ${gap}ms`);
+});
+
+test('falls back to the local limiter when Redis is unreachable', async () => {
+  const original = { redisUrl: config.redisUrl, redisTimeoutMs: config.redisTimeoutMs };
+  Object.assign(config, { redisUrl: 'redis://127.0.0.1:1', redisTimeoutMs: 300 });
+
+  try {
+    const queue = new RateLimitedQueue('test', new RedisRateLimiter('test', INTERVAL_MS), INTERVAL_MS, 1000);
+    const gap = await gapBetweenTwoTasks(queue);
+    assert.ok(gap >= INTERVAL_MS - 5, `gap ${gap}ms`);
+  } finally {
+    Object.assign(config, original);
+  }
+});
@@ -0,0 +1,88 @@
+import { RateLimiter } from './rate-limiter';
+import { MemoryRateLimiter } from './memory-rate-limiter';
+import { logger } from '../logging';
+
+export interface QueuedResult<T> {
+  value: T;
+  /** Time spent waiting in the queue before the task started */
+  queuedMs: number;
+}
+
+/**
+ * Rate-Limited Queue
+ *
+ * Runs tasks in FIFO order, starting each one only once the rate limiter grants
+ * it a slot. If the limiter backend fails or does not answer within reserveTimeoutMs
+ * (e.g. Redis down) the queue falls back to a local limiter so requests are still spaced.
+ */
+export class RateLimitedQueue {
+  private tail: Promise<void> = Promise.resolve();
+  private pending = 0;
+  private fallback: MemoryRateLimiter;
+
+  constructor(
+    private readonly name: string,
+    private readonly limiter: RateLimiter,
+    intervalMs: number,
+    private readonly reserveTimeoutMs: number = 2000
+  ) {
+    this.fallback = new MemoryRateLimiter(intervalMs);
+  }
+
+  /**
+   * Number of tasks waiting for a slot
+   */
+  get size(): number {
+    return this.pending;
+  }
+
+  /**
+   * Enqueue a task and resolve with its result once it has run
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<QueuedResult<T>> {
+    const enqueuedAt = Date.now();
+    this.pending++;
+
+    // Slots are reserved strictly in arrival order
+    const turn = this.tail.then(() => this.waitForSlot());
+    this.tail = turn.catch(() => undefined);
+
+    try {
+      await turn;
+    } finally {
+      this.pending--;
+    }
+
+    const queuedMs = Date.now() - enqueuedAt;
+    if (queuedMs > 0) {
+      logger.debug('Queued for rate limit', { queue: this.name, queuedMs });
+    }
+
+    return { value: await task(), queuedMs };
+  }
+
+  private async waitForSlot(): Promise<void> {
+    let wait: number;
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      wait = await Promise.race([
+        this.limiter.reserve(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`No slot granted within ${this.reserveTimeoutMs}ms`)),
+            this.reserveTimeoutMs
+          );
+        }),
+      ]);
+    } catch (error: any) {
+      logger.warn('Rate limiter unavailable, using local limiter', { queue: this.name, error });
+      wait = await this.fallback.reserve();
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Rate Limiter
+ *
+ * Hands out request slots spaced at least `intervalMs` apart.
+ * Implementations: in-memory (per process) and Redis (shared by all replicas).
+ */
+
+export interface RateLimiter {
+  /** Reserve the next free slot, returns how many ms to wait before using it */
+  reserve(): Promise<number>;
+}
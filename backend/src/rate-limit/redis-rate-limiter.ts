@@ -0,0 +1,38 @@
+import { withRedis } from '../redis-client';
+import { RateLimiter } from './rate-limiter';
+
+/**
+ * Atomically reserve the next slot using Redis server time, so replicas with
+ * skewed clocks still agree. Returns the wait in ms before the slot starts.
+ */
+const RESERVE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local interval = tonumber(ARGV[1])
+local nextSlot = tonumber(redis.call('GET', KEYS[1]) or '0')
+local slot = math.max(now, nextSlot)
+redis.call('SET', KEYS[1], slot + interval, 'PX', slot - now + interval * 2)
+return slot - now
+`;
+
+/**
+ * Redis Rate Limiter
+ * Spaces slots across every backend replica sharing the same Redis
+ */
+export class RedisRateLimiter implements RateLimiter {
+  constructor(
+    private readonly name: string,
+    private readonly intervalMs: number,
+    private readonly keyPrefix: string = 'wikidai'
+  ) {}
+
+  async reserve(): Promise<number> {
+    const wait = await withRedis((redis) =>
+      redis.eval(RESERVE_SCRIPT, {
+        keys: [`${this.keyPrefix}:ratelimit:${this.name}`],
+        arguments: [String(this.intervalMs)],
+      })
+    );
+    return Number(wait);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Shared Redis Client
+ *
+ * Lazily creates a single Redis connection for the whole process.
+ * Used by the Redis-backed conversation store (and any other Redis consumers).
+ *
+ * Redis being unreachable must never hang a request: connecting gives up after
+ * a few attempts, commands fail right away while disconnected, and every call
+ * made through withRedis() is bounded by REDIS_TIMEOUT_MS.
+ */
+
+import { createClient } from 'redis';
+import { config } from './config';
+import { logger } from './logging';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+let client: RedisClient | null = null;
+let connecting: Promise<RedisClient> | null = null;
+
+/**
+ * Get the connected Redis client, connecting on first use.
+ * Rejects once the connection attempts are exhausted; the next call tries again.
+ */
+export async function getRedisClient(): Promise<RedisClient> {
+  // Open but not ready means reconnecting: commands fail fast (no offline queue)
+  if (client?.isOpen) {
+    return client;
+  }
+
+  if (!connecting) {
+    const newClient = createClient({
+      url: config.redisUrl,
+      disableOfflineQueue: true,
+      socket: {
+        connectTimeout: config.redisTimeoutMs,
+        reconnectStrategy: (retries) =>
+          retries >= config.redisMaxReconnects
+            ? new Error(`Redis unreachable after ${retries + 1} connection attempts`)
+            : Math.min(100 * 2 ** retries, 2000),
+      },
+    });
+    newClient.on('error', (error) => {
+      logger.error('Redis error', { error });
+    });
+
+    // A server that accepts the socket but never answers the handshake would keep connect() pending
+    connecting = withTimeout(
+      newClient.connect(),
+      `Redis did not complete the connection within ${config.redisTimeoutMs}ms`
+    )
+      .then(() => {
+        logger.info('Connected to Redis', { host: new URL(config.redisUrl).host });
+        client = newClient;
+        return newClient;
+      })
+      .catch(async (error) => {
+        if (newClient.isOpen) {
+          await newClient.disconnect().catch(() => undefined);
+        }
+        throw error;
+      })
+      .finally(() => {
+        connecting = null;
+      });
+  }
+
+  return connecting;
+}
+
+/**
+ * Run Redis commands, rejecting if connecting plus the commands take longer than REDIS_TIMEOUT_MS
+ * @param connect - Source of the client (the shared connection by default)
+ */
+export function withRedis<T>(
+  run: (redis: RedisClient) => Promise<T>,
+  connect: () => Promise<RedisClient> = getRedisClient
+): Promise<T> {
+  return withTimeout(connect().then(run), `Redis did not answer within ${config.redisTimeoutMs}ms`);
+}
+
+/**
+ * Close the shared connection, failing its pending commands; the next call reconnects
+ */
+export async function disconnectRedis(): Promise<void> {
+  const current = client;
+  client = null;
+  if (current?.isOpen) {
+    await current.disconnect();
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), config.redisTimeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Agent, AgentRegistry } from './agents';
+import { WikidataAgent } from './agents/wikidata-agent';
+import { ReflexiveMode } from './reflexive-mode';
+
+/** Stands in for an agent loaded from AGENT_MODULES */
+const moduleAgent: Agent<{}, string> = {
+  name: 'lookup_museum',
+  declaration: { name: 'lookup_museum', description: 'Find museums by city. Returns names and addresses.' },
+  validateArgs: () => ({}),
+  invoke: async () => '',
+  formatResult: (result) => result,
+};
+
+test('/help lists the registered agents, including ones loaded from modules', () => {
+  const registry = new AgentRegistry().register(new WikidataAgent()).register(moduleAgent);
+  const { answer } = new ReflexiveMode(registry).handleReflexive('/help');
+
+  assert.match(answer!, /- \*\*query_wikidata\*\*: Execute a SPARQL query on Wikidata/);
+  assert.match(answer!, /- \*\*lookup_museum\*\*: Find museums by city\.\n/);
+  assert.doesNotMatch(answer!, /get_weather/);
+});
@@ -5,6 +5,8 @@
  * Triggered by special commands or questions about the system itself.
  */
 
+import { AgentRegistry, createAgentRegistry } from './agents';
+
 export interface ReflexiveResponse {
   isReflexive: boolean;
   answer?: string;
@@ -12,7 +14,16 @@ export interface ReflexiveResponse {
 }
 
 export class ReflexiveMode {
-  private helpText = `
+  /**
+   * @param registry - Agents listed in the help (the ones the orchestrator exposes)
+   */
+  constructor(private readonly registry: AgentRegistry = createAgentRegistry()) {}
+
+  /**
+   * Full help, with the agents of this deployment
+   */
+  private helpText(): string {
+    return `
 # WikidAI - Come Funziona
 
 ## 🎯 Architettura
@@ -28,11 +39,7 @@ WikidAI è un sistema **multi-agente educativo** che usa Gemini 2.5 Pro come orc
    - **Thinking Mode**: Mostra il ragionamento interno
 
 2. **Agenti Disponibili**:
-   - 🔍 **Wikidata**: Query SPARQL su knowledge graph strutturato
-   - 📚 **Wikipedia**: Riassunti enciclopedici
-   - 🌐 **DuckDuckGo**: Ricerca web (fallback)
-   - 📍 **Nominatim**: Geocoding (OpenStreetMap)
-   - ☁️ **Open-Meteo**: Previsioni meteo
+${this.agentList()}
 
 3. **Sistema di Conversazione**:
    - Mantiene storia messaggi per contesto
@@ -121,7 +128,7 @@ SELECT ?mayorLabel WHERE {
 **3 Container**:
 - \`backend\`: Node.js + TypeScript + Gemini
 - \`frontend\`: Nginx + Static HTML
-- \`redis\`: Cache + Task Queue (BullMQ)
+- \`redis\`: Cache + Rate Limiting + Conversazioni
 
 ## 🤔 Comandi Speciali
 
@@ -142,6 +149,20 @@ Demo by: voce777 / Giovanni Novelli
 - Wikidata Query Service: https://query.wikidata.org/
 - Conference: https://meta.wikimedia.org/wiki/ItWikiCon/2025
 `;
+  }
+
+  /**
+   * Markdown list of the registered agents with the first sentence of their description
+   */
+  private agentList(): string {
+    return this.registry
+      .list()
+      .map((agent) => {
+        const [summary] = (agent.declaration.description || '').split(/(?<=\.)\s/);
+        return `   - **${agent.name}**: ${summary}`;
+      })
+      .join('\n');
+  }
 
   /**
    * Check if query is a reflexive/meta question
@@ -183,7 +204,7 @@ Demo by: voce777 / Giovanni Novelli
       return {
         isReflexive: true,
         command: 'help',
-        answer: this.helpText,
+        answer: this.helpText(),
       };
     }
 
@@ -238,10 +259,7 @@ Demo by: voce777 / Giovanni Novelli
 
 1. **Analizzo la tua domanda** in linguaggio naturale
 2. **Decido quali agenti chiamare**:
-   - 🔍 Wikidata (SPARQL queries)
-   - 📚 Wikipedia (riassunti)
-   - 📍 Nominatim (geocoding)
-   - ☁️ Open-Meteo (meteo)
+${this.agentList()}
 3. **Eseguo le chiamate** in sequenza o parallelo
 4. **Compongo la risposta** dai dati ricevuti
 5. **Mostro il ragionamento** nel pannello "AI Reasoning Process"
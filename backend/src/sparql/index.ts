@@ -0,0 +1,18 @@
+/**
+ * SPARQL repair, validation and rewriting
+ */
+
+import { config } from '../config';
+import { SparqlGate } from './sparql-gate';
+
+export { SparqlGate };
+export type { SparqlGateOptions, SparqlGateResult, SparqlRewrite } from './sparql-gate';
+export type { SparqlDiagnostic } from './sparql-repair';
+export { STANDARD_PREFIXES, repairSparql, formatDiagnostic } from './sparql-repair';
+
+/**
+ * Create the gate configured by SPARQL_ALLOWED_SERVICES, SPARQL_DEFAULT_LIMIT and SPARQL_MAX_LIMIT
+ */
+export function createSparqlGate(): SparqlGate {
+  return new SparqlGate(config.sparql);
+}
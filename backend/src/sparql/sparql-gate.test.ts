@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { SparqlGate } from './sparql-gate';
+
+const gate = new SparqlGate({
+  allowedServices: ['http://wikiba.se/ontology#label'],
+  defaultLimit: 100,
+  maxLimit: 1000,
+});
+
+const PREFIXES = 'PREFIX wd: <http://www.wikidata.org/entity/>\nPREFIX wdt: <http://www.wikidata.org/prop/direct/>\n';
+
+test('adds a LIMIT to the outer query', () => {
+  const result = gate.check(`${PREFIXES}SELECT ?item WHERE { ?item wdt:P31 wd:Q5 }`);
+
+  assert.ok(result.valid);
+  assert.equal(result.limit, 100);
+  assert.deepEqual(
+    result.rewrites.map((rewrite) => rewrite.rule),
+    ['limit_added']
+  );
+});
+
+test('caps the LIMIT of a subquery', () => {
+  const result = gate.check(`${PREFIXES}SELECT ?item WHERE {
+    { SELECT ?item WHERE { ?item wdt:P31 wd:Q5 } LIMIT 5000000 }
+  } LIMIT 10`);
+
+  assert.ok(result.valid);
+  assert.match(result.query, /LIMIT 1000\b/);
+  assert.doesNotMatch(result.query, /5000000/);
+  assert.deepEqual(
+    result.rewrites.map((rewrite) => rewrite.message),
+    ['Lowered subquery LIMIT 5000000 to the maximum of 1000']
+  );
+});
+
+test('caps LIMITs of subqueries nested in OPTIONAL and EXISTS', () => {
+  const result = gate.check(`${PREFIXES}SELECT ?item WHERE {
+    ?item wdt:P31 wd:Q5 .
+    OPTIONAL { { SELECT ?item WHERE { ?item wdt:P27 ?country } LIMIT 20000 } }
+    FILTER EXISTS { { SELECT ?item WHERE { ?item wdt:P106 ?job } LIMIT 30000 } }
+  } LIMIT 10`);
+
+  assert.ok(result.valid);
+  assert.doesNotMatch(result.query, /20000|30000/);
+  assert.equal(result.rewrites.filter((rewrite) => rewrite.rule === 'limit_capped').length, 2);
+});
+
+test('leaves a subquery without LIMIT alone', () => {
+  const query = `${PREFIXES}SELECT ?item ?count WHERE {
+    { SELECT ?item (COUNT(?award) AS ?count) WHERE { ?item wdt:P166 ?award } GROUP BY ?item }
+  } LIMIT 10`;
+  const result = gate.check(query);
+
+  assert.ok(result.valid);
+  assert.deepEqual(result.rewrites, []);
+});
+
+test('refuses a SERVICE hidden in a subquery inside NOT EXISTS', () => {
+  const result = gate.check(`${PREFIXES}SELECT ?item WHERE {
+    ?item wdt:P31 wd:Q5 .
+    FILTER NOT EXISTS { { SELECT ?item WHERE { SERVICE <http://evil.example/sparql> { ?item ?p ?o } } } }
+  } LIMIT 10`);
+
+  assert.equal(result.valid, false);
+  assert.ok(!result.valid && result.reason === 'service');
+});
+
+describe('refuses a SERVICE hidden in EXISTS outside the WHERE clause', () => {
+  const exists = 'EXISTS { SERVICE <http://evil.example/sparql> { ?a ?b ?c } }';
+  const positions: Record<string, string> = {
+    'a projected expression': `SELECT ?x (${exists} AS ?e) WHERE { ?x ?y ?z }`,
+    'ORDER BY': `SELECT ?x WHERE { ?x ?y ?z } ORDER BY (${exists})`,
+    HAVING: `SELECT ?x WHERE { ?x ?y ?z } GROUP BY ?x HAVING (${exists})`,
+    'GROUP BY': `SELECT ?e WHERE { ?x ?y ?z } GROUP BY (${exists} AS ?e)`,
+    'an aggregate': `SELECT (SAMPLE(${exists}) AS ?e) WHERE { ?x ?y ?z }`,
+    'a subquery projection': `SELECT ?x WHERE { { SELECT ?x (${exists} AS ?e) WHERE { ?x ?y ?z } } }`,
+    'a subquery ORDER BY': `SELECT ?x WHERE { { SELECT ?x WHERE { ?x ?y ?z } ORDER BY (${exists}) LIMIT 5 } }`,
+  };
+
+  for (const [position, query] of Object.entries(positions)) {
+    test(position, () => {
+      const result = gate.check(query);
+
+      assert.ok(!result.valid && result.reason === 'service', JSON.stringify(result));
+    });
+  }
+});
+
+test('caps the LIMIT of a subquery inside EXISTS in ORDER BY', () => {
+  const result = gate.check(
+    `SELECT ?x WHERE { ?x ?y ?z } ORDER BY (EXISTS { { SELECT ?x WHERE { ?x ?y ?z } LIMIT 50000 } }) LIMIT 10`
+  );
+
+  assert.ok(result.valid);
+  assert.doesNotMatch(result.query, /50000/);
+});
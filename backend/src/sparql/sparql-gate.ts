@@ -0,0 +1,226 @@
+import { Expression, Generator, Pattern, Query, SelectQuery, ServicePattern, Wildcard } from 'sparqljs';
+import { SparqlDiagnostic, formatDiagnostic, repairSparql } from './sparql-repair';
+
+const generator = new Generator();
+
+/**
+ * A change made to a query before execution
+ */
+export interface SparqlRewrite {
+  rule:
+    | 'code_fence_removed'
+    | 'quotes_normalized'
+    | 'prefix_added'
+    | 'label_service_added'
+    | 'limit_added'
+    | 'limit_capped';
+  message: string;
+}
+
+export type SparqlGateResult =
+  | {
+      valid: true;
+      query: string;
+      rewrites: SparqlRewrite[];
+      /** LIMIT of the outer query as executed (absent for ASK) */
+      limit?: number;
+    }
+  | { valid: false; reason: 'syntax' | 'update' | 'service'; error: string; diagnostic?: SparqlDiagnostic };
+
+export interface SparqlGateOptions {
+  /** SERVICE IRIs a query may call */
+  allowedServices: string[];
+  /** LIMIT added to queries without one */
+  defaultLimit: number;
+  /** Larger LIMITs are lowered to this value */
+  maxLimit: number;
+}
+
+/**
+ * SPARQL Gate - "The SPARQL Gauntlet"
+ * Repairs common generation mistakes, then enforces read-only access on the parsed query:
+ * updates are rejected, SERVICE clauses must be allow-listed, and the
+ * result size is bounded by adding or capping LIMIT
+ */
+export class SparqlGate {
+  private allowedServices: Set<string>;
+
+  constructor(private readonly options: SparqlGateOptions) {
+    this.allowedServices = new Set(options.allowedServices);
+  }
+
+  check(queryString: string): SparqlGateResult {
+    // Step 1: Syntax validation with sparqljs, after repairing common mistakes
+    const repair = repairSparql(queryString);
+    if (!repair.valid) {
+      return {
+        valid: false,
+        reason: 'syntax',
+        error: formatDiagnostic(repair.diagnostic),
+        diagnostic: repair.diagnostic,
+      };
+    }
+    const { parsed } = repair;
+
+    // Step 2: Only queries, never updates (INSERT, DELETE, LOAD, CLEAR, CREATE, DROP...)
+    if (parsed.type !== 'query') {
+      const operations = parsed.updates.map((update) => ('updateType' in update ? update.updateType : update.type));
+      return {
+        valid: false,
+        reason: 'update',
+        error: `SPARQL update operations are not allowed (${operations.join(', ')}). Only read-only queries are allowed.`,
+      };
+    }
+
+    const nested = this.queryPatterns(parsed);
+
+    // Step 3: SERVICE allow-list (no federation to arbitrary endpoints)
+    const services = nested.filter((pattern): pattern is ServicePattern => pattern.type === 'service');
+    for (const service of services) {
+      if (service.name.termType !== 'NamedNode') {
+        return {
+          valid: false,
+          reason: 'service',
+          error: `SERVICE with a variable endpoint (?${service.name.value}) is not allowed.`,
+        };
+      }
+      if (!this.allowedServices.has(service.name.value)) {
+        return {
+          valid: false,
+          reason: 'service',
+          error: `SERVICE <${service.name.value}> is not allowed. Allowed services: ${[...this.allowedServices]
+            .map((iri) => `<${iri}>`)
+            .join(', ')}`,
+        };
+      }
+    }
+
+    // Step 4: Bound the result size, and the work of subqueries
+    const subqueries = nested.filter((pattern): pattern is SelectQuery => pattern.type === 'query');
+    const limitRewrites = [...this.applyLimit(parsed), ...this.capSubqueryLimits(subqueries)];
+    const rewrites = [...repair.rewrites, ...limitRewrites];
+    const { limit } = parsed as Query & { limit?: number };
+    if (!repair.astModified && limitRewrites.length === 0) {
+      return { valid: true, query: repair.query, rewrites, limit };
+    }
+
+    return { valid: true, query: generator.stringify(parsed), rewrites, limit };
+  }
+
+  /**
+   * Add a LIMIT to the outer query, or lower an excessive one (ASK returns a single boolean)
+   */
+  private applyLimit(query: Query): SparqlRewrite[] {
+    if (query.queryType === 'ASK') {
+      return [];
+    }
+
+    const { defaultLimit, maxLimit } = this.options;
+    // sparqljs parses LIMIT on CONSTRUCT/DESCRIBE too, but only types it on SELECT
+    const bounded = query as Query & { limit?: number };
+
+    if (bounded.limit === undefined) {
+      bounded.limit = defaultLimit;
+      return [{ rule: 'limit_added', message: `Added LIMIT ${defaultLimit} (query had no LIMIT)` }];
+    }
+
+    if (bounded.limit > maxLimit) {
+      const requested = bounded.limit;
+      bounded.limit = maxLimit;
+      return [{ rule: 'limit_capped', message: `Lowered LIMIT ${requested} to the maximum of ${maxLimit}` }];
+    }
+
+    return [];
+  }
+
+  /**
+   * Lower LIMITs of subqueries above the maximum (a subquery without LIMIT is left as is)
+   */
+  private capSubqueryLimits(subqueries: SelectQuery[]): SparqlRewrite[] {
+    const { maxLimit } = this.options;
+
+    return subqueries
+      .filter((subquery) => subquery.limit !== undefined && subquery.limit > maxLimit)
+      .map((subquery) => {
+        const requested = subquery.limit;
+        subquery.limit = maxLimit;
+        return {
+          rule: 'limit_capped',
+          message: `Lowered subquery LIMIT ${requested} to the maximum of ${maxLimit}`,
+        };
+      });
+  }
+
+  /**
+   * Every pattern of a query: its WHERE clause and the EXISTS in its projected expressions,
+   * GROUP BY, HAVING and ORDER BY
+   */
+  private queryPatterns(query: Query): Pattern[] {
+    // sparqljs types these on SELECT only, but parses them on every query form
+    const { variables, group, having, order } = query as Query &
+      Partial<Pick<SelectQuery, 'variables' | 'group' | 'having' | 'order'>>;
+    const expressions: Expression[] = [
+      ...(variables ?? []).flatMap((variable) => ('expression' in variable ? [variable.expression] : [])),
+      ...(group ?? []).map((grouping) => grouping.expression),
+      ...(having ?? []),
+      ...(order ?? []).map((ordering) => ordering.expression),
+    ];
+
+    return [
+      ...this.nestedPatterns(query.where || []),
+      ...expressions.flatMap((expression) => this.patternsInExpression(expression)),
+    ];
+  }
+
+  /**
+   * Every pattern, including those nested in groups, OPTIONAL, UNION, MINUS, GRAPH, SERVICE,
+   * EXISTS and subqueries
+   */
+  private nestedPatterns(patterns: Pattern[]): Pattern[] {
+    return patterns.flatMap((pattern) => {
+      switch (pattern.type) {
+        case 'service':
+        case 'group':
+        case 'optional':
+        case 'union':
+        case 'minus':
+        case 'graph':
+          return [pattern, ...this.nestedPatterns(pattern.patterns)];
+        case 'filter':
+        case 'bind':
+          return [pattern, ...this.patternsInExpression(pattern.expression)];
+        case 'query':
+          return [pattern, ...this.queryPatterns(pattern)];
+        default:
+          return [pattern];
+      }
+    });
+  }
+
+  /**
+   * Patterns inside (NOT) EXISTS expressions, also as arguments of functions and aggregates
+   */
+  private patternsInExpression(expression: Expression): Pattern[] {
+    if (Array.isArray(expression) || !('type' in expression)) {
+      return [];
+    }
+    if (expression.type === 'aggregate') {
+      // COUNT(*) aggregates a wildcard
+      const { expression: argument } = expression;
+      return argument instanceof Wildcard ? [] : this.patternsInExpression(argument);
+    }
+    if (expression.type === 'functionCall') {
+      return expression.args.flatMap((arg) => this.patternsInExpression(arg));
+    }
+    if (expression.type !== 'operation') {
+      return [];
+    }
+
+    // EXISTS arguments are graph patterns (a lone pattern is not wrapped in a group)
+    if (expression.operator === 'exists' || expression.operator === 'notexists') {
+      return this.nestedPatterns(expression.args as Pattern[]);
+    }
+
+    return (expression.args as Expression[]).flatMap((arg) => this.patternsInExpression(arg));
+  }
+}
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { SelectQuery } from 'sparqljs';
+import { SparqlRepairResult, formatDiagnostic, repairSparql } from './sparql-repair';
+
+const PREFIXES = 'PREFIX wd: <http://www.wikidata.org/entity/>\nPREFIX wdt: <http://www.wikidata.org/prop/direct/>\n';
+
+function repaired(query: string): Extract<SparqlRepairResult, { valid: true }> {
+  const result = repairSparql(query);
+  assert.ok(result.valid, JSON.stringify(result));
+  return result;
+}
+
+function rules(query: string): string[] {
+  return repaired(query).rewrites.map((rewrite) => rewrite.rule);
+}
+
+describe('text repairs', () => {
+  test('strips markdown code fences', () => {
+    const result = repaired(`\`\`\`sparql\n${PREFIXES}SELECT ?item WHERE { ?item wdt:P31 wd:Q5 }\n\`\`\``);
+
+    assert.doesNotMatch(result.query, /```/);
+    assert.deepEqual(
+      result.rewrites.map((rewrite) => rewrite.rule),
+      ['code_fence_removed']
+    );
+  });
+
+  test('replaces typographic quotes around literals', () => {
+    const result = repaired(`${PREFIXES}SELECT ?item WHERE { ?item ?label “Rome”@en . ?item ?alias ‘Roma’ }`);
+
+    assert.match(result.query, /"Rome"@en \. \?item \?alias 'Roma'/);
+    assert.deepEqual(
+      result.rewrites.map((rewrite) => rewrite.rule),
+      ['quotes_normalized']
+    );
+  });
+
+  test('keeps typographic quotes inside literals, IRIs and comments', () => {
+    const query = `${PREFIXES}SELECT ?item WHERE { ?item ?label “L’Aquila”@it . # the city’s “name”
+  ?item ?page <https://it.wikipedia.org/wiki/L’Aquila> }`;
+
+    const result = repaired(query);
+
+    assert.match(result.query, /"L’Aquila"@it \. # the city’s “name”/);
+    assert.match(result.query, /<https:\/\/it\.wikipedia\.org\/wiki\/L’Aquila>/);
+  });
+
+  test('leaves a query with plain delimiters alone', () => {
+    assert.deepEqual(rules(`${PREFIXES}SELECT ?item WHERE { ?item ?label "L’Aquila"@it }`), []);
+  });
+});
+
+describe('prefixes', () => {
+  test('declares the standard prefixes the query uses', () => {
+    const result = repaired('SELECT ?item WHERE { ?item wdt:P31 wd:Q5 }');
+
+    assert.deepEqual(Object.keys(result.parsed.prefixes).sort(), ['wd', 'wdt']);
+    assert.match(result.query, /^PREFIX wdt: <http:\/\/www\.wikidata\.org\/prop\/direct\/>\n/);
+    assert.deepEqual(
+      result.rewrites.map((rewrite) => rewrite.message),
+      ['Added missing PREFIX declarations: wdt, wd']
+    );
+  });
+
+  test('does not guess an unknown prefix', () => {
+    const result = repairSparql('SELECT ?item WHERE {\n  ?item foo:bar wd:Q5 .\n}');
+
+    assert.ok(!result.valid);
+    assert.equal(result.diagnostic.message, 'Unknown prefix "foo:" (declare it with PREFIX foo: <...>)');
+    assert.deepEqual([result.diagnostic.line, result.diagnostic.column], [2, 9]);
+  });
+});
+
+describe('label service', () => {
+  test('adds SERVICE wikibase:label for unbound ?xLabel variables', () => {
+    const result = repaired(`${PREFIXES}SELECT ?item ?itemLabel WHERE { ?item wdt:P31 wd:Q5 }`);
+    const where = (result.parsed as SelectQuery).where!;
+
+    assert.equal(result.astModified, true);
+    assert.deepEqual(
+      result.rewrites.map((rewrite) => rewrite.rule),
+      ['label_service_added']
+    );
+    assert.equal(where[where.length - 1].type, 'service');
+  });
+
+  test('leaves a label variable bound by the query alone', () => {
+    const query = `${PREFIXES}PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
+SELECT ?item ?itemLabel WHERE { ?item wdt:P31 wd:Q5 ; rdfs:label ?itemLabel }`;
+
+    assert.equal(repaired(query).astModified, false);
+  });
+});
+
+describe('diagnostics', () => {
+  test('positions a syntax error in the query as the model wrote it', () => {
+    // Two PREFIX lines are added before parsing, the position must not move
+    const result = repairSparql('SELECT ?item WHERE {\n  ?item wdt:P31 wd:Q5 .\n  FILTER(?item = )\n}');
+
+    assert.ok(!result.valid);
+    const { diagnostic } = result;
+    assert.deepEqual([diagnostic.line, diagnostic.column, diagnostic.found], [3, 18, ')']);
+    assert.equal(
+      formatDiagnostic(diagnostic).split('\n').slice(-2).join('\n'),
+      '> 3 |   FILTER(?item = )\n    |                  ^'
+    );
+    assert.match(
+      formatDiagnostic(diagnostic),
+      /^SPARQL syntax error at line 3, column 18: Unexpected "\)"\nExpected one of: .*, \.\.\.$/m
+    );
+  });
+
+  test('reports an unclosed brace at the end of the query', () => {
+    const result = repairSparql(`${PREFIXES}SELECT ?item WHERE {\n  ?item wdt:P31 wd:Q5 .`);
+
+    assert.ok(!result.valid);
+    assert.equal(result.diagnostic.message, 'Unexpected end of query (unclosed brace or incomplete pattern?)');
+    assert.equal(result.diagnostic.found, undefined);
+  });
+});
@@ -0,0 +1,335 @@
+import { Parser, Pattern, SelectQuery, SparqlQuery } from 'sparqljs';
+import type { SparqlRewrite } from './sparql-gate';
+
+/**
+ * Prefixes predefined by the Wikidata Query Service, added when a query uses them undeclared
+ */
+export const STANDARD_PREFIXES: Record<string, string> = {
+  wd: 'http://www.wikidata.org/entity/',
+  wdt: 'http://www.wikidata.org/prop/direct/',
+  wdtn: 'http://www.wikidata.org/prop/direct-normalized/',
+  p: 'http://www.wikidata.org/prop/',
+  ps: 'http://www.wikidata.org/prop/statement/',
+  psv: 'http://www.wikidata.org/prop/statement/value/',
+  pq: 'http://www.wikidata.org/prop/qualifier/',
+  pqv: 'http://www.wikidata.org/prop/qualifier/value/',
+  pr: 'http://www.wikidata.org/prop/reference/',
+  prov: 'http://www.w3.org/ns/prov#',
+  wikibase: 'http://wikiba.se/ontology#',
+  bd: 'http://www.bigdata.com/rdf#',
+  schema: 'http://schema.org/',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  skos: 'http://www.w3.org/2004/02/skos/core#',
+  geo: 'http://www.opengis.net/ont/geosparql#',
+};
+
+const LABEL_SERVICE = 'http://wikiba.se/ontology#label';
+const LABEL_VARIABLE = /(AltLabel|Label|Description)$/;
+const MAX_EXPECTED_TOKENS = 8;
+const DOUBLE_QUOTES = ['“', '”', '„'];
+const SINGLE_QUOTES = ['‘', '’'];
+const IRI = /<[^<>"{}|^`\\\s]*>/y;
+const COMMENT = /#[^\n]*/y;
+
+/**
+ * Where and why a query failed to parse, with line numbers as the model wrote it
+ */
+export interface SparqlDiagnostic {
+  message: string;
+  /** 1-based, absent when the parser gives no position */
+  line?: number;
+  column?: number;
+  /** Offending token */
+  found?: string;
+  /** Tokens the parser would have accepted */
+  expected?: string[];
+  /** Numbered source lines around the error */
+  excerpt?: string;
+}
+
+export type SparqlRepairResult =
+  | {
+      valid: true;
+      /** Repaired query text */
+      query: string;
+      parsed: SparqlQuery;
+      rewrites: SparqlRewrite[];
+      /** The AST was changed, so the text must be regenerated from it */
+      astModified: boolean;
+    }
+  | { valid: false; diagnostic: SparqlDiagnostic };
+
+/**
+ * Fix common generation mistakes before validation:
+ * markdown fences, typographic quotes, undeclared standard prefixes and
+ * a missing SERVICE wikibase:label for projected ?xLabel variables
+ */
+export function repairSparql(queryString: string): SparqlRepairResult {
+  const rewrites: SparqlRewrite[] = [];
+
+  // Text repairs keep line and column positions, so diagnostics match the model's query
+  let body = queryString.replace(/^[ \t]*```[\w-]*[ \t]*$/gm, '');
+  if (body !== queryString) {
+    rewrites.push({ rule: 'code_fence_removed', message: 'Removed markdown code fences' });
+  }
+
+  const unquoted = normalizeQuotes(body);
+  if (unquoted !== body) {
+    rewrites.push({ rule: 'quotes_normalized', message: 'Replaced typographic quotes with plain quotes' });
+    body = unquoted;
+  }
+
+  const added: string[] = [];
+  const header = () => added.map((prefix) => `PREFIX ${prefix}: <${STANDARD_PREFIXES[prefix]}>\n`).join('');
+
+  let parsed: SparqlQuery | undefined;
+  while (!parsed) {
+    try {
+      parsed = new Parser().parse(header() + body);
+    } catch (error: any) {
+      const prefix = /^Unknown prefix: (.+)$/.exec(error.message)?.[1];
+      if (prefix && STANDARD_PREFIXES[prefix] && !added.includes(prefix)) {
+        added.push(prefix);
+        continue;
+      }
+      return { valid: false, diagnostic: diagnose(body, error, added.length) };
+    }
+  }
+
+  if (added.length > 0) {
+    rewrites.push({ rule: 'prefix_added', message: `Added missing PREFIX declarations: ${added.join(', ')}` });
+  }
+
+  const astModified = addLabelService(parsed);
+  if (astModified) {
+    rewrites.push({
+      rule: 'label_service_added',
+      message: 'Added SERVICE wikibase:label (query projects ?xLabel variables without it)',
+    });
+  }
+
+  return { valid: true, query: header() + body, parsed, rewrites, astModified };
+}
+
+/**
+ * Replace typographic quotes that delimit string literals with plain ones, one character
+ * for one. Quotes inside literals, IRIs and comments are content ("L’Aquila"@it).
+ */
+function normalizeQuotes(text: string): string {
+  let output = '';
+  let literal: { delimiter: string; closers: string[] } | undefined;
+
+  for (let i = 0; i < text.length; ) {
+    if (literal) {
+      if (text[i] === '\\') {
+        output += text.slice(i, i + 2);
+        i += 2;
+        continue;
+      }
+      const closer = literal.closers.find((candidate) => text.startsWith(candidate, i));
+      if (closer) {
+        output += literal.delimiter;
+        i += closer.length;
+        literal = undefined;
+      } else {
+        output += text[i++];
+      }
+      continue;
+    }
+
+    const skipped = text[i] === '#' ? COMMENT : text[i] === '<' ? IRI : undefined;
+    if (skipped) {
+      skipped.lastIndex = i;
+      const match = skipped.exec(text);
+      if (match) {
+        output += match[0];
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    const typographic = DOUBLE_QUOTES.includes(text[i]) ? '"' : SINGLE_QUOTES.includes(text[i]) ? "'" : undefined;
+    if (typographic) {
+      // A literal opened with a typographic quote may be closed with either kind
+      const closers = [typographic, ...(typographic === '"' ? DOUBLE_QUOTES : SINGLE_QUOTES)];
+      literal = { delimiter: typographic, closers };
+      output += typographic;
+      i++;
+    } else if (text[i] === '"' || text[i] === "'") {
+      const delimiter = text.startsWith(text[i].repeat(3), i) ? text[i].repeat(3) : text[i];
+      literal = { delimiter, closers: [delimiter] };
+      output += delimiter;
+      i += delimiter.length;
+    } else {
+      output += text[i++];
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Append the label service when SELECT projects label variables that nothing binds
+ */
+function addLabelService(parsed: SparqlQuery): boolean {
+  if (parsed.type !== 'query' || parsed.queryType !== 'SELECT' || !parsed.where) {
+    return false;
+  }
+
+  const hasLabelService = collect(
+    parsed.where,
+    (node) => node.type === 'service' && node.name?.value === LABEL_SERVICE
+  ).length > 0;
+  if (hasLabelService) {
+    return false;
+  }
+
+  const bound = new Set(collect(parsed.where, (node) => node.termType === 'Variable').map((node) => node.value));
+  const projected = collect(parsed.variables, (node) => node.termType === 'Variable').map((node) => node.value);
+  if (!projected.some((name) => LABEL_VARIABLE.test(name) && !bound.has(name))) {
+    return false;
+  }
+
+  parsed.prefixes.wikibase ??= STANDARD_PREFIXES.wikibase;
+  parsed.prefixes.bd ??= STANDARD_PREFIXES.bd;
+  parsed.where.push(labelServicePattern());
+
+  return true;
+}
+
+/**
+ * SERVICE wikibase:label { bd:serviceParam wikibase:language "[AUTO_LANGUAGE],en". }
+ */
+function labelServicePattern(): Pattern {
+  const query = new Parser().parse(
+    `PREFIX wikibase: <${STANDARD_PREFIXES.wikibase}>\nPREFIX bd: <${STANDARD_PREFIXES.bd}>\n` +
+      'SELECT * WHERE { SERVICE wikibase:label { bd:serviceParam wikibase:language "[AUTO_LANGUAGE],en". } }'
+  ) as SelectQuery;
+  return query.where![0];
+}
+
+/**
+ * Every AST node (object) matching the predicate
+ */
+function collect(node: any, predicate: (node: any) => boolean): any[] {
+  if (!node || typeof node !== 'object') {
+    return [];
+  }
+
+  const children = Array.isArray(node) ? node : Object.values(node);
+  const matches = children.flatMap((child) => collect(child, predicate));
+  return !Array.isArray(node) && predicate(node) ? [node, ...matches] : matches;
+}
+
+/**
+ * Turn a sparqljs error into a diagnostic positioned in the model's query
+ * @param headerLines - PREFIX lines prepended to the query before parsing
+ */
+function diagnose(body: string, error: any, headerLines: number): SparqlDiagnostic {
+  const lines = body.split('\n');
+  const unknownPrefix = /^Unknown prefix: (.+)$/.exec(error.message)?.[1];
+
+  let position: { line: number; column: number } | undefined;
+  if (unknownPrefix) {
+    position = findToken(lines, `${unknownPrefix}:`);
+  } else if (error.hash?.loc) {
+    // sparqljs reports the last token it accepted; the error is the next token after it
+    const { last_line, last_column } = error.hash.loc;
+    position = skipWhitespace(lines, last_line - 1 - headerLines, last_column);
+  }
+
+  const atEnd = error.hash?.token === 'EOF';
+  const found: string | undefined = atEnd ? undefined : error.hash?.text;
+  const expected: string[] | undefined = error.hash?.expected?.map((token: string) => token.replace(/'/g, ''));
+  let message: string;
+  if (unknownPrefix) {
+    message = `Unknown prefix "${unknownPrefix}:" (declare it with PREFIX ${unknownPrefix}: <...>)`;
+  } else if (atEnd) {
+    message = 'Unexpected end of query (unclosed brace or incomplete pattern?)';
+  } else if (found) {
+    message = `Unexpected "${found}"`;
+  } else {
+    message = error.message.split('\n')[0];
+  }
+
+  return {
+    message,
+    line: position?.line,
+    column: position?.column,
+    found,
+    expected,
+    excerpt: position ? excerpt(lines, position.line, position.column) : undefined,
+  };
+}
+
+/**
+ * First occurrence of a prefixed name (1-based position)
+ */
+function findToken(lines: string[], token: string): { line: number; column: number } | undefined {
+  const pattern = new RegExp(`(^|[^\\w<"'-])${token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`);
+  for (let i = 0; i < lines.length; i++) {
+    const match = pattern.exec(lines[i]);
+    if (match) {
+      return { line: i + 1, column: match.index + match[1].length + 1 };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Next non-whitespace character from a 0-based position (1-based result)
+ */
+function skipWhitespace(lines: string[], line: number, column: number): { line: number; column: number } | undefined {
+  if (line < 0 || line >= lines.length) {
+    return undefined;
+  }
+
+  for (let i = line; i < lines.length; i++) {
+    const start = i === line ? column : 0;
+    const offset = lines[i].slice(start).search(/\S/);
+    if (offset !== -1) {
+      return { line: i + 1, column: start + offset + 1 };
+    }
+  }
+
+  // Only whitespace left: point just past the last line
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Numbered source lines with a caret under the error
+ */
+function excerpt(lines: string[], line: number, column: number): string {
+  const from = Math.max(1, line - 2);
+  const width = String(line).length;
+  const output: string[] = [];
+
+  for (let n = from; n <= line; n++) {
+    const marker = n === line ? '>' : ' ';
+    output.push(`${marker} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+  }
+  output.push(`  ${' '.repeat(width)} | ${' '.repeat(column - 1)}^`);
+
+  return output.join('\n');
+}
+
+/**
+ * Diagnostic as sent back to the model
+ */
+export function formatDiagnostic(diagnostic: SparqlDiagnostic): string {
+  const position = diagnostic.line !== undefined ? ` at line ${diagnostic.line}, column ${diagnostic.column}` : '';
+  let output = `SPARQL syntax error${position}: ${diagnostic.message}`;
+
+  if (diagnostic.expected?.length) {
+    const shown = diagnostic.expected.slice(0, MAX_EXPECTED_TOKENS).join(', ');
+    const more = diagnostic.expected.length > MAX_EXPECTED_TOKENS ? ', ...' : '';
+    output += `\nExpected one of: ${shown}${more}`;
+  }
+  if (diagnostic.excerpt) {
+    output += `\n${diagnostic.excerpt}`;
+  }
+
+  return output;
+}
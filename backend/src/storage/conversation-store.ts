@@ -0,0 +1,36 @@
+/**
+ * Conversation Store
+ *
+ * Storage backend interface used by ConversationManager.
+ * Implementations: in-memory (single process) and Redis (shared, persistent).
+ */
+
+import type { Conversation } from '../conversation-manager';
+
+export interface ConversationStore {
+  /** Get a conversation by ID */
+  get(id: string): Promise<Conversation | undefined>;
+
+  /** Create or overwrite a conversation */
+  save(conversation: Conversation): Promise<void>;
+
+  /**
+   * Atomically read, change and write back a conversation, so concurrent writers
+   * (requests or replicas) never overwrite each other's messages. `change` may run
+   * more than once and should only modify the conversation it is given.
+   * Resolves with the saved conversation, or undefined if it does not exist.
+   */
+  update(id: string, change: (conversation: Conversation) => void): Promise<Conversation | undefined>;
+
+  /** Delete a conversation, returns false if it did not exist */
+  delete(id: string): Promise<boolean>;
+
+  /** List all conversations, most recently updated first */
+  list(): Promise<Conversation[]>;
+
+  /** Number of stored conversations */
+  count(): Promise<number>;
+
+  /** Delete all conversations, returns how many were removed */
+  clear(): Promise<number>;
+}
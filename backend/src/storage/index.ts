@@ -0,0 +1,29 @@
+/**
+ * Conversation storage backends
+ */
+
+import { config } from '../config';
+import { logger } from '../logging';
+import { ConversationStore } from './conversation-store';
+import { MemoryConversationStore } from './memory-conversation-store';
+import { RedisConversationStore } from './redis-conversation-store';
+
+export type { ConversationStore };
+export { MemoryConversationStore, RedisConversationStore };
+export { serializeConversation, deserializeConversation } from './serialization';
+export type { SerializedConversation, SerializedMessage, SerializedVariant } from './serialization';
+
+/**
+ * Create the conversation store selected by CONVERSATION_STORE ('memory' | 'redis')
+ */
+export function createConversationStore(): ConversationStore {
+  switch (config.conversationStore) {
+    case 'redis':
+      return new RedisConversationStore();
+    case 'memory':
+      return new MemoryConversationStore();
+    default:
+      logger.warn('Unknown CONVERSATION_STORE, falling back to memory', { store: config.conversationStore });
+      return new MemoryConversationStore();
+  }
+}
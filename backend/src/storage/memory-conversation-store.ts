@@ -0,0 +1,47 @@
+import type { Conversation } from '../conversation-manager';
+import { ConversationStore } from './conversation-store';
+
+/**
+ * In-Memory Conversation Store
+ * Keeps conversations in a process-local Map (lost on restart)
+ */
+export class MemoryConversationStore implements ConversationStore {
+  private conversations = new Map<string, Conversation>();
+
+  async get(id: string): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    this.conversations.set(conversation.id, conversation);
+  }
+
+  async update(id: string, change: (conversation: Conversation) => void): Promise<Conversation | undefined> {
+    // Nothing else runs between reading and changing the object, so this is atomic
+    const conversation = this.conversations.get(id);
+    if (conversation) {
+      change(conversation);
+    }
+    return conversation;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.conversations.delete(id);
+  }
+
+  async list(): Promise<Conversation[]> {
+    return Array.from(this.conversations.values()).sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+    );
+  }
+
+  async count(): Promise<number> {
+    return this.conversations.size;
+  }
+
+  async clear(): Promise<number> {
+    const count = this.conversations.size;
+    this.conversations.clear();
+    return count;
+  }
+}
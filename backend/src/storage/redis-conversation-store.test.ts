@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { afterEach, beforeEach, test } from 'node:test';
+import { WatchError } from 'redis';
+import { config } from '../config';
+import type { Conversation } from '../conversation-manager';
+import { RedisClient } from '../redis-client';
+import { RedisConversationStore } from './redis-conversation-store';
+
+/**
+ * In-memory stand-in for the commands the store sends. EXEC fails with a WatchError
+ * while `conflicts` is positive, as when another writer changed the watched key.
+ */
+class FakeRedis {
+  readonly data = new Map<string, string>();
+  conflicts = 0;
+  /** Delay of every GET, to simulate a slow server */
+  getDelayMs = 0;
+  /** Delay of every EXEC */
+  execDelayMs = 0;
+  execs = 0;
+
+  async executeIsolated<T>(run: (isolated: FakeRedis) => Promise<T>): Promise<T> {
+    return run(this);
+  }
+
+  async watch(): Promise<void> {}
+
+  async unwatch(): Promise<void> {}
+
+  async get(key: string): Promise<string | null> {
+    if (this.getDelayMs > 0) await sleep(this.getDelayMs);
+    return this.data.get(key) ?? null;
+  }
+
+  multi() {
+    const writes: Array<() => void> = [];
+    const transaction = {
+      set: (key: string, value: string) => {
+        writes.push(() => this.data.set(key, value));
+        return transaction;
+      },
+      zAdd: () => transaction,
+      exec: async () => {
+        this.execs++;
+        if (this.execDelayMs > 0) await sleep(this.execDelayMs);
+        if (this.conflicts > 0) {
+          this.conflicts--;
+          throw new WatchError();
+        }
+        writes.forEach((write) => write());
+        return [];
+      },
+    };
+    return transaction;
+  }
+}
+
+const KEY = 'test:conversation:c1';
+const originalTimeoutMs = config.redisTimeoutMs;
+let redis: FakeRedis;
+let store: RedisConversationStore;
+
+beforeEach(async () => {
+  config.redisTimeoutMs = 200;
+  redis = new FakeRedis();
+  store = new RedisConversationStore('test', async () => redis as unknown as RedisClient);
+  await store.save(conversation());
+});
+
+afterEach(() => {
+  config.redisTimeoutMs = originalTimeoutMs;
+});
+
+function conversation(): Conversation {
+  return {
+    id: 'c1',
+    title: 'Test',
+    messages: [],
+    createdAt: new Date('2025-01-01T10:00:00Z'),
+    updatedAt: new Date('2025-01-01T10:00:00Z'),
+    metadata: { totalQueries: 0, totalLatencyMs: 0, agentsUsed: new Set() },
+  };
+}
+
+const rename = (title: string) => (c: Conversation) => {
+  c.title = title;
+};
+
+function storedTitle(): string {
+  return JSON.parse(redis.data.get(KEY)!).title;
+}
+
+test('stores the changed conversation', async () => {
+  const updated = await store.update('c1', rename('Renamed'));
+
+  assert.equal(updated?.title, 'Renamed');
+  assert.equal(storedTitle(), 'Renamed');
+});
+
+test('answers undefined for a missing conversation', async () => {
+  assert.equal(await store.update('missing', rename('Renamed')), undefined);
+  assert.equal(redis.execs, 1); // the save in beforeEach only
+});
+
+test('retries when another writer changed the conversation', async () => {
+  redis.conflicts = 2;
+  let changes = 0;
+
+  await store.update('c1', (c) => {
+    changes++;
+    c.title = 'Renamed';
+  });
+
+  assert.equal(changes, 3);
+  assert.equal(storedTitle(), 'Renamed');
+});
+
+test('gives up when the conversation keeps changing', async () => {
+  redis.conflicts = Infinity;
+
+  await assert.rejects(store.update('c1', rename('Renamed')), /kept changing during the update/);
+  assert.equal(storedTitle(), 'Test');
+});
+
+test('fails without writing when Redis is too slow', async () => {
+  redis.getDelayMs = 300;
+  const execsBefore = redis.execs;
+
+  await assert.rejects(store.update('c1', rename('Renamed')), /Redis did not answer within 200ms/);
+
+  // The abandoned transaction must not commit once its GET finally answers
+  await sleep(200);
+  assert.equal(redis.execs, execsBefore);
+  assert.equal(storedTitle(), 'Test');
+});
+
+test('reports the outcome of a transaction sent before the deadline', async () => {
+  redis.execDelayMs = 300;
+
+  const updated = await store.update('c1', rename('Renamed'));
+
+  assert.equal(updated?.title, 'Renamed');
+  assert.equal(storedTitle(), 'Renamed');
+});
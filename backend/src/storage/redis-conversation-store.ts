@@ -0,0 +1,145 @@
+import type { Conversation } from '../conversation-manager';
+import { WatchError } from 'redis';
+import { config } from '../config';
+import { RedisClient, getRedisClient, withRedis } from '../redis-client';
+import { ConversationStore } from './conversation-store';
+import { deserializeConversation, serializeConversation, SerializedConversation } from './serialization';
+
+/**
+ * Redis Conversation Store
+ *
+ * Each conversation is stored as a JSON string under `<prefix>:conversation:<id>`.
+ * A sorted set `<prefix>:conversations` (score = updatedAt) indexes them for listing,
+ * so several backend replicas can share the same conversations. Updates are
+ * optimistic transactions (WATCH/MULTI), retried when another writer got there first.
+ */
+const MAX_UPDATE_ATTEMPTS = 10;
+
+export class RedisConversationStore implements ConversationStore {
+  constructor(
+    private readonly keyPrefix: string = 'wikidai',
+    /** Source of the Redis client (the shared connection by default) */
+    private readonly connect: () => Promise<RedisClient> = getRedisClient
+  ) {}
+
+  private conversationKey(id: string): string {
+    return `${this.keyPrefix}:conversation:${id}`;
+  }
+
+  private get indexKey(): string {
+    return `${this.keyPrefix}:conversations`;
+  }
+
+  async get(id: string): Promise<Conversation | undefined> {
+    const raw = await withRedis((redis) => redis.get(this.conversationKey(id)), this.connect);
+    if (!raw) {
+      return undefined;
+    }
+    return deserializeConversation(JSON.parse(raw) as SerializedConversation);
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    const json = JSON.stringify(serializeConversation(conversation));
+    await withRedis((redis) =>
+      redis
+        .multi()
+        .set(this.conversationKey(conversation.id), json)
+        .zAdd(this.indexKey, { score: conversation.updatedAt.getTime(), value: conversation.id })
+        .exec(),
+      this.connect
+    );
+  }
+
+  /**
+   * Apply a change as an optimistic transaction, retried while other writers commit first.
+   * REDIS_TIMEOUT_MS is a deadline checked before each EXEC rather than a race against the
+   * transaction: an EXEC already sent may commit, so its outcome is awaited and reported.
+   */
+  update(id: string, change: (conversation: Conversation) => void): Promise<Conversation | undefined> {
+    const key = this.conversationKey(id);
+    const deadline = Date.now() + config.redisTimeoutMs;
+    const expired = () => new Error(`Redis did not answer within ${config.redisTimeoutMs}ms`);
+    let committing = false;
+
+    const transaction = this.connect().then((redis) =>
+      // WATCH needs a connection of its own
+      redis.executeIsolated(async (isolated) => {
+        for (let attempt = 1; ; attempt++) {
+          await isolated.watch(key);
+          const raw = await isolated.get(key);
+          if (!raw) {
+            await isolated.unwatch();
+            return undefined;
+          }
+
+          const conversation = deserializeConversation(JSON.parse(raw) as SerializedConversation);
+          try {
+            change(conversation);
+          } catch (error: any) {
+            await isolated.unwatch();
+            throw error;
+          }
+
+          if (Date.now() >= deadline) {
+            await isolated.unwatch();
+            throw expired();
+          }
+
+          committing = true;
+          try {
+            await isolated
+              .multi()
+              .set(key, JSON.stringify(serializeConversation(conversation)))
+              .zAdd(this.indexKey, { score: conversation.updatedAt.getTime(), value: id })
+              .exec();
+            return conversation;
+          } catch (error: any) {
+            committing = false;
+            if (!(error instanceof WatchError)) throw error;
+            if (attempt >= MAX_UPDATE_ATTEMPTS) {
+              throw new Error(`Conversation ${id} kept changing during the update, giving up`);
+            }
+          }
+        }
+      })
+    );
+
+    return new Promise((resolve, reject) => {
+      // Until EXEC is sent, giving up cannot leave a write behind
+      const timer = setTimeout(() => committing || reject(expired()), config.redisTimeoutMs);
+      transaction.then(resolve, reject).finally(() => clearTimeout(timer));
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const [deleted] = await withRedis((redis) =>
+      redis.multi().del(this.conversationKey(id)).zRem(this.indexKey, id).exec(),
+      this.connect
+    );
+    return Number(deleted) > 0;
+  }
+
+  async list(): Promise<Conversation[]> {
+    const raws = await withRedis(async (redis): Promise<Array<string | null>> => {
+      const ids = await redis.zRange(this.indexKey, 0, -1, { REV: true });
+      return ids.length === 0 ? [] : redis.mGet(ids.map((id) => this.conversationKey(id)));
+    }, this.connect);
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map((raw) => deserializeConversation(JSON.parse(raw) as SerializedConversation));
+  }
+
+  async count(): Promise<number> {
+    return withRedis((redis) => redis.zCard(this.indexKey), this.connect);
+  }
+
+  async clear(): Promise<number> {
+    return withRedis(async (redis) => {
+      const ids = await redis.zRange(this.indexKey, 0, -1);
+      if (ids.length > 0) {
+        await redis.del([...ids.map((id) => this.conversationKey(id)), this.indexKey]);
+      }
+      return ids.length;
+    }, this.connect);
+  }
+}
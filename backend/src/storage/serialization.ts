@@ -0,0 +1,93 @@
+/**
+ * Conversation (de)serialization
+ *
+ * Conversation objects hold Date fields and a Set in metadata.agentsUsed,
+ * neither of which survives JSON.stringify. These helpers convert to and
+ * from a plain JSON-safe shape.
+ */
+
+import type { Conversation, ConversationMessage, MessageVariant } from '../conversation-manager';
+
+export interface SerializedMessage extends Omit<ConversationMessage, 'timestamp' | 'variants'> {
+  timestamp: string;
+  variants?: SerializedVariant[];
+}
+
+export interface SerializedVariant extends Omit<MessageVariant, 'timestamp' | 'replacedMessages'> {
+  timestamp: string;
+  replacedMessages?: SerializedMessage[];
+}
+
+export interface SerializedConversation
+  extends Omit<Conversation, 'messages' | 'createdAt' | 'updatedAt' | 'metadata'> {
+  messages: SerializedMessage[];
+  createdAt: string;
+  updatedAt: string;
+  metadata?: Omit<NonNullable<Conversation['metadata']>, 'agentsUsed'> & {
+    agentsUsed: string[];
+  };
+}
+
+/**
+ * Convert a conversation into a JSON-safe object
+ */
+export function serializeConversation(conversation: Conversation): SerializedConversation {
+  const { messages, createdAt, updatedAt, metadata, ...rest } = conversation;
+
+  return {
+    ...rest,
+    messages: messages.map(serializeMessage),
+    createdAt: createdAt.toISOString(),
+    updatedAt: updatedAt.toISOString(),
+    metadata: metadata && {
+      ...metadata,
+      agentsUsed: Array.from(metadata.agentsUsed),
+    },
+  };
+}
+
+/**
+ * Restore a conversation from its JSON-safe form
+ */
+export function deserializeConversation(data: SerializedConversation): Conversation {
+  const { messages, createdAt, updatedAt, metadata, ...rest } = data;
+
+  return {
+    ...rest,
+    messages: messages.map(deserializeMessage),
+    createdAt: new Date(createdAt),
+    updatedAt: new Date(updatedAt),
+    metadata: metadata && {
+      ...metadata,
+      agentsUsed: new Set(metadata.agentsUsed),
+    },
+  };
+}
+
+function serializeMessage(message: ConversationMessage): SerializedMessage {
+  const { timestamp, variants, ...rest } = message;
+
+  return {
+    ...rest,
+    timestamp: timestamp.toISOString(),
+    variants: variants?.map((variant) => ({
+      ...variant,
+      timestamp: variant.timestamp.toISOString(),
+      replacedMessages: variant.replacedMessages?.map(serializeMessage),
+    })),
+  };
+}
+
+function deserializeMessage(message: SerializedMessage): ConversationMessage {
+  const { timestamp, variants, ...rest } = message;
+
+  return {
+    ...rest,
+    timestamp: new Date(timestamp),
+    variants: variants?.map((variant) => ({
+      ...variant,
+      timestamp: new Date(variant.timestamp),
+      replacedMessages: variant.replacedMessages?.map(deserializeMessage),
+    })),
+  };
+}
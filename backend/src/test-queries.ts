@@ -1,9 +1,15 @@
 /**
- * Test script for PoC demo queries
- * Run with: npm test
+ * Test script for PoC demo queries (live model and services)
+ * Run with: npm run test:live
+ *
+ * Record/replay (one cassette per test under fixtures/cassettes/):
+ *   npm run test:record   # live network, saves every agent/LLM request
+ *   npm run test:replay   # offline and deterministic, fails on unrecorded requests
  */
 
 import { GeminiOrchestrator } from './orchestrator';
+import { config } from './config';
+import { ejectCassette, useConfiguredCassette } from './cassettes';
 
 const TEST_QUERIES = [
   {
@@ -42,6 +48,8 @@ async function runTests() {
     console.log(`${'─'.repeat(70)}`);
 
     try {
+      // In replay mode a missing cassette fails this test only
+      useConfiguredCassette(`test-query-${test.id}`);
       const result = await orchestrator.executeQuery(test.query);
 
       console.log('\n📊 Results:');
@@ -61,10 +69,12 @@ async function runTests() {
     } catch (error: any) {
       console.error('\n❌ Test FAILED:', error.message);
       failed++;
+    } finally {
+      ejectCassette();
     }
 
-    // Wait between tests to avoid rate limits
-    if (test.id < TEST_QUERIES.length) {
+    // Wait between tests to avoid rate limits (not needed when replaying)
+    if (test.id < TEST_QUERIES.length && config.cassette.mode !== 'replay') {
       console.log('\n⏳ Waiting 3 seconds before next test...');
       await new Promise((resolve) => setTimeout(resolve, 3000));
     }
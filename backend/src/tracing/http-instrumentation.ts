@@ -0,0 +1,142 @@
+import axios, { AxiosAdapter, AxiosError } from 'axios';
+import { TraceAttributes, TraceSpan } from '../types';
+import { QueryTracer, currentSpan } from './query-tracer';
+
+let installed = false;
+
+/** Requests already sent per parent span, by "METHOD url": repeats count as resends */
+const sentRequests = new WeakMap<TraceSpan, Map<string, number>>();
+
+/**
+ * Record outbound requests made inside a traced span (agents: Wikidata, Wikipedia,
+ * Nominatim...; providers: Gemini, OpenAI-compatible) as HTTP child spans.
+ * Patches global fetch and the default axios adapter once per process; requests
+ * made outside a traced query pass through untouched.
+ */
+export function installHttpTracing(): void {
+  if (installed) {
+    return;
+  }
+  installed = true;
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    const context = currentSpan();
+    if (!context) {
+      return originalFetch(input, init);
+    }
+
+    const method = (init?.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const { tracer } = context;
+    const span = startHttpSpan(tracer, context.span, method, url);
+
+    let response: Response;
+    try {
+      response = await originalFetch(input, init);
+    } catch (error: any) {
+      tracer.end(span, error.message);
+      throw error;
+    }
+
+    span.attributes['http.response.status_code'] = response.status;
+    const error = response.status >= 400 ? `HTTP ${response.status}` : undefined;
+    const contentLength = Number(response.headers.get('content-length'));
+
+    if (contentLength > 0 || !response.body) {
+      span.attributes['http.response.body.size'] = contentLength || 0;
+      tracer.end(span, error);
+    } else {
+      // Chunked response: the span lasts until the whole body has arrived
+      response
+        .clone()
+        .arrayBuffer()
+        .then(
+          (body) => {
+            span.attributes['http.response.body.size'] = body.byteLength;
+            tracer.end(span, error);
+          },
+          (bodyError: Error) => tracer.end(span, bodyError.message)
+        );
+    }
+    return response;
+  };
+
+  const originalAdapter = axios.getAdapter(axios.defaults.adapter);
+  const tracingAdapter: AxiosAdapter = async (requestConfig) => {
+    const context = currentSpan();
+    if (!context) {
+      return originalAdapter(requestConfig);
+    }
+
+    const method = (requestConfig.method || 'get').toUpperCase();
+    const { tracer } = context;
+    const span = startHttpSpan(tracer, context.span, method, axios.getUri(requestConfig));
+
+    try {
+      const response = await originalAdapter(requestConfig);
+      span.attributes['http.response.status_code'] = response.status;
+      span.attributes['http.response.body.size'] = bodySize(response.data, response.headers['content-length']);
+      tracer.end(span);
+      return response;
+    } catch (error: any) {
+      if (error instanceof AxiosError && error.response) {
+        span.attributes['http.response.status_code'] = error.response.status;
+        span.attributes['http.response.body.size'] = bodySize(
+          error.response.data,
+          error.response.headers['content-length']
+        );
+      } else if (error?.code) {
+        span.attributes['error.type'] = String(error.code);
+      }
+      tracer.end(span, error.message);
+      throw error;
+    }
+  };
+  axios.defaults.adapter = tracingAdapter;
+}
+
+/**
+ * Open an HTTP client span. The URL is reduced to host and path: query strings
+ * can be long (SPARQL) and carry user text or keys.
+ */
+function startHttpSpan(
+  tracer: QueryTracer,
+  parent: TraceSpan,
+  method: string,
+  url: string
+): TraceSpan {
+  const attributes: TraceAttributes = { 'http.request.method': method };
+  try {
+    const parsed = new URL(url);
+    attributes['server.address'] = parsed.hostname;
+    attributes['url.path'] = parsed.pathname;
+  } catch {
+    // Relative or malformed URL: keep the method only
+  }
+
+  const sent = sentRequests.get(parent) ?? new Map<string, number>();
+  sentRequests.set(parent, sent);
+  const key = `${method} ${url}`;
+  const resendCount = sent.get(key) ?? 0;
+  sent.set(key, resendCount + 1);
+
+  if (resendCount > 0) {
+    attributes['http.request.resend_count'] = resendCount;
+    parent.attributes['wikidai.http.resends'] = Number(parent.attributes['wikidai.http.resends'] ?? 0) + 1;
+  }
+  parent.attributes['wikidai.http.requests'] = Number(parent.attributes['wikidai.http.requests'] ?? 0) + 1;
+
+  return tracer.start(method, 'http', attributes, parent);
+}
+
+/**
+ * Response size in bytes: Content-Length, or the raw body the adapter returned
+ */
+function bodySize(data: unknown, contentLength: unknown): number {
+  const declared = Number(contentLength);
+  if (declared > 0) return declared;
+  if (typeof data === 'string') return Buffer.byteLength(data);
+  if (Buffer.isBuffer(data)) return data.length;
+  return 0;
+}
@@ -0,0 +1,20 @@
+/**
+ * Per-query execution traces: model turns, agent calls and HTTP requests as
+ * a span tree, kept in memory and exportable as OTLP/JSON
+ */
+
+import { config } from '../config';
+import { TraceBuffer } from './trace-buffer';
+
+export { QueryTracer, currentSpan } from './query-tracer';
+export { installHttpTracing } from './http-instrumentation';
+export { exportTracesOtlp } from './otlp-export';
+export type { OtlpTraceExport } from './otlp-export';
+export { TraceBuffer };
+
+/**
+ * Create the trace buffer from configuration
+ */
+export function createTraceBuffer(): TraceBuffer {
+  return new TraceBuffer(config.tracing.bufferSize);
+}
@@ -0,0 +1,96 @@
+import { QueryTrace, TraceSpan } from '../types';
+
+/** OTLP/JSON attribute value (int64 values are strings in JSON) */
+type OtlpValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+
+interface OtlpAttribute {
+  key: string;
+  value: OtlpValue;
+}
+
+/**
+ * OTLP/JSON span
+ * (https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding)
+ */
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  status: { code: number; message?: string };
+}
+
+export interface OtlpTraceExport {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpAttribute[] };
+    scopeSpans: Array<{ scope: { name: string }; spans: OtlpSpan[] }>;
+  }>;
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+/**
+ * Traces in the OTLP/JSON format accepted by OpenTelemetry collectors
+ * (POST /v1/traces) and trace viewers such as Jaeger
+ */
+export function exportTracesOtlp(traces: QueryTrace[], serviceName: string): OtlpTraceExport {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: [attribute('service.name', serviceName)] },
+        scopeSpans: [
+          {
+            scope: { name: 'wikidai.orchestrator' },
+            spans: traces.flatMap((trace) => trace.spans.map((span) => toOtlpSpan(trace, span))),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toOtlpSpan(trace: QueryTrace, span: TraceSpan): OtlpSpan {
+  const attributes = Object.entries(span.attributes).map(([key, value]) => attribute(key, value));
+  if (span.kind === 'query') {
+    attributes.push(attribute('wikidai.query', trace.query));
+    if (trace.requestId) attributes.push(attribute('wikidai.request_id', trace.requestId));
+  }
+
+  return {
+    traceId: trace.traceId,
+    spanId: span.spanId,
+    parentSpanId: span.parentSpanId,
+    name: span.name,
+    // Model turns and HTTP requests wait on remote services
+    kind: span.kind === 'llm' || span.kind === 'http' ? SPAN_KIND_CLIENT : SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+    attributes,
+    status: span.status === 'error' ? { code: STATUS_ERROR, message: span.statusMessage } : { code: STATUS_OK },
+  };
+}
+
+function attribute(key: string, value: string | number | boolean): OtlpAttribute {
+  if (typeof value === 'boolean') return { key, value: { boolValue: value } };
+  if (typeof value === 'number') {
+    return { key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } };
+  }
+  return { key, value: { stringValue: value } };
+}
+
+/**
+ * Epoch milliseconds (with a fractional part) as a decimal nanosecond string:
+ * nanoseconds since 1970 do not fit in a double
+ */
+function toUnixNano(ms: number): string {
+  const whole = Math.floor(ms);
+  const nanos = Math.min(999999, Math.round((ms - whole) * 1e6));
+  return `${whole}${String(nanos).padStart(6, '0')}`;
+}
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { afterEach, test } from 'node:test';
+import { config } from '../config';
+import { exportTracesOtlp } from './otlp-export';
+import { QueryTracer } from './query-tracer';
+
+const QUESTION = 'Where was Ada Lovelace born?';
+const originalRedact = config.logging.redact;
+
+afterEach(() => {
+  config.logging.redact = originalRedact;
+});
+
+/**
+ * Trace of a query whose agent call failed
+ */
+async function failedTrace() {
+  const tracer = new QueryTracer(QUESTION, 'req-1');
+  await tracer
+    .inSpan('get_wikipedia_summary', 'agent', {}, async () => {
+      throw new Error('Article "Ada Lovelace" not found');
+    })
+    .catch(() => undefined);
+  return tracer.finish();
+}
+
+test('records the question and error messages', async () => {
+  config.logging.redact = ['secrets'];
+  const trace = await failedTrace();
+
+  assert.equal(trace.query, QUESTION);
+  assert.equal(trace.spans[1].statusMessage, 'Article "Ada Lovelace" not found');
+});
+
+test('keeps user text out of traces and OTLP exports with LOG_REDACT=user_text', async () => {
+  config.logging.redact = ['secrets', 'user_text'];
+  const trace = await failedTrace();
+
+  assert.equal(trace.query, `[redacted ${QUESTION.length} chars]`);
+  assert.equal(trace.spans[1].status, 'error');
+  assert.doesNotMatch(JSON.stringify(exportTracesOtlp([trace], 'wikidai')), /Lovelace/);
+});
@@ -0,0 +1,135 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { performance } from 'perf_hooks';
+import { config } from '../config';
+import { QueryTrace, TraceAttributes, TraceSpan } from '../types';
+
+/** The tracer and span that work started from the current async context belongs to */
+interface SpanContext {
+  tracer: QueryTracer;
+  span: TraceSpan;
+}
+
+const activeSpan = new AsyncLocalStorage<SpanContext>();
+
+/**
+ * Epoch milliseconds with microsecond precision
+ */
+function now(): number {
+  return Math.round((performance.timeOrigin + performance.now()) * 1000) / 1000;
+}
+
+/**
+ * The text, or its length only when LOG_REDACT includes user_text (traces are
+ * listed by /api/traces and exported, like logs)
+ */
+function redactUserText(text: string): string {
+  return config.logging.redact.includes('user_text') ? `[redacted ${text.length} chars]` : text;
+}
+
+/**
+ * Records the span tree of one query. Spans started inside inSpan() become
+ * children of that span, including HTTP requests made by agents and providers
+ * (see installHttpTracing).
+ */
+export class QueryTracer {
+  readonly traceId = randomBytes(16).toString('hex');
+  private readonly spans: TraceSpan[] = [];
+  private readonly root: TraceSpan;
+
+  constructor(
+    private readonly query: string,
+    private readonly requestId?: string,
+    attributes: TraceAttributes = {}
+  ) {
+    this.root = this.start('query', 'query', attributes, null);
+  }
+
+  /**
+   * Open a span under the given parent (default: the active span of this trace, or the root)
+   */
+  start(
+    name: string,
+    kind: TraceSpan['kind'],
+    attributes: TraceAttributes = {},
+    parent: TraceSpan | null = this.activeSpan() ?? this.root
+  ): TraceSpan {
+    const span: TraceSpan = {
+      spanId: randomBytes(8).toString('hex'),
+      parentSpanId: parent?.spanId,
+      name,
+      kind,
+      startTime: now(),
+      status: 'ok',
+      attributes: { ...attributes },
+    };
+    this.spans.push(span);
+    return span;
+  }
+
+  /**
+   * Close a span (once), marking it failed when an error is given
+   */
+  end(span: TraceSpan, error?: string): void {
+    if (span.endTime !== undefined) return;
+
+    span.endTime = now();
+    span.durationMs = Math.round((span.endTime - span.startTime) * 1000) / 1000;
+    if (error !== undefined) {
+      span.status = 'error';
+      // Error messages quote their input (SPARQL diagnostics, article titles)
+      span.statusMessage = redactUserText(error);
+    }
+  }
+
+  /**
+   * Run fn in a new span: work it starts (spans, HTTP requests) is recorded as children.
+   * The span fails when fn throws.
+   */
+  async inSpan<T>(
+    name: string,
+    kind: TraceSpan['kind'],
+    attributes: TraceAttributes,
+    fn: (span: TraceSpan) => Promise<T>
+  ): Promise<T> {
+    const span = this.start(name, kind, attributes);
+    try {
+      const result = await activeSpan.run({ tracer: this, span }, () => fn(span));
+      this.end(span);
+      return result;
+    } catch (error: any) {
+      this.end(span, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Close the root span (failed when an error is given) and any span left open, and return the trace
+   */
+  finish(attributes: TraceAttributes = {}, error?: string): QueryTrace {
+    Object.assign(this.root.attributes, attributes);
+    this.end(this.root, error);
+    this.spans.forEach((span) => this.end(span));
+
+    return {
+      traceId: this.traceId,
+      requestId: this.requestId,
+      query: redactUserText(this.query),
+      startTime: this.root.startTime,
+      durationMs: this.root.durationMs!,
+      spans: this.spans,
+    };
+  }
+
+  private activeSpan(): TraceSpan | undefined {
+    const context = activeSpan.getStore();
+    return context?.tracer === this ? context.span : undefined;
+  }
+}
+
+/**
+ * Tracer and span of the current async context, if any
+ */
+export function currentSpan(): SpanContext | undefined {
+  return activeSpan.getStore();
+}
@@ -0,0 +1,30 @@
+import { QueryTrace } from '../types';
+
+/**
+ * Most recent query traces of this process, oldest evicted first
+ */
+export class TraceBuffer {
+  private traces = new Map<string, QueryTrace>();
+
+  constructor(private readonly capacity: number) {}
+
+  add(trace: QueryTrace): void {
+    if (this.capacity <= 0) return;
+
+    this.traces.set(trace.traceId, trace);
+    while (this.traces.size > this.capacity) {
+      this.traces.delete(this.traces.keys().next().value!);
+    }
+  }
+
+  get(traceId: string): QueryTrace | undefined {
+    return this.traces.get(traceId);
+  }
+
+  /**
+   * Newest first
+   */
+  list(): QueryTrace[] {
+    return [...this.traces.values()].reverse();
+  }
+}
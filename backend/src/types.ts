@@ -2,6 +2,9 @@
  * Type definitions for WikidAI PoC
  */
 
+import type { ChatHistoryMessage, LLMFunctionCall, LLMFunctionResult, TranscriptEntry } from './llm';
+import type { SparqlRewrite } from './sparql';
+
 export interface QueryRequest {
   query: string;
   sessionId?: string;
@@ -33,18 +36,278 @@ export interface FinalAnswer {
   timestamp: number;
 }
 
-export type StreamChunk = ThoughtPart | AgentCall | AgentResponse | FinalAnswer;
+export interface ClarificationChunk {
+  type: 'clarification';
+  clarification: ClarificationRequest;
+  timestamp: number;
+}
+
+export interface GroundingChunk {
+  type: 'grounding';
+  report: GroundingReport;
+  timestamp: number;
+}
+
+export type StreamChunk = ThoughtPart | AgentCall | AgentResponse | FinalAnswer | ClarificationChunk | GroundingChunk;
+
+/**
+ * Optional hooks and settings for a single executeQuery() run
+ */
+export interface ExecuteQueryOptions {
+  /** Invoked for every thought, function call, function response and the final answer */
+  onChunk?: (chunk: StreamChunk) => void;
+  /**
+   * Pause on ambiguous agent results (e.g. several geocoding matches) and ask the user.
+   * Receives the context needed to resume; only enable when it can be persisted.
+   */
+  onPause?: (pending: PendingClarification) => void | Promise<void>;
+  /** Preferred content language (e.g. "it"), used by agents that default to a language */
+  language?: string;
+  /** Grounding check of the final answer (defaults to GROUNDING_MODE) */
+  grounding?: GroundingMode;
+  /** Correlation ID of the HTTP request, bound to every log entry of the query */
+  requestId?: string;
+}
+
+/**
+ * One choice offered to the user when a workflow is paused
+ */
+export interface ClarificationOption {
+  id: string;
+  label: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface ClarificationRequest {
+  agent: string;
+  question: string;
+  options: ClarificationOption[];
+}
+
+/**
+ * Everything needed to resume a paused tool loop once the user has chosen an option
+ */
+export interface PendingClarification {
+  /** Original user question */
+  query: string;
+  clarification: ClarificationRequest;
+  /** Function call awaiting the user's choice */
+  pendingCall: LLMFunctionCall;
+  /** Text sent back to the model for each option ID */
+  optionResults: Record<string, string>;
+  /** Sources and table recorded for each option ID once chosen (absent in workflows saved before them) */
+  optionRecords?: Record<string, { sources: SourceRef[]; table?: ResultTable }>;
+  /** Results of the other calls made in the same turn, in call order */
+  completedResults: LLMFunctionResult[];
+  /** Position of pendingCall among the calls of its turn (absent in workflows saved before it: last) */
+  pendingIndex?: number;
+  /** Conversation history the workflow started from */
+  history: ChatHistoryMessage[];
+  /** Tool-loop steps up to and including the paused model turn */
+  transcript: TranscriptEntry[];
+  thoughts: string[];
+  agentCalls: AgentCallRecord[];
+  sources: Source[];
+  /** Token usage of the turns before the pause (absent in workflows saved before usage existed) */
+  usage?: TurnUsage[];
+  turn: number;
+  createdAt: string;
+}
+
+/**
+ * One cell of a ResultTable, typed as in the SPARQL JSON results format
+ */
+export interface ResultCell {
+  type: 'uri' | 'literal' | 'bnode' | 'triple';
+  value: string;
+  /** Datatype IRI of a typed literal (e.g. xsd:decimal) */
+  datatype?: string;
+  /** Language tag of a literal (xml:lang) */
+  lang?: string;
+}
+
+/**
+ * Complete tabular result of an agent call, for rendering and download
+ */
+export interface ResultTable {
+  columns: string[];
+  /** One cell per column; null when the variable is unbound in that row */
+  rows: Array<Array<ResultCell | null>>;
+  /** Rows returned, i.e. rows.length (not the size of the full result) */
+  rowCount: number;
+  /** The rows reached the query's LIMIT: the full result may have more */
+  truncated?: boolean;
+}
+
+/**
+ * Where a fact came from, as reported by the agent that fetched it
+ */
+export interface SourceRef {
+  type: 'wikidata_entity' | 'wikidata_query' | 'wikipedia' | 'openstreetmap' | 'open_meteo' | 'duckduckgo' | 'web';
+  title: string;
+  url: string;
+  /** Attribution or licence notice required by the provider */
+  attribution?: string;
+}
+
+/**
+ * A source collected during a query; the model cites it as [id] (e.g. [S1])
+ */
+export interface Source extends SourceRef {
+  id: string;
+  /** Agents whose results included this source */
+  agents: string[];
+}
+
+/**
+ * A span of the answer backed by one or more sources
+ */
+export interface Citation {
+  /** Sentence (or line) of the answer carrying the citation */
+  text: string;
+  /** Character offsets of text in the answer */
+  start: number;
+  end: number;
+  sourceIds: string[];
+}
+
+/**
+ * Token counts, for one model turn or summed over turns, queries or conversations
+ */
+export interface TokenUsage {
+  /** Prompt tokens, cached ones included */
+  promptTokens: number;
+  /** Output tokens, thoughts excluded */
+  completionTokens: number;
+  thoughtTokens: number;
+  /** Prompt tokens served from the provider's context cache */
+  cachedTokens: number;
+  totalTokens: number;
+}
+
+export interface TurnUsage extends TokenUsage {
+  /** Tool-loop turn the model response belongs to */
+  turn: number;
+}
+
+/**
+ * Token usage and estimated cost of one query
+ */
+export interface QueryUsage {
+  model: string;
+  turns: TurnUsage[];
+  total: TokenUsage;
+  /** Estimated from the price table (absent when the model has no price) */
+  costUsd?: number;
+}
+
+export type TraceAttributes = Record<string, string | number | boolean>;
+
+/**
+ * One timed step of a query: the query itself, a model turn, an agent call or an HTTP request
+ */
+export interface TraceSpan {
+  spanId: string;
+  /** Absent on the root (query) span */
+  parentSpanId?: string;
+  name: string;
+  kind: 'query' | 'llm' | 'agent' | 'http';
+  /** Epoch milliseconds (microsecond precision) */
+  startTime: number;
+  endTime?: number;
+  durationMs?: number;
+  status: 'ok' | 'error';
+  /** Error message when status is 'error' (redacted when LOG_REDACT includes user_text) */
+  statusMessage?: string;
+  /** OpenTelemetry semantic convention names where one exists (e.g. http.response.status_code) */
+  attributes: TraceAttributes;
+}
+
+/**
+ * Span tree of one query run (a resumed workflow gets its own trace)
+ */
+export interface QueryTrace {
+  /** 32 hex characters, as in OpenTelemetry */
+  traceId: string;
+  requestId?: string;
+  /** The question, redacted when LOG_REDACT includes user_text */
+  query: string;
+  startTime: number;
+  durationMs: number;
+  /** Spans in start order; the first one is the root */
+  spans: TraceSpan[];
+}
+
+/**
+ * 'off': no check, 'report': attach a GroundingReport,
+ * 'strict': also ask the model to revise unsupported statements before replying
+ */
+export type GroundingMode = 'off' | 'report' | 'strict';
+
+/**
+ * A checkable value found in the answer
+ */
+export interface GroundingClaim {
+  kind: 'entity_id' | 'number' | 'date' | 'coordinates';
+  /** Value as written in the answer */
+  text: string;
+  /** Character offsets of text in the answer */
+  start: number;
+  end: number;
+  /** Agents whose output contains the value (empty when unsupported) */
+  agents: string[];
+}
+
+/**
+ * Answer values checked against the agent results of the same query
+ */
+export interface GroundingReport {
+  supported: GroundingClaim[];
+  unsupported: GroundingClaim[];
+  /** Number of agent calls the answer was checked against */
+  checkedCalls: number;
+  /** Strict mode: the model was asked to revise the answer (the report describes the revision) */
+  revised?: boolean;
+  /** Strict mode: the answer before revision */
+  originalAnswer?: string;
+}
+
+export interface AgentCallRecord {
+  agent: string;
+  params: Record<string, any>;
+  /** Text sent to the model */
+  response: any;
+  /** Structured result (e.g. full SPARQL result set) when the agent provides one */
+  table?: ResultTable;
+  /** IDs of the sources (QueryResponse.sources) found in this result */
+  sourceIds?: string[];
+  /** True when the agent result was served from the response cache */
+  cached?: boolean;
+  /** Time spent waiting in an outbound rate-limit queue (e.g. Nominatim) */
+  queuedMs?: number;
+}
 
 export interface QueryResponse {
   query: string;
   thoughts: string[];
-  agentCalls: Array<{
-    agent: string;
-    params: Record<string, any>;
-    response: any;
-  }>;
+  agentCalls: AgentCallRecord[];
   answer: string;
   latencyMs: number;
+  /** Every source the agents returned, cited in the answer as [S1], [S2]... */
+  sources: Source[];
+  /** Answer sentences mapped to the sources they cite */
+  citations: Citation[];
+  /** Supported / unsupported values of the final answer (absent when the check is off) */
+  grounding?: GroundingReport;
+  /** Tokens per model turn and estimated cost (absent when the provider reports no usage) */
+  usage?: QueryUsage;
+  /** Set when the workflow paused to ask the user to choose (resume with selectedOption) */
+  clarification?: ClarificationRequest;
+  /** ID of the execution trace (kept for a while, see GET /api/traces/:traceId) */
+  traceId?: string;
+  /** Execution trace, only in responses to requests with the debug flag */
+  trace?: QueryTrace;
 }
 
 // Agent-specific types
@@ -53,8 +316,14 @@ export interface WikidataQueryResult {
     vars: string[];
   };
   results: {
-    bindings: Array<Record<string, { type: string; value: string }>>;
+    bindings: Array<Record<string, { type: string; value: string; datatype?: string; 'xml:lang'?: string }>>;
   };
+  /** Changes the SPARQL gate made before execution (e.g. LIMIT added) */
+  rewrites?: SparqlRewrite[];
+  /** Query as executed, after repairs and rewrites */
+  sparql?: string;
+  /** LIMIT of the executed query */
+  limit?: number;
 }
 
 export interface WikipediaSummary {
@@ -65,4 +334,8 @@ export interface WikipediaSummary {
       page?: string;
     };
   };
+  /** Language edition the summary came from (e.g. "it") */
+  edition?: string;
+  /** Language asked for, when a fallback edition was used instead */
+  requestedLanguage?: string;
 }
@@ -0,0 +1,7 @@
+/**
+ * Token usage and cost accounting
+ */
+
+export { emptyUsage, addUsage, turnUsage, summarizeUsage } from './token-usage';
+export { createPriceTable, findPrice, estimateCost, DEFAULT_PRICES } from './pricing';
+export type { ModelPrice, PriceTable } from './pricing';
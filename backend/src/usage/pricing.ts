@@ -0,0 +1,71 @@
+import { config } from '../config';
+import { logger } from '../logging';
+import { TokenUsage } from '../types';
+
+/**
+ * USD per million tokens. Thought tokens are billed as output.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Cached prompt tokens (defaults to the input price) */
+  cachedInput?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Public list prices (prompts up to 200k tokens), keyed by model name prefix
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075 },
+  'gemini-2.0-flash-thinking': { input: 0, output: 0 }, // experimental, free of charge
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  scripted: { input: 0, output: 0 },
+};
+
+/**
+ * Built-in prices with LLM_PRICE_TABLE entries on top
+ */
+export function createPriceTable(overrides: Record<string, any> = config.llm.priceTable): PriceTable {
+  const table: PriceTable = { ...DEFAULT_PRICES };
+
+  for (const [model, price] of Object.entries(overrides)) {
+    if (typeof price?.input !== 'number' || typeof price?.output !== 'number') {
+      logger.warn('Ignoring price: input and output must be numbers (USD per 1M tokens)', { model });
+      continue;
+    }
+    table[model] = price;
+  }
+
+  return table;
+}
+
+/**
+ * Price of a model: exact name, else the longest matching prefix
+ * ("gemini-2.5-pro-preview-06-05" uses "gemini-2.5-pro")
+ */
+export function findPrice(model: string, table: PriceTable): ModelPrice | undefined {
+  if (table[model]) return table[model];
+
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * Estimated cost in USD (rounded to a millionth of a dollar)
+ */
+export function estimateCost(usage: TokenUsage, price: ModelPrice): number {
+  const uncached = usage.promptTokens - usage.cachedTokens;
+  const cost =
+    uncached * price.input +
+    usage.cachedTokens * (price.cachedInput ?? price.input) +
+    (usage.completionTokens + usage.thoughtTokens) * price.output;
+
+  return Math.round(cost) / 1e6;
+}
@@ -0,0 +1,37 @@
+import type { LLMUsage } from '../llm';
+import { QueryUsage, TokenUsage, TurnUsage } from '../types';
+import { PriceTable, estimateCost, findPrice } from './pricing';
+
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, thoughtTokens: 0, cachedTokens: 0, totalTokens: 0 };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    thoughtTokens: a.thoughtTokens + b.thoughtTokens,
+    cachedTokens: a.cachedTokens + b.cachedTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+export function turnUsage(turn: number, usage: LLMUsage): TurnUsage {
+  return {
+    turn,
+    ...usage,
+    totalTokens: usage.promptTokens + usage.completionTokens + usage.thoughtTokens,
+  };
+}
+
+/**
+ * Totals and estimated cost of a query's model turns (undefined when none reported usage)
+ */
+export function summarizeUsage(model: string, turns: TurnUsage[], prices: PriceTable): QueryUsage | undefined {
+  if (turns.length === 0) return undefined;
+
+  const total = turns.reduce<TokenUsage>((sum, { turn, ...usage }) => addUsage(sum, usage), emptyUsage());
+  const price = findPrice(model, prices);
+
+  return { model, turns, total, costUsd: price && estimateCost(total, price) };
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { DEFAULT_PRICES, createPriceTable, estimateCost, findPrice } from './pricing';
+import { summarizeUsage, turnUsage } from './token-usage';
+
+const usage = { promptTokens: 1_000_000, completionTokens: 100_000, thoughtTokens: 50_000, cachedTokens: 200_000 };
+
+describe('pricing table', () => {
+  test('finds a model by exact name, else by its longest prefix', () => {
+    assert.equal(findPrice('gemini-2.5-pro', DEFAULT_PRICES), DEFAULT_PRICES['gemini-2.5-pro']);
+    const lite = findPrice('gemini-2.5-flash-lite-preview-06-17', DEFAULT_PRICES);
+    assert.equal(lite, DEFAULT_PRICES['gemini-2.5-flash-lite']);
+    assert.equal(findPrice('gemini-2.5-flash-preview', DEFAULT_PRICES), DEFAULT_PRICES['gemini-2.5-flash']);
+  });
+
+  test('bills cached prompt tokens at their own price and thoughts as output', () => {
+    const cost = estimateCost(turnUsage(1, usage), DEFAULT_PRICES['gemini-2.5-pro']);
+
+    // 800k uncached x 1.25 + 200k cached x 0.31 + 150k output x 10, per million
+    assert.equal(cost, 2.562);
+  });
+
+  test('adds valid LLM_PRICE_TABLE entries and ignores the others', () => {
+    const table = createPriceTable({ 'my-model': { input: 1, output: 2 }, broken: { input: '1' } });
+
+    assert.deepEqual(table['my-model'], { input: 1, output: 2 });
+    assert.equal(table.broken, undefined);
+    assert.equal(table['gemini-2.5-pro'], DEFAULT_PRICES['gemini-2.5-pro']);
+  });
+});
+
+describe('query usage', () => {
+  test('sums the turns of a query', () => {
+    const summary = summarizeUsage('gemini-2.5-flash', [turnUsage(1, usage), turnUsage(2, usage)], DEFAULT_PRICES);
+
+    assert.equal(summary?.total.promptTokens, 2_000_000);
+    assert.equal(summary?.total.totalTokens, 2_300_000);
+    assert.equal(summary?.turns.length, 2);
+  });
+
+  test('counts tokens but no cost for a model without a price', () => {
+    const summary = summarizeUsage('local-llama', [turnUsage(1, usage)], DEFAULT_PRICES);
+
+    assert.equal(summary?.total.totalTokens, 1_150_000);
+    assert.equal(summary?.costUsd, undefined);
+  });
+
+  test('has no summary when no turn reported usage', () => {
+    assert.equal(summarizeUsage('gemini-2.5-pro', [], DEFAULT_PRICES), undefined);
+  });
+});